@@ -0,0 +1,5 @@
+-- Add normalized caller claims parsed from call text
+ALTER TABLE "signals"
+ADD COLUMN "reported_mcap" DOUBLE PRECISION,
+ADD COLUMN "reported_price" DOUBLE PRECISION,
+ADD COLUMN "reported_targets" JSONB;
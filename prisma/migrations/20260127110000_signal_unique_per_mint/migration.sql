@@ -0,0 +1,4 @@
+-- Allow one signal per distinct mint in a message (multi-token calls)
+DROP INDEX IF EXISTS "signals_chat_id_message_id_key";
+
+CREATE UNIQUE INDEX "signals_chat_id_message_id_mint_key" ON "signals"("chat_id", "message_id", "mint");
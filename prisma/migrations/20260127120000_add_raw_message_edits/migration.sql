@@ -0,0 +1,20 @@
+-- Track edits to ingested messages (edited_message / edited_channel_post)
+ALTER TABLE "raw_messages"
+ADD COLUMN "edited_at" TIMESTAMP(3);
+
+CREATE TABLE "raw_message_edits" (
+    "id" SERIAL NOT NULL,
+    "raw_message_id" INTEGER NOT NULL,
+    "previous_text" TEXT NOT NULL,
+    "new_text" TEXT NOT NULL,
+    "edited_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "raw_message_edits_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "raw_message_edits_raw_message_id_idx" ON "raw_message_edits"("raw_message_id");
+
+ALTER TABLE "raw_message_edits"
+ADD CONSTRAINT "raw_message_edits_raw_message_id_fkey"
+FOREIGN KEY ("raw_message_id") REFERENCES "raw_messages"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
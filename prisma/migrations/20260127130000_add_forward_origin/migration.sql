@@ -0,0 +1,18 @@
+-- Forward origin of ingested messages and the signals derived from them
+ALTER TABLE "raw_messages"
+ADD COLUMN "forward_origin_type" TEXT,
+ADD COLUMN "forward_from_chat_id" BIGINT,
+ADD COLUMN "forward_from_chat_title" TEXT,
+ADD COLUMN "forward_from_message_id" INTEGER,
+ADD COLUMN "forward_from_user_id" BIGINT,
+ADD COLUMN "forward_author" TEXT,
+ADD COLUMN "forward_date" TIMESTAMP(3);
+
+ALTER TABLE "signals"
+ADD COLUMN "forward_from_chat_id" BIGINT,
+ADD COLUMN "forward_from_chat_title" TEXT,
+ADD COLUMN "forward_from_user_id" BIGINT,
+ADD COLUMN "forward_author" TEXT,
+ADD COLUMN "forward_date" TIMESTAMP(3);
+
+CREATE INDEX "signals_forward_from_chat_id_idx" ON "signals"("forward_from_chat_id");
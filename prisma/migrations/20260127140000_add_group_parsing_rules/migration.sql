@@ -0,0 +1,20 @@
+-- Per-group parsing rules (templates, keywords, ignore patterns, min confidence, admins only)
+CREATE TABLE "group_parsing_rules" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "templates" TEXT[],
+    "required_keywords" TEXT[],
+    "ignore_patterns" TEXT[],
+    "min_confidence" DOUBLE PRECISION,
+    "admins_only" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "group_parsing_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "group_parsing_rules_group_id_key" ON "group_parsing_rules"("group_id");
+
+ALTER TABLE "group_parsing_rules"
+ADD CONSTRAINT "group_parsing_rules_group_id_fkey"
+FOREIGN KEY ("group_id") REFERENCES "groups"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- "Not a signal" feedback: exclude signals from analytics and label raw messages
+ALTER TABLE "signals"
+ADD COLUMN "excluded_at" TIMESTAMP(3),
+ADD COLUMN "excluded_reason" TEXT,
+ADD COLUMN "excluded_by" BIGINT;
+
+ALTER TABLE "raw_messages"
+ADD COLUMN "label" TEXT,
+ADD COLUMN "labeled_at" TIMESTAMP(3),
+ADD COLUMN "labeled_by" BIGINT;
+
+CREATE INDEX "raw_messages_label_idx" ON "raw_messages"("label");
@@ -0,0 +1,6 @@
+-- Ingest spam filter: reason a message was suppressed (null = not spam)
+ALTER TABLE "raw_messages"
+ADD COLUMN "spam_reason" TEXT;
+
+-- Per-sender history lookups (repeats, bursts)
+CREATE INDEX "raw_messages_chat_id_sender_id_sent_at_idx" ON "raw_messages"("chat_id", "sender_id", "sent_at");
@@ -0,0 +1,13 @@
+-- Provider call counts per API key and UTC day/month for rate limit quotas
+CREATE TABLE "provider_usage" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "key_id" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_usage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "provider_usage_provider_key_id_period_key" ON "provider_usage"("provider", "key_id", "period");
@@ -0,0 +1,25 @@
+-- Quotes rejected by the price sanity check; recent samples are looked up per mint
+CREATE TABLE "price_quarantine" (
+    "id" BIGSERIAL NOT NULL,
+    "signal_id" INTEGER NOT NULL,
+    "mint" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "provider" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "reference_price" DOUBLE PRECISION,
+    "secondary_price" DOUBLE PRECISION,
+    "secondary_provider" TEXT,
+    "deviation" DOUBLE PRECISION,
+    "sampled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "price_quarantine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "price_quarantine_mint_sampled_at_idx" ON "price_quarantine"("mint", "sampled_at");
+CREATE INDEX "price_quarantine_signal_id_idx" ON "price_quarantine"("signal_id");
+
+ALTER TABLE "price_quarantine"
+ADD CONSTRAINT "price_quarantine_signal_id_fkey"
+FOREIGN KEY ("signal_id") REFERENCES "signals"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
+
+CREATE INDEX "price_samples_mint_sampled_at_idx" ON "price_samples"("mint", "sampled_at");
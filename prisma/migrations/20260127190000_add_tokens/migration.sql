@@ -0,0 +1,49 @@
+-- Persistent token metadata with per-field provenance, and supply changes over time
+CREATE TABLE "tokens" (
+    "id" SERIAL NOT NULL,
+    "chain" TEXT NOT NULL DEFAULT 'solana',
+    "mint" TEXT NOT NULL,
+    "name" TEXT,
+    "symbol" TEXT,
+    "decimals" INTEGER,
+    "image" TEXT,
+    "supply" DOUBLE PRECISION,
+    "circ_supply" DOUBLE PRECISION,
+    "total_supply" DOUBLE PRECISION,
+    "launchpad" TEXT,
+    "socials" JSONB,
+    "audit" JSONB,
+    "tags" TEXT[],
+    "is_verified" BOOLEAN,
+    "token_created_at" TIMESTAMP(3),
+    "first_pool_id" TEXT,
+    "first_pool_created_at" TIMESTAMP(3),
+    "graduated_pool" TEXT,
+    "graduated_at" TIMESTAMP(3),
+    "field_sources" JSONB NOT NULL DEFAULT '{}',
+    "refreshed_at" TIMESTAMP(3) NOT NULL,
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "tokens_chain_mint_key" ON "tokens"("chain", "mint");
+
+CREATE TABLE "token_supply_history" (
+    "id" SERIAL NOT NULL,
+    "token_id" INTEGER NOT NULL,
+    "supply" DOUBLE PRECISION NOT NULL,
+    "previous_supply" DOUBLE PRECISION,
+    "provider" TEXT NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_supply_history_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "token_supply_history_token_id_recorded_at_idx" ON "token_supply_history"("token_id", "recorded_at");
+
+ALTER TABLE "token_supply_history"
+ADD CONSTRAINT "token_supply_history_token_id_fkey"
+FOREIGN KEY ("token_id") REFERENCES "tokens"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Price samples are taken once per mint; signal_id only marks the sample that was a signal's entry
+ALTER TABLE "price_samples" ADD COLUMN "chain" TEXT NOT NULL DEFAULT 'solana';
+ALTER TABLE "price_samples" ALTER COLUMN "signal_id" DROP NOT NULL;
+
+ALTER TABLE "price_samples" DROP CONSTRAINT IF EXISTS "price_samples_signal_id_fkey";
+ALTER TABLE "price_samples"
+ADD CONSTRAINT "price_samples_signal_id_fkey"
+FOREIGN KEY ("signal_id") REFERENCES "signals"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- Persistent ATH backfill runs with per-mint progress, so runs survive restarts
+CREATE TABLE "backfill_runs" (
+    "id" SERIAL NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "phase" TEXT,
+    "options" JSONB NOT NULL DEFAULT '{}',
+    "total_mints" INTEGER NOT NULL DEFAULT 0,
+    "processed_mints" INTEGER NOT NULL DEFAULT 0,
+    "total_signals" INTEGER NOT NULL DEFAULT 0,
+    "processed_signals" INTEGER NOT NULL DEFAULT 0,
+    "ath_updated" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "current_mint" TEXT,
+    "last_error" TEXT,
+    "budget" JSONB,
+    "resumed_count" INTEGER NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+
+    CONSTRAINT "backfill_runs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "backfill_runs_kind_started_at_idx" ON "backfill_runs"("kind", "started_at");
+
+CREATE TABLE "backfill_run_mints" (
+    "id" SERIAL NOT NULL,
+    "run_id" INTEGER NOT NULL,
+    "mint" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "signals" INTEGER NOT NULL DEFAULT 0,
+    "ath_updated" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "backfill_run_mints_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "backfill_run_mints_run_id_mint_key" ON "backfill_run_mints"("run_id", "mint");
+CREATE INDEX "backfill_run_mints_run_id_status_idx" ON "backfill_run_mints"("run_id", "status");
+
+ALTER TABLE "backfill_run_mints"
+ADD CONSTRAINT "backfill_run_mints_run_id_fkey"
+FOREIGN KEY ("run_id") REFERENCES "backfill_runs"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
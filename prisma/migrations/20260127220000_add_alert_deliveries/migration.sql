@@ -0,0 +1,33 @@
+-- Threshold events per basis (price or market cap), and a delivery row per alert and chat
+ALTER TABLE "threshold_events" ADD COLUMN "basis" TEXT NOT NULL DEFAULT 'price';
+
+DROP INDEX "threshold_events_signal_id_multiple_threshold_key";
+CREATE UNIQUE INDEX "threshold_events_signal_id_multiple_threshold_basis_key" ON "threshold_events"("signal_id", "multiple_threshold", "basis");
+
+CREATE TABLE "alert_deliveries" (
+    "id" SERIAL NOT NULL,
+    "threshold_event_id" INTEGER NOT NULL,
+    "chat_id" BIGINT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "show_hide_button" BOOLEAN NOT NULL DEFAULT false,
+    "auto_delete_seconds" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "message_id" INTEGER,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "alert_deliveries_threshold_event_id_chat_id_key" ON "alert_deliveries"("threshold_event_id", "chat_id");
+CREATE INDEX "alert_deliveries_status_next_attempt_at_idx" ON "alert_deliveries"("status", "next_attempt_at");
+
+ALTER TABLE "alert_deliveries"
+ADD CONSTRAINT "alert_deliveries_threshold_event_id_fkey"
+FOREIGN KEY ("threshold_event_id") REFERENCES "threshold_events"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
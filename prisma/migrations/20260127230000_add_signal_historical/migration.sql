@@ -0,0 +1,4 @@
+-- Signals created from past messages (history import, reprocess) and past calls without a price then
+ALTER TYPE "TrackingStatus" ADD VALUE 'ENTRY_UNAVAILABLE';
+
+ALTER TABLE "signals" ADD COLUMN "historical" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- Thresholds signals already crossed before threshold events were recorded, taken from their stored ATH,
+-- so the first alert check after deploying does not alert them again. No deliveries are created.
+INSERT INTO "threshold_events" ("signal_id", "multiple_threshold", "basis", "hit_price", "hit_market_cap", "hit_at", "provider")
+SELECT m."signal_id", t.threshold, 'price', m."ath_price", m."ath_market_cap", m."ath_at", 'seed'
+FROM "signal_metrics" m
+CROSS JOIN unnest(ARRAY[2, 3, 4, 5, 10, 15, 20, 30, 50, 100]) AS t(threshold)
+WHERE m."ath_multiple" >= t.threshold
+ON CONFLICT ("signal_id", "multiple_threshold", "basis") DO NOTHING;
+
+-- MC multiples as the alert job computes them: ATH price times entry supply against the entry market cap
+INSERT INTO "threshold_events" ("signal_id", "multiple_threshold", "basis", "hit_price", "hit_market_cap", "hit_at", "provider")
+SELECT m."signal_id", t.threshold, 'mc', m."ath_price", m."ath_price" * s."entry_supply", m."ath_at", 'seed'
+FROM "signal_metrics" m
+JOIN "signals" s ON s."id" = m."signal_id"
+CROSS JOIN unnest(ARRAY[2, 3, 4, 5, 10, 15, 20, 30, 50, 100]) AS t(threshold)
+WHERE s."entry_supply" > 0
+  AND COALESCE(s."entry_market_cap", s."entry_price" * s."entry_supply") > 0
+  AND m."ath_price" * s."entry_supply" / COALESCE(s."entry_market_cap", s."entry_price" * s."entry_supply") >= t.threshold
+ON CONFLICT ("signal_id", "multiple_threshold", "basis") DO NOTHING;
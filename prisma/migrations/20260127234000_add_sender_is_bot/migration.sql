@@ -0,0 +1,2 @@
+-- Telegram's from.is_bot for the sender, used by the ingest spam filter
+ALTER TABLE "raw_messages" ADD COLUMN "sender_is_bot" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- Price series are per (chain, mint): one EVM address can be a different token on each chain
+DROP INDEX IF EXISTS "price_samples_mint_sampled_at_idx";
+CREATE INDEX "price_samples_chain_mint_sampled_at_idx" ON "price_samples"("chain", "mint", "sampled_at");
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  EvaluationBaseline,
+  LabeledMessage,
+  evaluateClassifier,
+  findRegressions,
+  formatEvaluationReport,
+  toBaseline,
+} from '../src/ingest/evaluation';
+
+// Usage: npx ts-node scripts/evaluate_classifier.ts [corpus.json] [--baseline baseline.json] [--update-baseline]
+const DEFAULT_CORPUS = path.join(__dirname, '../tests/fixtures/classifier-corpus.json');
+const DEFAULT_BASELINE = path.join(__dirname, '../tests/fixtures/classifier-baseline.json');
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--update-baseline') flags['update-baseline'] = true;
+    else if (argv[i].startsWith('--')) flags[argv[i].slice(2)] = argv[++i];
+    else positional.push(argv[i]);
+  }
+  return { corpusPath: positional[0] || DEFAULT_CORPUS, flags };
+};
+
+const main = async () => {
+  const { corpusPath, flags } = parseArgs(process.argv.slice(2));
+  const baselinePath = typeof flags.baseline === 'string' ? flags.baseline : DEFAULT_BASELINE;
+
+  const corpus: LabeledMessage[] = JSON.parse(fs.readFileSync(corpusPath, 'utf8'));
+  const report = await evaluateClassifier(corpus);
+  console.log(`Corpus: ${corpusPath} (${corpus.length} messages)\n`);
+  console.log(formatEvaluationReport(report));
+
+  if (flags['update-baseline']) {
+    fs.writeFileSync(baselinePath, JSON.stringify(toBaseline(report), null, 2) + '\n');
+    console.log(`\nBaseline written to ${baselinePath}`);
+    return;
+  }
+
+  if (!fs.existsSync(baselinePath)) {
+    console.log(`\nNo baseline at ${baselinePath}; run with --update-baseline to create one.`);
+    return;
+  }
+  const baseline: EvaluationBaseline = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+  const regressions = findRegressions(report, baseline);
+  if (regressions.length > 0) {
+    console.error(`\n❌ Classifier regressed below baseline:\n  ${regressions.join('\n  ')}`);
+    process.exitCode = 1;
+  } else {
+    console.log('\n✅ At or above baseline');
+  }
+};
+
+main().catch((error) => {
+  console.error('Evaluation failed:', error);
+  process.exitCode = 1;
+});
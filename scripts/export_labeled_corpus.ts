@@ -0,0 +1,90 @@
+import fs from 'fs';
+import { prisma } from '../src/db';
+import { LabeledMessage } from '../src/ingest/evaluation';
+import { IMPLICIT_POSITIVE_AGE_MS } from '../src/ingest/textModelStore';
+
+// Usage: npx ts-node scripts/export_labeled_corpus.ts <out.json> [--chat-id -100123] [--limit 2000]
+// Exports RawMessages labeled via "Not a signal" feedback (or manually) as an evaluation corpus,
+// plus implicit positives: unlabeled messages older than a day whose signals nobody excluded.
+// --limit caps the labeled and the implicit-positive messages each.
+const parseArgs = (argv: string[]) => {
+  const [out, ...rest] = argv;
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    flags[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return { out, flags };
+};
+
+const main = async () => {
+  const { out, flags } = parseArgs(process.argv.slice(2));
+  if (!out) {
+    console.error('Usage: export_labeled_corpus.ts <out.json> [--chat-id <id>] [--limit <n>]');
+    process.exit(1);
+  }
+
+  const chatFilter = flags['chat-id'] ? { chatId: BigInt(flags['chat-id']) } : {};
+  const limit = flags.limit ? parseInt(flags.limit, 10) : 2000;
+  const labeled = await prisma.rawMessage.findMany({
+    where: { label: { in: ['signal', 'not_signal'] }, ...chatFilter },
+    include: { group: { include: { parsingRule: true } } },
+    orderBy: { labeledAt: 'desc' },
+    take: limit,
+  });
+
+  // Only "Not a signal" feedback writes labels, so positives are the detected messages still
+  // standing: at least one of their signals was not excluded
+  const detected = await prisma.rawMessage.findMany({
+    where: { label: null, isSignal: true, sentAt: { lt: new Date(Date.now() - IMPLICIT_POSITIVE_AGE_MS) }, ...chatFilter },
+    include: { group: { include: { parsingRule: true } } },
+    orderBy: { sentAt: 'desc' },
+    take: limit,
+  });
+  const kept = await prisma.signal.findMany({
+    where: {
+      excludedAt: null,
+      chatId: { in: [...new Set(detected.map((m) => m.chatId))] },
+      messageId: { in: [...new Set(detected.map((m) => m.messageId))] },
+    },
+    select: { chatId: true, messageId: true },
+  });
+  const keptKeys = new Set(kept.map((s) => `${s.chatId}:${s.messageId}`));
+  const implicitPositives = detected.filter((m) => keptKeys.has(`${m.chatId}:${m.messageId}`));
+
+  const messages = [
+    ...labeled.map((m) => ({ ...m, isSignal: m.label === 'signal' })),
+    ...implicitPositives.map((m) => ({ ...m, isSignal: true })),
+  ];
+  const corpus: LabeledMessage[] = messages.map((m) => {
+    const rule = m.group?.parsingRule;
+    return {
+      text: m.rawText,
+      isSignal: m.isSignal,
+      group: m.group?.name || m.chatId.toString(),
+      ...(rule
+        ? {
+            rules: {
+              templates: rule.templates,
+              requiredKeywords: rule.requiredKeywords,
+              ignorePatterns: rule.ignorePatterns,
+              minConfidence: rule.minConfidence,
+              adminsOnly: rule.adminsOnly,
+            },
+          }
+        : {}),
+    };
+  });
+
+  fs.writeFileSync(out, JSON.stringify(corpus, null, 2) + '\n');
+  const positives = corpus.filter((m) => m.isSignal).length;
+  console.log(
+    `Exported ${corpus.length} messages (${positives} signal, ${implicitPositives.length} of them implicit / ${corpus.length - positives} not_signal) to ${out}`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error('Export failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,39 @@
+import { prisma } from '../src/db';
+import { importTelegramExportFile } from '../src/ingest/historyImport';
+
+// Usage: npx ts-node scripts/import_telegram_export.ts <result.json> [--chat-id -100123] [--since 2025-01-01] [--until 2025-02-01] [--limit 500]
+const parseArgs = (argv: string[]) => {
+  const [file, ...rest] = argv;
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    flags[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return { file, flags };
+};
+
+const main = async () => {
+  const { file, flags } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: import_telegram_export.ts <result.json> [--chat-id <id>] [--since <date>] [--until <date>] [--limit <n>]');
+    process.exit(1);
+  }
+
+  const result = await importTelegramExportFile(file, {
+    chatId: flags['chat-id'] ? BigInt(flags['chat-id']) : undefined,
+    since: flags.since ? new Date(flags.since) : undefined,
+    until: flags.until ? new Date(flags.until) : undefined,
+    limit: flags.limit ? parseInt(flags.limit, 10) : undefined,
+  });
+
+  console.log(`Imported ${result.imported}/${result.total} messages into ${result.groupName} (${result.chatId})`);
+  console.log(`Skipped (already ingested): ${result.skippedExisting}`);
+  console.log(`Signals created: ${result.signals}`);
+  console.log(`Errors: ${result.errors}`);
+};
+
+main()
+  .catch((error) => {
+    console.error('Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
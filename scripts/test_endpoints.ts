@@ -2,7 +2,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import axios from 'axios';
-import { provider } from '../src/providers';
+import { provider, helius } from '../src/providers';
 import { geckoTerminal } from '../src/providers/geckoTerminal';
 import { getJupiterTokenInfo, getJupiterPrice, getMultipleTokenPrices } from '../src/providers/jupiter';
 import { BitqueryProvider } from '../src/providers/bitquery';
@@ -87,7 +87,7 @@ const main = async () => {
     }
 
     logStep('Helius Wallet Assets/History');
-    const heliusProvider = provider as any;
+    const heliusProvider = helius as any;
     if (typeof heliusProvider.getWalletAssets === 'function') {
       const assets = await heliusProvider.getWalletAssets(TEST_WALLET);
       logger.info(`Wallet assets (${TEST_WALLET}): ${assets.length} items`);
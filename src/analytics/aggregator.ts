@@ -445,6 +445,7 @@ export const getGroupStats = async (groupId: number, timeframe: TimeFrame, chain
   const now = Date.now();
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       groupId: { in: groupIds },
       ...buildEntryTimeFilter(since),
       ...(chain !== 'both' ? { chain } : {})
@@ -473,6 +474,7 @@ export const getUserStats = async (userId: number, timeframe: TimeFrame, chain:
   // OPTIMIZED: Include signals even if metrics missing (will use real-time calculation)
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       userId,
       ...buildEntryTimeFilter(since),
       ...(chain !== 'both' ? { chain } : {})
@@ -526,6 +528,7 @@ export const getLeaderboard = async (
   // 1. Fetch all signals in window (cache-only)
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       ...buildEntryTimeFilter(since),
       ...scopeFilter,
       ...(chain !== 'both' ? { chain } : {})
@@ -543,27 +546,59 @@ export const getLeaderboard = async (
 
   // Cache-only: no enrichment here
 
+  // Forwarded copies are credited to their origin, never to the forwarder
+  const originUserIds = [...new Set(
+    validSignals.filter(s => s.forwardDate && s.forwardFromUserId).map(s => s.forwardFromUserId!)
+  )];
+  const originUsers = type === 'USER' && originUserIds.length > 0
+    ? await prisma.user.findMany({ where: { userId: { in: originUserIds } } })
+    : [];
+  const originUserMap = new Map(originUsers.map(u => [u.userId.toString(), u]));
+
   for (const s of validSignals) {
     let key: string;
     let numericId: number;
     let name: string;
 
+    // Imported forwards carry only the origin's title, no date
+    const forwarded = !!(s.forwardDate || s.forwardFromChatTitle);
+
     if (type === 'GROUP') {
-        if (!s.group) continue;
-        key = s.group.chatId.toString(); // Use ChatID to merge duplicates
-        numericId = s.groupId!;
-        name = s.group.name || `Group ${s.group.chatId}`;
+        if (forwarded) {
+            // Merges into the origin's own entry when that channel is tracked; id 0 = untracked origin
+            if (!s.forwardFromChatId) continue;
+            key = s.forwardFromChatId.toString();
+            numericId = 0;
+            name = s.forwardFromChatTitle || `Channel ${s.forwardFromChatId}`;
+        } else {
+            if (!s.group) continue;
+            key = s.group.chatId.toString(); // Use ChatID to merge duplicates
+            numericId = s.groupId!;
+            name = s.group.name || `Group ${s.group.chatId}`;
+        }
     } else {
-        if (!s.userId) continue;
-        key = s.userId.toString();
-        numericId = s.userId!;
-        name = s.user?.username || s.user?.firstName || 'Unknown';
+        if (forwarded) {
+            const origin = s.forwardFromUserId ? originUserMap.get(s.forwardFromUserId.toString()) : undefined;
+            if (!origin) continue;
+            key = origin.id.toString();
+            numericId = origin.id;
+            name = origin.username || origin.firstName || 'Unknown';
+        } else {
+            if (!s.userId) continue;
+            key = s.userId.toString();
+            numericId = s.userId!;
+            name = s.user?.username || s.user?.firstName || 'Unknown';
+        }
     }
     
     if (!entityMap.has(key)) {
         entityMap.set(key, []);
         idMap.set(key, numericId);
         nameMap.set(key, name);
+    } else if (!idMap.get(key) && numericId) {
+        // Origin seen via a forward first; prefer the tracked entity's id/name
+        idMap.set(key, numericId);
+        nameMap.set(key, name);
     }
     entityMap.get(key)!.push(s);
   }
@@ -640,6 +675,7 @@ export const getSignalLeaderboard = async (
   // Include all signals in timeframe so ATH can be computed for ranking
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       ...buildEntryTimeFilter(since),
       ...scopeFilter,
       ...(chain !== 'both' ? { chain } : {}),
@@ -910,6 +946,7 @@ export const getDistributionStats = async (
   // Cache-only: include signals, but skip those missing metrics during computation
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       ...buildEntryTimeFilter(since),
       ...scopeFilter
     },
@@ -221,6 +221,7 @@ export const simulateCopyTrading = async (
 
     const signals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         ...(strategyType === 'user' ? { userId: targetId } : { groupId: targetId }),
         OR: [
           { entryPriceAt: { gte: cutoff } },
@@ -10,6 +10,7 @@ export const computeGroupMetrics = async (groupId: number, window: '7D' | '30D'
 
     const signals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         groupId,
         OR: [
           { entryPriceAt: { gte: cutoff } },
@@ -18,7 +19,7 @@ export const computeGroupMetrics = async (groupId: number, window: '7D' | '30D'
       },
       include: {
         metrics: true,
-        thresholdEvents: true,
+        thresholdEvents: { where: { basis: 'price' } },
       },
     });
 
@@ -63,10 +64,10 @@ export const computeGroupMetrics = async (groupId: number, window: '7D' | '30D'
       .sort((a: number, b: number) => a - b);
     const medianDd = dds.length > 0 ? dds[Math.floor(dds.length / 2)] : 0;
 
-    // Time to 2x
+    // Time to 2x (seeded events carry the ATH time, not when 2x was crossed)
     const timesTo2x = signals
       .map((s: any) => {
-        const event = s.thresholdEvents.find((e: any) => e.multipleThreshold === 2);
+        const event = s.thresholdEvents.find((e: any) => e.multipleThreshold === 2 && e.provider !== 'seed');
         const entryTime = getEntryTime(s);
         if (!event || !entryTime) return null;
         return (event.hitAt.getTime() - entryTime.getTime()) / 1000; // seconds
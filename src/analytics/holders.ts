@@ -1,8 +1,7 @@
 import { prisma } from '../db';
-import { solana, TokenHolderInfo } from '../providers/solana';
+import { TokenHolderInfo } from '../providers/types';
 import { logger } from '../utils/logger';
-import { provider } from '../providers';
-import { HeliusProvider } from '../providers/helius';
+import { provider, helius } from '../providers';
 
 export interface WhaleAlert {
   holderAddress: string;
@@ -14,8 +13,8 @@ export interface WhaleAlert {
 
 export const analyzeHolders = async (signalId: number, mint: string): Promise<WhaleAlert[]> => {
   try {
-    // 1. Fetch Top Holders from Solana RPC
-    const holders = await solana.getTopHolders(mint, 10);
+    // 1. Fetch Top Holders (holders provider order)
+    const holders = await provider.getTopHolders(mint, 10);
     if (holders.length === 0) return [];
 
     // 2. Store Holders in DB
@@ -137,17 +136,15 @@ export interface PortfolioSummary {
 export const getDeepHolderAnalysis = async (mint: string, mode: 'standard' | 'deep' = 'standard'): Promise<PortfolioSummary[]> => {
   try {
     // 1. Get Top Holders (Top 10)
-    const holders = await solana.getTopHolders(mint, 10); 
+    const holders = await provider.getTopHolders(mint, 10);
     if (holders.length === 0) return [];
 
     const summaries: PortfolioSummary[] = [];
-    // Ensure we use Helius provider (or instantiate one)
-    const heliusProvider = provider instanceof HeliusProvider ? provider : new HeliusProvider(process.env.HELIUS_API_KEY || '');
     const useBitquery = !!process.env.BIT_QUERY_API_KEY;
 
     for (const h of holders) {
       // A. Analyze Assets (Current Holdings)
-      const assets = await heliusProvider.getWalletAssets(h.address);
+      const assets = await helius.getWalletAssets(h.address);
       
       let solBalance = 0;
       const notable: any[] = [];
@@ -193,7 +190,7 @@ export const getDeepHolderAnalysis = async (mint: string, mode: 'standard' | 'de
       // We will stick to Helius Enriched Transactions as per plan.
       
       const txLimit = mode === 'deep' ? 1000 : 100;
-      const history = await heliusProvider.getWalletHistory(h.address, txLimit);
+      const history = await helius.getWalletHistory(h.address, txLimit);
       
       const tokenStats = new Map<string, { 
         symbol: string, 
@@ -1,6 +1,8 @@
 import { prisma } from '../db';
 import { logger } from '../utils/logger';
 import { geckoTerminal } from '../providers/geckoTerminal';
+import { isConfirmedSample } from './priceSanity';
+import { getMintSamples } from '../db/samples';
 import { Signal, SignalMetric, PriceSample } from '../generated/client';
 
 export type SignalWithRelations = Signal & {
@@ -130,7 +132,7 @@ export const enrichSignalMetrics = async (
         if (!force && sig.metrics?.updatedAt && !metricsUncomputed) {
             const latestSample = await prisma.priceSample.findFirst({
                 where: {
-                    signalId: sig.id,
+                    mint: sig.mint,
                     sampledAt: { gt: sig.metrics.updatedAt }
                 },
                 orderBy: { sampledAt: 'desc' }
@@ -237,9 +239,12 @@ export const enrichSignalMetrics = async (
             ? incrementalCandles
             : ohlcv.filter(c => c.timestamp >= entryTimestamp - 300000);
 
-        if (validCandles.length === 0 && sig.priceSamples?.length > 0) {
-            validCandles = sig.priceSamples
-                .filter(p => p.sampledAt.getTime() >= entryTimestamp - 300000)
+        if (validCandles.length === 0) {
+            // The chain's shared mint series from this signal's entry on; earlier samples (other calls of
+            // the mint) must not count towards its ATH
+            const samples = await getMintSamples(sig.mint, new Date(entryTimestamp), sig.chain);
+            validCandles = samples
+                .filter(p => isConfirmedSample(p))
                 .map(p => ({
                     timestamp: p.sampledAt.getTime(),
                     open: p.price,
@@ -0,0 +1,136 @@
+import { logger } from '../utils/logger';
+import { BatchResult, PriceQuote } from '../providers/types';
+
+export type QuarantineReason = 'INVALID_PRICE' | 'UNCONFIRMED_SPIKE' | 'PROVIDER_DISAGREEMENT';
+
+export interface PriceSanityOptions {
+  maxJump: number; // Largest move (either direction) vs recent samples accepted without confirmation
+  agreeTolerance: number; // Relative difference at which two prices count as agreeing
+  confirmations: number; // Quarantined readings at the same level that turn a spike into a real move
+  minConfidence: number; // Samples below this are stored but ignored by ATH and alert logic
+  windowMs: number; // How far back recent samples and quarantined readings are considered
+  referenceSamples: number; // Latest accepted samples the reference median is taken over
+}
+
+export const PRICE_SANITY: PriceSanityOptions = {
+  maxJump: Number(process.env.PRICE_SANITY_MAX_JUMP ?? 5),
+  agreeTolerance: Number(process.env.PRICE_SANITY_AGREE_TOLERANCE ?? 0.1),
+  confirmations: Number(process.env.PRICE_SANITY_CONFIRMATIONS ?? 2),
+  minConfidence: Number(process.env.PRICE_SANITY_MIN_CONFIDENCE ?? 0.5),
+  windowMs: Number(process.env.PRICE_SANITY_WINDOW_MS ?? 60 * 60 * 1000),
+  referenceSamples: 3,
+};
+
+export interface RecentPrice {
+  price: number;
+  sampledAt: Date;
+  quarantined?: boolean;
+}
+
+export interface PriceCheck {
+  accepted: boolean;
+  confidence: number; // 0-1 agreement score, stored as PriceSample.confidence
+  reason?: QuarantineReason;
+  referencePrice?: number; // Median of the latest accepted samples
+  secondaryPrice?: number;
+  secondaryProvider?: string;
+  deviation?: number; // Relative deviation behind the decision
+}
+
+// |a - b| relative to the larger price: 0 = identical, approaching 1 = orders of magnitude apart
+const relativeDiff = (a: number, b: number) => Math.abs(a - b) / Math.max(a, b);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Decide whether a quote is stored as a sample. A second provider that agrees confirms any
+ * move; otherwise a jump beyond maxJump from the recent reference is quarantined unless
+ * earlier quarantined readings already sit at the same level (a real, sustained move).
+ * The confidence is the agreement with the second provider, else with recent samples.
+ */
+export const checkPrice = (
+  quote: PriceQuote,
+  recent: RecentPrice[],
+  second?: PriceQuote | null,
+  options: PriceSanityOptions = PRICE_SANITY
+): PriceCheck => {
+  if (!Number.isFinite(quote.price) || quote.price <= 0) {
+    return { accepted: false, confidence: 0, reason: 'INVALID_PRICE' };
+  }
+
+  const latest = [...recent].sort((a, b) => b.sampledAt.getTime() - a.sampledAt.getTime());
+  const accepted = latest.filter(r => !r.quarantined).slice(0, options.referenceSamples);
+  const referencePrice = accepted.length > 0 ? median(accepted.map(r => r.price)) : undefined;
+  const secondaryPrice = second && Number.isFinite(second.price) && second.price > 0 ? second.price : undefined;
+  const base: PriceCheck = {
+    accepted: true,
+    confidence: quote.confidence ?? 0.5,
+    referencePrice,
+    secondaryPrice,
+    secondaryProvider: secondaryPrice !== undefined ? second!.provider || second!.source : undefined,
+  };
+
+  const providerDeviation = secondaryPrice !== undefined ? relativeDiff(quote.price, secondaryPrice) : undefined;
+  if (providerDeviation !== undefined && providerDeviation <= options.agreeTolerance) {
+    return { ...base, confidence: 1 - providerDeviation, deviation: providerDeviation };
+  }
+
+  if (referencePrice === undefined) {
+    // Nothing to compare against yet: only a disagreeing second provider lowers the quote's own confidence
+    return providerDeviation === undefined ? base : { ...base, confidence: 1 - providerDeviation, deviation: providerDeviation };
+  }
+
+  const jump = Math.max(quote.price / referencePrice, referencePrice / quote.price);
+  const confirming = latest.filter(r => r.quarantined && relativeDiff(r.price, quote.price) <= options.agreeTolerance);
+  if (jump > options.maxJump && confirming.length < options.confirmations) {
+    return {
+      ...base,
+      accepted: false,
+      confidence: 0,
+      reason: providerDeviation !== undefined ? 'PROVIDER_DISAGREEMENT' : 'UNCONFIRMED_SPIKE',
+      deviation: providerDeviation ?? relativeDiff(quote.price, referencePrice),
+    };
+  }
+
+  if (providerDeviation !== undefined) {
+    return { ...base, confidence: 1 - providerDeviation, deviation: providerDeviation };
+  }
+  if (jump > options.maxJump) {
+    // Sustained move confirmed by its own quarantined readings
+    const spread = Math.max(...confirming.map(r => relativeDiff(r.price, quote.price)));
+    return { ...base, confidence: 1 - spread, deviation: relativeDiff(quote.price, referencePrice) };
+  }
+  // 1.0 at the reference, falling to 0 at maxJump (2x of a 5x limit = 0.57)
+  const confidence = Math.max(0, 1 - Math.log(jump) / Math.log(options.maxJump));
+  return { ...base, confidence, deviation: relativeDiff(quote.price, referencePrice) };
+};
+
+/** Whether a stored sample may drive ATH and threshold logic; legacy rows without a score count. */
+export const isConfirmedSample = (sample: { confidence: number | null }, options: PriceSanityOptions = PRICE_SANITY) =>
+  sample.confidence === null || sample.confidence >= options.minConfidence;
+
+/**
+ * Check quotes for many mints against their recent samples and an independent second provider.
+ * Mints without a quote are left out.
+ */
+export const checkQuotes = async (quotes: BatchResult<PriceQuote>): Promise<Record<string, PriceCheck>> => {
+  const { provider } = await import('../providers');
+  const { getRecentPrices } = await import('../db/samples');
+  const mints = Object.keys(quotes).filter(mint => quotes[mint]);
+  if (mints.length === 0) return {};
+
+  const [secondQuotes, recent] = await Promise.all([
+    provider.getSecondQuotes(quotes).catch(error => {
+      logger.warn('[PriceSanity] Second provider lookup failed, checking against history only:', error);
+      return {} as BatchResult<PriceQuote>;
+    }),
+    getRecentPrices(mints, new Date(Date.now() - PRICE_SANITY.windowMs), PRICE_SANITY.minConfidence),
+  ]);
+  return Object.fromEntries(
+    mints.map(mint => [mint, checkPrice(quotes[mint]!, recent[mint] || [], secondQuotes[mint])])
+  );
+};
@@ -1,6 +1,7 @@
 import { provider } from '../providers';
-import { solana } from '../providers/solana';
+import { getTokenMeta } from '../db/tokens';
 import { bitquery } from '../providers/bitquery';
+import { pumpFun } from '../providers/pumpFun';
 import { logger } from '../utils/logger';
 import { calculateRiskScore, getRiskLevel } from './riskScoring';
 
@@ -51,8 +52,8 @@ export interface TokenAnalysis {
 
 export const getBasicTokenAnalysis = async (mint: string): Promise<TokenAnalysis['basic']> => {
   try {
-    const meta = await provider.getTokenMeta(mint);
-    const topHolders = await solana.getTopHolders(mint, 10);
+    const meta = await getTokenMeta(mint);
+    const topHolders = await provider.getTopHolders(mint, 10);
     const top10Concentration = topHolders.reduce((sum, h) => sum + (h.percentage || 0), 0);
 
     const devHoldingsPercent = meta.audit?.devBalancePercentage ?? 0;
@@ -104,9 +105,14 @@ export const getBasicTokenAnalysis = async (mint: string): Promise<TokenAnalysis
 export const getDeepTokenAnalysis = async (_mint: string): Promise<TokenAnalysis['deep'] | null> => {
   try {
     const mint = _mint;
-    const meta = await provider.getTokenMeta(mint);
-    const topHolders = await solana.getTopHolders(mint, 10);
+    const meta = await getTokenMeta(mint);
+    const topHolders = await provider.getTopHolders(mint, 10);
     const firstBuyers = await bitquery.getFirst100Buyers(mint);
+    // null for tokens that never had a pump.fun curve
+    const curve = await pumpFun.getBondingCurve(mint).catch(err => {
+      logger.debug(`Bonding curve lookup failed for ${mint}: ${err}`);
+      return null;
+    });
 
     const top10Holders = topHolders.map(h => ({
       wallet: h.address,
@@ -130,9 +136,10 @@ export const getDeepTokenAnalysis = async (_mint: string): Promise<TokenAnalysis
       top10Holders,
       phishyAddresses: [],
       transferStats,
-      liquiditySol: meta.liquidity ?? 0,
-      bondingProgress: 0,
-      isGraduated: !!meta.graduatedAt || !!meta.graduatedPool,
+      // SOL deposited in the curve while the token is still bonding
+      liquiditySol: curve && !curve.isGraduated ? curve.liquiditySol : meta.liquidity ?? 0,
+      bondingProgress: curve?.bondingProgress ?? (meta.graduatedAt || meta.graduatedPool ? 100 : 0),
+      isGraduated: !!curve?.isGraduated || !!meta.graduatedAt || !!meta.graduatedPool,
       poolCreatedAt,
       tokenCreatedAt,
       poolBeforeLaunch
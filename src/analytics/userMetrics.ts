@@ -10,6 +10,7 @@ export const computeUserMetrics = async (userId: number, window: '7D' | '30D' |
 
     const signals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         userId,
         OR: [
           { entryPriceAt: { gte: cutoff } },
@@ -18,7 +19,7 @@ export const computeUserMetrics = async (userId: number, window: '7D' | '30D' |
       },
       include: {
         metrics: true,
-        thresholdEvents: true,
+        thresholdEvents: { where: { basis: 'price' } },
       },
     });
 
@@ -64,10 +65,10 @@ export const computeUserMetrics = async (userId: number, window: '7D' | '30D' |
       .sort((a: number, b: number) => a - b);
     const medianDd = dds.length > 0 ? dds[Math.floor(dds.length / 2)] : 0;
 
-    // Time to 2x
+    // Time to 2x; events seeded from the stored ATH have no real hit time
     const timesTo2x = signals
       .map((s: any) => {
-        const event = s.thresholdEvents.find((e: any) => e.multipleThreshold === 2);
+        const event = s.thresholdEvents.find((e: any) => e.multipleThreshold === 2 && e.provider !== 'seed');
         const entryTime = getEntryTime(s);
         if (!event || !entryTime) return null;
         return (event.hitAt.getTime() - entryTime.getTime()) / 1000; // seconds
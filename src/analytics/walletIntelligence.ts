@@ -14,7 +14,7 @@ export interface WalletSignalPerformance {
 
 export const getWalletCrossSignalPerformance = async (): Promise<WalletSignalPerformance[]> => {
   const winningSignals = await prisma.signal.findMany({
-    where: { metrics: { athMultiple: { gte: 2 } } },
+    where: { excludedAt: null, metrics: { athMultiple: { gte: 2 } } },
     include: { metrics: true }
   });
 
@@ -5,26 +5,23 @@ import { logger } from '../utils/logger';
 import { checkPriceAlerts } from '../jobs/priceAlerts';
 import { generateFirstSignalCard } from './signalCard';
 import { provider } from '../providers';
+import { rateLimiter } from '../providers/rateLimiter';
 import { TokenMeta } from '../providers/types';
+import { getTokenMeta } from '../db/tokens';
 import { handleAnalyticsCommand, handleEarliestCallers, handleCrossGroupConfirms, handleGroupStatsCommand, handleUserStatsCommand, handleStrategyCommand } from './commands/analytics';
 import { handleLiveSignals } from './commands/analytics/liveSignals';
 import { handleDistributions } from './commands/analytics/distributions';
 import { handleRecentCalls } from './commands/analytics/recentCalls';
 import { handleGroupLeaderboardCommand, handleUserLeaderboardCommand, handleSignalLeaderboardCommand } from './commands/analytics/leaderboards';
 import { getHistoricalMetricsBackfillProgress, updateHistoricalMetrics } from '../jobs/historicalMetrics';
-import { getBackfillProgress, startAthBackfill, stopAthBackfill, resetBackfillState, BackfillProgress } from '../jobs/athBackfill';
+import { getBackfillProgress, stopAthBackfill } from '../jobs/athBackfill';
 import { getDeepHolderAnalysis } from '../analytics/holders';
 import { UIHelper } from '../utils/ui';
 
-const buildBackfillStatusView = () => {
-  // Import fast backfill progress dynamically
-  let fastProgress: any = { status: 'idle' };
-  try {
-    const { getFastBackfillProgress } = require('../jobs/athBackfillFast');
-    fastProgress = getFastBackfillProgress();
-  } catch {}
-  
-  const athProgress = getBackfillProgress();
+const buildBackfillStatusView = async () => {
+  const { getFastBackfillProgress } = await import('../jobs/athBackfillFast');
+  const fastProgress = await getFastBackfillProgress();
+  const athProgress = await getBackfillProgress();
   const legacyProgress = getHistoricalMetricsBackfillProgress();
   
   // Determine which backfill is active (prefer fast, then ATH, then legacy)
@@ -155,6 +152,21 @@ const buildBackfillStatusView = () => {
     message += `_Click "Start Fast Backfill" to begin._\n`;
   }
   
+  // Remaining API budget as last reported by the worker running the backfill, else this process's
+  // rate limiter (providers appear after their first call)
+  const budget = fastProgress.budget || rateLimiter.getBudget();
+  if (budget.length > 0) {
+    message += `\n📉 *API Budget:*\n`;
+    for (const b of budget) {
+      let line = `   ${b.provider}${b.keyId !== 'public' ? ` ${b.keyId}` : ''}: ${b.available}/${b.perMinute} per min`;
+      if (b.daily) line += ` · ${Math.max(0, b.daily - b.usedToday)}/${b.daily} left today`;
+      if (b.monthly) line += ` · ${Math.max(0, b.monthly - b.usedThisMonth)}/${b.monthly} left this month`;
+      if (b.pausedForMs > 0) line += ` · ⏸️ ${Math.ceil(b.pausedForMs / 1000)}s`;
+      if (b.queued > 0) line += ` · ${b.queued} queued`;
+      message += `${line}\n`;
+    }
+  }
+
   // Build keyboard
   const isRunning = fastProgress.status === 'running' || athProgress.status === 'running';
   
@@ -173,8 +185,19 @@ const buildBackfillStatusView = () => {
       { text: '🧠 Start Backfill', callback_data: 'analytics_backfill' },
       { text: '🔄 Quick Refresh', callback_data: 'analytics_refresh' }
     ]);
+    // Stopped and failed runs both continue from their pending mints
+    const resumable = (status: string) => status === 'paused' || status === 'error';
+    if (resumable(fastProgress.status) || resumable(athProgress.status)) {
+      keyboard.inline_keyboard.push([
+        { text: '▶️ Resume Backfill', callback_data: 'analytics_backfill_resume' }
+      ]);
+    }
   }
   
+  keyboard.inline_keyboard.push([
+    { text: '📜 Run History', callback_data: 'analytics_backfill_history' }
+  ]);
+  
   keyboard.inline_keyboard.push([
     { text: '🔙 Back', callback_data: 'analytics' },
     { text: '❌ Close', callback_data: 'delete_msg' }
@@ -313,7 +336,7 @@ ATH: ${ath.toFixed(2)}x
         await ctx.answerCbQuery('Refreshing data...');
 
         // 1. Fetch fresh data
-        const meta = await provider.getTokenMeta(signal.mint);
+        const meta = await getTokenMeta(signal.mint, signal.chain);
         const quote = await provider.getQuote(signal.mint);
         const supply = meta?.supply ?? signal.entrySupply ?? undefined;
         
@@ -693,7 +716,7 @@ ATH: ${ath.toFixed(2)}x
       });
 
       const recentSignals = await prisma.signal.findMany({
-          where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null } },
+          where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null }, excludedAt: null },
           select: { userId: true },
           orderBy: { detectedAt: 'desc' },
           take: 50
@@ -753,6 +776,23 @@ ATH: ${ath.toFixed(2)}x
       await ctx.answerCbQuery();
   });
 
+  bot.action(/^not_signal:(\d+)$/, async (ctx) => {
+      const { handleNotSignal } = await import('./signalFeedback');
+      await handleNotSignal(ctx as any, parseInt(ctx.match[1], 10));
+  });
+
+  bot.action('reprocess_apply', async (ctx) => {
+      await ctx.answerCbQuery('Applying...');
+      const { handleReprocessApply } = await import('./commands/reprocess');
+      await handleReprocessApply(ctx as any);
+  });
+
+  bot.action('reprocess_cancel', async (ctx) => {
+      if (ctx.session) ctx.session.reprocessPlan = undefined;
+      await ctx.answerCbQuery('Cancelled');
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+  });
+
   bot.action('groups_menu', async (ctx) => {
       // Implement groups list similar to /groups command
       const { handleGroupsCommand } = await import('./commands/groups');
@@ -811,6 +851,46 @@ ATH: ${ath.toFixed(2)}x
       );
   });
   
+  bot.action('group_rules_menu', async (ctx) => {
+      await ctx.answerCbQuery();
+      const { handleGroupRulesMenu } = await import('./commands/groupRules');
+      await handleGroupRulesMenu(ctx as any);
+  });
+
+  bot.action(/^group_rules:(\d+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const { handleGroupRulesView } = await import('./commands/groupRules');
+      await handleGroupRulesView(ctx as any, parseInt(ctx.match[1], 10));
+  });
+
+  bot.action(/^group_rules_input:(template|keyword|ignore|min_conf):(\d+)$/, async (ctx) => {
+      await ctx.answerCbQuery();
+      const { handleGroupRulesPrompt } = await import('./commands/groupRules');
+      await handleGroupRulesPrompt(ctx as any, ctx.match[1], parseInt(ctx.match[2], 10));
+  });
+
+  bot.action(/^group_rules_admins:(\d+)$/, async (ctx) => {
+      try {
+          const { handleGroupRulesToggleAdmins } = await import('./commands/groupRules');
+          await handleGroupRulesToggleAdmins(ctx as any, parseInt(ctx.match[1], 10));
+          await ctx.answerCbQuery().catch(() => {});
+      } catch (error) {
+          logger.error('Group rules admins toggle error:', error);
+          ctx.answerCbQuery('Error updating rules');
+      }
+  });
+
+  bot.action(/^group_rules_clear:(\d+)$/, async (ctx) => {
+      try {
+          const { handleGroupRulesClear } = await import('./commands/groupRules');
+          await handleGroupRulesClear(ctx as any, parseInt(ctx.match[1], 10));
+          await ctx.answerCbQuery('Rules reset').catch(() => {});
+      } catch (error) {
+          logger.error('Group rules reset error:', error);
+          ctx.answerCbQuery('Error resetting rules');
+      }
+  });
+
   bot.action('group_settings', async (ctx) => {
      await ctx.answerCbQuery('Use /groups to see settings for each group.');
   });
@@ -1372,7 +1452,7 @@ ATH: ${ath.toFixed(2)}x
       // Find users with most signals in workspace groups
       // This is a bit complex query, maybe just fetch recent signal users?
       const recentSignals = await prisma.signal.findMany({
-          where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null } },
+          where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null }, excludedAt: null },
           select: { userId: true },
           orderBy: { detectedAt: 'desc' },
           take: 50
@@ -1494,14 +1574,14 @@ ATH: ${ath.toFixed(2)}x
       try {
           // Import fast backfill
           const { athBackfillFastService } = await import('../jobs/athBackfillFast');
-          const fastProgress = athBackfillFastService.getProgress();
-          const athProgress = getBackfillProgress();
+          const fastProgress = await athBackfillFastService.getProgress();
+          const athProgress = await getBackfillProgress();
           const legacyProgress = getHistoricalMetricsBackfillProgress();
           
           // Check if any backfill is running
           if (athProgress.status === 'running' || legacyProgress.status === 'running' || fastProgress.status === 'running') {
               await ctx.answerCbQuery('Backfill already running.');
-              const view = buildBackfillStatusView();
+              const view = await buildBackfillStatusView();
               if (ctx.callbackQuery && ctx.callbackQuery.message) {
                   await ctx.editMessageText(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
               } else {
@@ -1524,17 +1604,15 @@ ATH: ${ath.toFixed(2)}x
           
           await ctx.reply(startMsg, { parse_mode: 'Markdown' });
           
-          // Start the FAST ATH backfill in background
-          athBackfillFastService.start({
+          // Plan the FAST ATH backfill run; a worker picks it up from the queue
+          await athBackfillFastService.start({
             concurrency: 10, // High parallelism
             forceRefresh: true
-          }).catch(err => {
-            logger.error('Fast ATH backfill failed:', err);
           });
           
           // Show progress view after short delay
           await new Promise(r => setTimeout(r, 2000));
-          const view = buildBackfillStatusView();
+          const view = await buildBackfillStatusView();
           await ctx.reply(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
           
       } catch (error) {
@@ -1546,13 +1624,12 @@ ATH: ${ath.toFixed(2)}x
   bot.action('analytics_backfill_stop', async (ctx) => {
       try {
           // Stop both old and new backfill
-          stopAthBackfill();
           const { athBackfillFastService } = await import('../jobs/athBackfillFast');
-          athBackfillFastService.stop();
+          await Promise.all([stopAthBackfill(), athBackfillFastService.stop()]);
           await ctx.answerCbQuery('Stopping backfill...');
           
           await new Promise(r => setTimeout(r, 1000));
-          const view = buildBackfillStatusView();
+          const view = await buildBackfillStatusView();
           
           if (ctx.callbackQuery && ctx.callbackQuery.message) {
               await ctx.editMessageText(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
@@ -1565,8 +1642,76 @@ ATH: ${ath.toFixed(2)}x
       }
   });
 
+  bot.action('analytics_backfill_resume', async (ctx) => {
+      try {
+          const { getLatestBackfillRun, resumeBackfillRun } = await import('../db/backfillRuns');
+          const { enqueueBackfillRun } = await import('../jobs');
+          const run = await getLatestBackfillRun();
+          if (!run || !(await resumeBackfillRun(run.id))) {
+              await ctx.answerCbQuery('No stopped or failed backfill to resume.');
+              return;
+          }
+          
+          await enqueueBackfillRun(run.id);
+          await ctx.answerCbQuery(`Resuming backfill #${run.id}...`);
+          
+          const view = await buildBackfillStatusView();
+          if (ctx.callbackQuery && ctx.callbackQuery.message) {
+              await ctx.editMessageText(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
+          } else {
+              await ctx.reply(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
+          }
+      } catch (error) {
+          logger.error('Backfill resume error:', error);
+          ctx.answerCbQuery('Error resuming backfill');
+      }
+  });
+
+  bot.action('analytics_backfill_history', async (ctx) => {
+      try {
+          const { listBackfillRuns } = await import('../db/backfillRuns');
+          const runs = await listBackfillRuns(10);
+          
+          let message = UIHelper.header('BACKFILL HISTORY', '📜');
+          if (runs.length === 0) {
+              message += `_No backfill runs yet._\n`;
+          }
+          for (const run of runs) {
+              const statusEmoji = run.status === 'running' ? '🔄'
+                : run.status === 'complete' ? '✅'
+                : run.status === 'error' ? '❌'
+                : '⏸️';
+              const kind = run.kind === 'ath_fast' ? 'Fast' : 'Full';
+              const durationMin = ((run.endedAt || new Date()).getTime() - run.startedAt.getTime()) / 60000;
+              message += `\n${statusEmoji} *#${run.id} ${kind}* · ${run.status}\n`;
+              message += `   ${run.processedMints}/${run.totalMints} mints · ${run.athUpdated} ATH · ${run.errors} errors\n`;
+              message += `   ${run.startedAt.toISOString().slice(0, 16).replace('T', ' ')} · ${UIHelper.formatDurationMinutes(durationMin)}`;
+              if (run.resumedCount > 0) message += ` · resumed ${run.resumedCount}x`;
+              message += `\n`;
+              if (run.lastError && run.status !== 'complete') {
+                  message += `   ⚠️ \`${run.lastError.slice(0, 60)}\`\n`;
+              }
+          }
+          
+          const keyboard = {
+              inline_keyboard: [
+                  [{ text: '🔙 Back', callback_data: 'analytics_backfill_status' }]
+              ]
+          };
+          if (ctx.callbackQuery && ctx.callbackQuery.message) {
+              await ctx.editMessageText(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+          } else {
+              await ctx.reply(message, { parse_mode: 'Markdown', reply_markup: keyboard });
+          }
+          await ctx.answerCbQuery();
+      } catch (error) {
+          logger.error('Backfill history error:', error);
+          ctx.answerCbQuery('Error loading backfill history');
+      }
+  });
+
   bot.action('analytics_backfill_status', async (ctx) => {
-      const view = buildBackfillStatusView();
+      const view = await buildBackfillStatusView();
       if (ctx.callbackQuery && ctx.callbackQuery.message) {
           await ctx.editMessageText(view.message, { parse_mode: 'Markdown', reply_markup: view.keyboard });
       } else {
@@ -2,7 +2,7 @@ import { Context } from 'telegraf';
 import { prisma } from '../../../db';
 import { logger } from '../../../utils/logger';
 import { UIHelper } from '../../../utils/ui';
-import { getBackfillProgress } from '../../../jobs/athBackfill';
+import { getLatestBackfillRun } from '../../../db/backfillRuns';
 
 export const handleDistributions = async (ctx: Context, view: string = 'mcap') => {
   try {
@@ -75,7 +75,8 @@ export const handleDistributions = async (ctx: Context, view: string = 'mcap') =
       message = UIHelper.header(`DISTRIBUTIONS (${timeframe})`, '📈');
       
       // Check backfill status and show appropriate message
-      const backfillProgress = getBackfillProgress();
+      const backfillRun = await getLatestBackfillRun();
+      const backfillProgress = backfillRun || { status: 'idle', totalMints: 0, processedMints: 0 };
       if (backfillProgress.status === 'running') {
         const pct = backfillProgress.totalMints > 0 
           ? Math.round((backfillProgress.processedMints / backfillProgress.totalMints) * 100) 
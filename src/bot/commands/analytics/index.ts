@@ -12,10 +12,10 @@ export const handleAnalyticsCommand = async (ctx: Context) => {
     let title = UIHelper.header('Analytics Dashboard');
     
     // Add backfill status indicator if running
-    const { getBackfillProgress } = await import('../../../jobs/athBackfill');
-    const backfillProgress = getBackfillProgress();
+    const { getLatestBackfillRun } = await import('../../../db/backfillRuns');
+    const backfillProgress = await getLatestBackfillRun();
     
-    if (backfillProgress.status === 'running') {
+    if (backfillProgress?.status === 'running') {
       const mintPct = backfillProgress.totalMints > 0 
         ? Math.round((backfillProgress.processedMints / backfillProgress.totalMints) * 100) 
         : 0;
@@ -237,6 +237,7 @@ export const handleEarliestCallers = async (ctx: Context) => {
 
     const signals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         detectedAt: { gte: since },
         chatId: { in: ownedChatIds },
         metrics: { athMultiple: { gte: 2.0 } }
@@ -365,6 +366,7 @@ export const handleCrossGroupConfirms = async (ctx: Context, view: string = 'lag
     const since = subDays(new Date(), 7);
     const signals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         detectedAt: { gte: since },
         OR: [
           { chatId: { in: ownedChatIds } },
@@ -414,6 +416,7 @@ export const handleCrossGroupConfirms = async (ctx: Context, view: string = 'lag
 
     const signalsWithMetrics = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         groupId: { in: groupIds },
         detectedAt: { gte: sevenDaysAgo },
         metrics: { isNot: null }
@@ -622,6 +625,7 @@ export const handleStrategyCommand = async (ctx: Context, type: 'GROUP' | 'USER'
       const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
       const signals = await prisma.signal.findMany({
         where: {
+          excludedAt: null,
           ...(type === 'GROUP' ? { groupId: entityId } : { userId: entityId }),
           OR: [
             { entryPriceAt: { gte: since } },
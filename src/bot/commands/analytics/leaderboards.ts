@@ -29,7 +29,7 @@ export const handleGroupLeaderboardCommand = async (ctx: Context, window: TimeWi
       const rank = i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i+1}.`;
       message += `${rank} *${s.name}*\n`;
       message += `   💎 ${s.avgMultiple.toFixed(2)}x Avg | 🎯 ${(s.winRate*100).toFixed(0)}% WR | Score: ${s.score.toFixed(0)}\n\n`;
-      if (i < 5) {
+      if (i < 5 && s.id) { // Untracked forward origins (id 0) have no stats view
         entityButtons.push([{ text: `${rank} ${s.name} Stats`, callback_data: `group_stats_view:${s.id}` }]);
       }
     });
@@ -1,6 +1,7 @@
 import { subDays } from 'date-fns';
 import { prisma } from '../../../db';
 import { provider } from '../../../providers';
+import { getTokenMetadata } from '../../../db/tokens';
 import { logger } from '../../../utils/logger';
 import { UIHelper } from '../../../utils/ui';
 import { BotContext } from '../../../types/bot';
@@ -65,6 +66,7 @@ const buildCache = async (
 
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       ...timeFilter,
       trackingStatus: { in: ['ACTIVE', 'ENTRY_PENDING'] },
       ...(chain !== 'both' ? { chain } : {}),
@@ -111,28 +113,17 @@ const buildCache = async (
 
   // STEP 1: Get all unique mints (now already unique, but keep for clarity)
   const allMints = [...new Set(uniqueSignals.map(s => s.mint))];
-  const { getMultipleTokenPrices, getJupiterTokenInfo } = await import('../../../providers/jupiter');
+  logger.info(`[LiveSignals] Fetching prices for ${allMints.length} unique mints (batch)`);
   
-  logger.info(`[LiveSignals] Fetching prices for ${allMints.length} unique mints using price/v3 (batch)`);
-  
-  // STEP 2: Fetch prices using price/v3 (FASTEST - batch with comma-separated IDs)
-  const priceMap = await getMultipleTokenPrices(allMints);
-
-  // Fallback for missing prices: Jupiter search endpoint (per-mint)
-  const missingMints = allMints.filter(m => !priceMap[m] || priceMap[m]! <= 0);
-  for (const mint of missingMints) {
-    try {
-      const info = await getJupiterTokenInfo(mint);
-      if (info?.usdPrice && info.usdPrice > 0) {
-        priceMap[mint] = info.usdPrice;
-      }
-    } catch {
-      // ignore
-    }
+  // STEP 2: Batch quotes; mints the first source misses fall through to the next one
+  const quotes = await provider.getQuotes(allMints);
+  const priceMap: Record<string, number | null> = {};
+  for (const mint of allMints) {
+    priceMap[mint] = quotes[mint]?.price ?? null;
   }
   
   const pricesFound = Object.values(priceMap).filter(p => p !== null && p > 0).length;
-  logger.info(`[LiveSignals] Jupiter price/v3 returned ${pricesFound}/${allMints.length} prices`);
+  logger.info(`[LiveSignals] Providers returned ${pricesFound}/${allMints.length} prices`);
   
   // Log sample of what we got
   const sampleMints = allMints.slice(0, 5);
@@ -365,9 +356,8 @@ export const handleLiveSignals = async (ctx: BotContext, forceRefresh = false) =
     // Check if backfill is complete
     let backfillComplete = false;
     try {
-      const { getFastBackfillProgress } = await import('../../../jobs/athBackfillFast');
-      const progress = getFastBackfillProgress();
-      backfillComplete = progress.status === 'complete';
+      const { hasCompletedBackfill } = await import('../../../db/backfillRuns');
+      backfillComplete = await hasCompletedBackfill();
     } catch {
       // If can't check, assume not complete
     }
@@ -558,24 +548,23 @@ export const handleLiveSignals = async (ctx: BotContext, forceRefresh = false) =
     // CRITICAL: All ATH calculations are now complete - fetch metadata and build message
     logger.info(`[LiveSignals] All ATH calculations complete. Fetching token metadata and building display...`);
 
-    // Fetch token info for display (symbol, audit, socials)
-    const { getMultipleTokenInfo } = await import('../../../providers/jupiter');
-    const topMints = topItems.map(item => item.mint);
-    const topTokenInfoMap = await getMultipleTokenInfo(topMints);
+    // Fetch token info for display (symbol, audit, socials), one lookup per chain
+    const chainOf = (item: CachedSignal): string => signalMap.get(item.signalId)?.chain || 'solana';
+    const topTokenMetas: Record<string, any> = {};
+    for (const itemChain of [...new Set(topItems.map(chainOf))]) {
+      const chainMints = topItems.filter(item => chainOf(item) === itemChain).map(item => item.mint);
+      Object.assign(topTokenMetas, await getTokenMetadata(chainMints, { chain: itemChain }));
+    }
     
     const metaMap = new Map<string, any>();
     topItems.forEach(item => {
-      const info = topTokenInfoMap[item.mint];
+      const info = topTokenMetas[item.mint];
       if (info) {
         metaMap.set(item.mint, {
           symbol: info.symbol,
           name: info.name,
           audit: info.audit,
-          socialLinks: {
-            twitter: info.twitter,
-            telegram: info.telegram,
-            website: info.website
-          },
+          socialLinks: info.socialLinks || {},
           tags: info.tags || []
         });
       }
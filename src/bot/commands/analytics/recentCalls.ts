@@ -1,7 +1,7 @@
 import { Context } from 'telegraf';
 import { subDays } from 'date-fns';
 import { prisma } from '../../../db';
-import { provider } from '../../../providers';
+import { getTokenMetadata } from '../../../db/tokens';
 import { logger } from '../../../utils/logger';
 import { UIHelper } from '../../../utils/ui';
 import { updateHistoricalMetrics } from '../../../jobs/historicalMetrics';
@@ -77,6 +77,7 @@ export const handleRecentCalls = async (ctx: Context, window: string = '7D') =>
       : {};
     const rawSignals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         OR: [
           { chatId: { in: ownedChatIds } },
           { id: { in: forwardedSignalIds } }
@@ -138,13 +139,17 @@ export const handleRecentCalls = async (ctx: Context, window: string = '7D') =>
     const uniqueMints = [...new Set(signals.map((s: any) => s.mint))];
     const priceMap = await getMultipleTokenPrices(uniqueMints);
     
+    // Stored token metadata, one lookup per chain
     const metaMap = new Map<string, any>();
-    await Promise.all(signals.map(async (s: any) => {
+    for (const signalChain of [...new Set(signals.map((s: any) => s.chain as string))]) {
       try {
-        const meta = await provider.getTokenMeta(s.mint);
-        metaMap.set(s.mint, meta);
+        const chainMints = signals.filter((s: any) => s.chain === signalChain).map((s: any) => s.mint);
+        const metas = await getTokenMetadata(chainMints, { chain: signalChain });
+        for (const [mint, meta] of Object.entries(metas)) {
+          if (meta) metaMap.set(mint, meta);
+        }
       } catch {}
-    }));
+    }
 
     for (const sig of signals) {
       // Use fresh Jupiter price for current data
@@ -162,9 +167,9 @@ export const handleRecentCalls = async (ctx: Context, window: string = '7D') =>
           currentMc = jupiterPrice * supply;
         }
       }
-      // Fallback to stored or meta
+      // Fallback to stored metrics, then the stored token supply
       if (currentMc <= 0) {
-        currentMc = sig.metrics?.currentMarketCap || (meta?.marketCap || 0);
+        currentMc = sig.metrics?.currentMarketCap || (currentPrice > 0 && meta?.supply ? currentPrice * meta.supply : 0);
       }
 
       const entryStr = entryMc ? UIHelper.formatMarketCap(entryMc) : 'N/A';
@@ -35,6 +35,11 @@ export const handleAnalyzeCommand = async (ctx: Context) => {
 
     message += UIHelper.subHeader('POOL TIMELINE', '🧪');
     message += `Token Created: ${deep.tokenCreatedAt.toLocaleString()}\n`;
+    if (deep.isGraduated) {
+      message += 'Bonding Curve: Graduated\n';
+    } else if (deep.bondingProgress > 0) {
+      message += `Bonding Curve: ${deep.bondingProgress.toFixed(1)}% (${deep.liquiditySol.toFixed(2)} SOL)\n`;
+    }
     if (deep.poolCreatedAt) {
       message += `Pool Created: ${deep.poolCreatedAt.toLocaleString()}\n`;
       message += `Pool Before Launch: ${deep.poolBeforeLaunch ? 'Yes' : 'No'}\n`;
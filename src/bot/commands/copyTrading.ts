@@ -86,6 +86,7 @@ export const handleStrategyAutoGenerate = async (ctx: Context, profile: 'winrate
     const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const autoSignals = await prisma.signal.findMany({
       where: {
+        excludedAt: null,
         groupId: primary.group.id,
         OR: [
           { entryPriceAt: { gte: since } },
@@ -243,7 +244,7 @@ export const handleStrategyTargetList = async (ctx: Context, type: 'GROUP' | 'US
   }
 
   const recentSignals = await prisma.signal.findMany({
-    where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null } },
+    where: { group: { owner: { userId: ownerTelegramId } }, userId: { not: null }, excludedAt: null },
     select: { userId: true },
     orderBy: { detectedAt: 'desc' },
     take: 50
@@ -843,6 +844,7 @@ export const handleStrategyBacktest = async (ctx: Context) => {
 
   const signals = await prisma.signal.findMany({
     where: {
+      excludedAt: null,
       ...timeFilter,
       metrics: { isNot: null },
       ...scope
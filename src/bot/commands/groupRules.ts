@@ -0,0 +1,149 @@
+import { Context } from 'telegraf';
+import { prisma } from '../../db';
+import { getAllGroups, getGroupParsingRule, updateGroupParsingRule, clearGroupParsingRule } from '../../db/groups';
+import { logger } from '../../utils/logger';
+import { validateRulePattern } from '../../ingest/classifier';
+
+export type GroupRuleInputType = 'group_rule_template' | 'group_rule_keyword' | 'group_rule_ignore' | 'group_rule_min_conf';
+
+const respond = async (ctx: Context, text: string, keyboard: any[][]) => {
+  const extra = { parse_mode: 'Markdown' as const, reply_markup: { inline_keyboard: keyboard } };
+  if (ctx.callbackQuery && ctx.callbackQuery.message) {
+    await ctx.editMessageText(text, extra).catch(() => ctx.reply(text, extra));
+  } else {
+    await ctx.reply(text, extra);
+  }
+};
+
+const findOwnedGroup = async (ctx: Context, groupId: number) => {
+  if (!ctx.from?.id) return null;
+  return prisma.group.findFirst({
+    where: { id: groupId, owner: { userId: BigInt(ctx.from.id) } },
+  });
+};
+
+// Backticks would end the inline code span
+const code = (value: string) => `\`${value.replace(/`/g, "'")}\``;
+
+export const handleGroupRulesMenu = async (ctx: Context) => {
+  try {
+    if (!ctx.from?.id) return ctx.reply('❌ Unable to identify user.');
+    const groups = (await getAllGroups(BigInt(ctx.from.id))).filter((g: any) => g.type !== 'destination');
+    if (groups.length === 0) {
+      return respond(ctx, '🧩 *Parsing Rules*\n\nNo source groups yet.', [[{ text: '🔙 Back', callback_data: 'groups_menu' }]]);
+    }
+    const keyboard = groups.slice(0, 20).map((g: any) => [
+      { text: g.name || `Group ${g.chatId}`, callback_data: `group_rules:${g.id}` },
+    ]);
+    keyboard.push([{ text: '🔙 Back', callback_data: 'groups_menu' }]);
+    await respond(
+      ctx,
+      '🧩 *Parsing Rules*\n\nPer-group rules run before the global signal heuristic.\nSelect a group:',
+      keyboard
+    );
+  } catch (error) {
+    logger.error('Error in group rules menu:', error);
+    ctx.reply('Error loading parsing rules.');
+  }
+};
+
+export const handleGroupRulesView = async (ctx: Context, groupId: number) => {
+  try {
+    const group = await findOwnedGroup(ctx, groupId);
+    if (!group) return ctx.reply('❌ Group not found. Make sure you own this group.');
+    const rule = await getGroupParsingRule(groupId);
+
+    const list = (items: string[] | undefined) =>
+      items && items.length > 0 ? items.map((p, i) => `  ${i + 1}. ${code(p)}`).join('\n') : '  _none_';
+
+    let message = `🧩 *Parsing Rules: ${group.name || group.chatId}*\n\n`;
+    message += `*Templates* (match = call):\n${list(rule?.templates)}\n\n`;
+    message += `*Required keywords* (any):\n${list(rule?.requiredKeywords)}\n\n`;
+    message += `*Ignore patterns*:\n${list(rule?.ignorePatterns)}\n\n`;
+    message += `*Min confidence:* ${rule?.minConfidence ?? '—'}\n`;
+    message += `*Admins only:* ${rule?.adminsOnly ? 'ON' : 'OFF'}`;
+
+    await respond(ctx, message, [
+      [
+        { text: '➕ Template', callback_data: `group_rules_input:template:${groupId}` },
+        { text: '➕ Keyword', callback_data: `group_rules_input:keyword:${groupId}` },
+      ],
+      [
+        { text: '➕ Ignore', callback_data: `group_rules_input:ignore:${groupId}` },
+        { text: '🎯 Min Confidence', callback_data: `group_rules_input:min_conf:${groupId}` },
+      ],
+      [{ text: `👮 Admins Only: ${rule?.adminsOnly ? 'ON' : 'OFF'}`, callback_data: `group_rules_admins:${groupId}` }],
+      [{ text: '🧹 Reset Rules', callback_data: `group_rules_clear:${groupId}` }],
+      [{ text: '🔙 Back', callback_data: 'group_rules_menu' }],
+    ]);
+  } catch (error) {
+    logger.error('Error in group rules view:', error);
+    ctx.reply('Error loading parsing rules.');
+  }
+};
+
+export const handleGroupRulesToggleAdmins = async (ctx: Context, groupId: number) => {
+  const group = await findOwnedGroup(ctx, groupId);
+  if (!group) return ctx.reply('❌ Group not found. Make sure you own this group.');
+  const rule = await getGroupParsingRule(groupId);
+  await updateGroupParsingRule(groupId, { adminsOnly: !rule?.adminsOnly });
+  await handleGroupRulesView(ctx, groupId);
+};
+
+export const handleGroupRulesClear = async (ctx: Context, groupId: number) => {
+  const group = await findOwnedGroup(ctx, groupId);
+  if (!group) return ctx.reply('❌ Group not found. Make sure you own this group.');
+  await clearGroupParsingRule(groupId);
+  await handleGroupRulesView(ctx, groupId);
+};
+
+export const handleGroupRulesPrompt = async (ctx: Context, kind: string, groupId: number) => {
+  const prompts: Record<string, { type: GroupRuleInputType; text: string }> = {
+    template: { type: 'group_rule_template', text: 'Send a regex template. Messages matching it count as calls.\nExample: `^🚀 NEW CALL`' },
+    keyword: { type: 'group_rule_keyword', text: 'Send a required keyword (case-insensitive). Messages without any required keyword are ignored.' },
+    ignore: { type: 'group_rule_ignore', text: 'Send a regex. Matching messages are never signals.\nExample: `giveaway|raid`' },
+    min_conf: { type: 'group_rule_min_conf', text: 'Send a minimum confidence between 0 and 1 (e.g. 0.8), or 0 to disable.' },
+  };
+  const prompt = prompts[kind];
+  if (!prompt) return;
+  if (!(ctx as any).session) (ctx as any).session = {};
+  (ctx as any).session.pendingInput = { type: prompt.type, groupId };
+  await ctx.reply(prompt.text, { parse_mode: 'Markdown' });
+};
+
+/** Handle the text reply for a pending rule input. Returns false to keep the prompt open. */
+export const handleGroupRuleInput = async (ctx: Context, type: GroupRuleInputType, groupId: number, text: string) => {
+  const group = await findOwnedGroup(ctx, groupId);
+  if (!group) {
+    await ctx.reply('❌ Group not found. Make sure you own this group.');
+    return true;
+  }
+  const value = text.trim();
+  const rule = await getGroupParsingRule(groupId);
+
+  if (type === 'group_rule_template' || type === 'group_rule_ignore') {
+    const problem = validateRulePattern(value);
+    if (problem) {
+      await ctx.reply(`❌ ${problem} Try again.`);
+      return false;
+    }
+    if (type === 'group_rule_template') {
+      await updateGroupParsingRule(groupId, { templates: [...(rule?.templates || []), value] });
+    } else {
+      await updateGroupParsingRule(groupId, { ignorePatterns: [...(rule?.ignorePatterns || []), value] });
+    }
+  } else if (type === 'group_rule_keyword') {
+    if (!value) return false;
+    await updateGroupParsingRule(groupId, { requiredKeywords: [...(rule?.requiredKeywords || []), value.toLowerCase()] });
+  } else {
+    const val = parseFloat(value);
+    if (Number.isNaN(val) || val < 0 || val > 1) {
+      await ctx.reply('❌ Invalid confidence. Use a number between 0 and 1.');
+      return false;
+    }
+    await updateGroupParsingRule(groupId, { minConfidence: val > 0 ? val : null });
+  }
+
+  await handleGroupRulesView(ctx, groupId);
+  return true;
+};
@@ -75,7 +75,7 @@ export const handleGroupsCommand = async (ctx: Context) => {
     const chatIds = groups.map((g: any) => g.chatId);
     const grouped = await prisma.signal.groupBy({
       by: ['chatId'],
-      where: { chatId: { in: chatIds } },
+      where: { chatId: { in: chatIds }, excludedAt: null },
       _count: { _all: true },
       _max: { detectedAt: true },
     });
@@ -130,6 +130,7 @@ export const handleGroupsCommand = async (ctx: Context) => {
             { text: '📡 Add Channel', callback_data: 'channel_add' },
           ],
           [
+            { text: '🧩 Parsing Rules', callback_data: 'group_rules_menu' },
             { text: '⚙️ Settings', callback_data: 'group_settings' },
           ],
         ],
@@ -0,0 +1,36 @@
+import { Context } from 'telegraf';
+import { logger } from '../../utils/logger';
+
+// Job and host names contain - and _ that Markdown would read as formatting
+const escape = (text: string) => text.replace(/[_*`[]/g, '\\$&');
+
+const formatEvery = (ms: number) => (ms >= 60 * 1000 ? `${ms / 60000}m` : `${ms / 1000}s`);
+
+/** Background job queues: schedule, queue depth and which worker instance holds each job's lock. */
+export const handleJobsCommand = async (ctx: Context) => {
+  try {
+    const { getJobStatus } = await import('../../jobs');
+    const { jobs, deadLetters } = await getJobStatus();
+
+    let message = '⚙️ *Background Jobs*\n';
+    for (const job of jobs) {
+      const icon = job.lock.owner ? '🟢' : '⚪️';
+      message += `\n${icon} *${escape(job.name)}* (${job.every ? `every ${formatEvery(job.every)}` : 'on demand'})\n`;
+      message += job.lock.owner
+        ? `  running on ${escape(job.lock.owner)}, lock expires in ${Math.ceil((job.lock.expiresInMs ?? 0) / 1000)}s\n`
+        : '  idle\n';
+      const { active = 0, waiting = 0, delayed = 0, failed = 0 } = job.counts;
+      message += `  ${active} active, ${waiting} waiting, ${delayed} delayed, ${failed} failed\n`;
+    }
+    message += `\n☠️ Dead letters: ${deadLetters}`;
+
+    const { getAlertDeliveryStats } = await import('../../db/alerts');
+    const alerts = await getAlertDeliveryStats(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    message += `\n📨 Alerts (24h): ${alerts.sent ?? 0} sent, ${alerts.pending ?? 0} pending, ${alerts.failed ?? 0} failed`;
+
+    await ctx.reply(message, { parse_mode: 'Markdown' });
+  } catch (error) {
+    logger.error('Error in jobs command:', error);
+    ctx.reply('Error loading job status.');
+  }
+};
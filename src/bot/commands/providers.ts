@@ -0,0 +1,73 @@
+import { Context } from 'telegraf';
+import { provider } from '../../providers';
+import { ProviderCapability } from '../../providers/types';
+import { logger } from '../../utils/logger';
+
+const STATE_ICON = { closed: '🟢', half_open: '🟡', open: '🔴' } as const;
+const CAPABILITIES: ProviderCapability[] = ['quote', 'meta', 'ohlcv', 'holders'];
+
+// Provider names like jupiter_price would open an italic span
+const escape = (name: string) => name.replace(/_/g, '\\_');
+
+/** Live market data provider health: breaker state, hit rate and latency per capability, plus cache hit rates and the on-chain cross-check. */
+export const handleProvidersCommand = async (ctx: Context) => {
+  try {
+    let message = '📡 *Market Data Providers*\n\n';
+    message += '*Fallback order:*\n';
+    for (const capability of CAPABILITIES) {
+      message += `${capability}: ${provider.getOrder(capability).map(escape).join(' → ') || '—'}\n`;
+    }
+
+    for (const stats of provider.getStats()) {
+      message += `\n${STATE_ICON[stats.state]} *${escape(stats.name)}*`;
+      if (stats.state === 'open') message += ` (retry in ${Math.ceil(stats.retryInMs / 1000)}s)`;
+      message += '\n';
+      const entries = Object.entries(stats.capabilities);
+      if (entries.length === 0) {
+        message += '  _no calls yet_\n';
+        continue;
+      }
+      for (const [capability, s] of entries) {
+        if (!s) continue;
+        const successRate = s.calls > 0 ? ((s.successes / s.calls) * 100).toFixed(0) : '—';
+        message += `  ${capability}: ${s.calls} calls, ${successRate}% ok, ${s.misses} miss, ${s.failures} fail`;
+        if (s.timeouts > 0) message += ` (${s.timeouts} timeout)`;
+        if (s.skipped > 0) message += `, ${s.skipped} skipped`;
+        message += `, ${Math.round(s.avgLatencyMs)}ms avg\n`;
+      }
+      const lastError = Object.values(stats.capabilities)
+        .filter(s => s?.lastErrorAt)
+        .sort((a, b) => b!.lastErrorAt!.getTime() - a!.lastErrorAt!.getTime())[0];
+      if (lastError?.lastError) {
+        message += `  last error: ${lastError.lastError.slice(0, 80).replace(/[_*`[]/g, '')}\n`;
+      }
+    }
+
+    const cache = provider.getCacheStats();
+    if (cache) {
+      message += `\n🗄 *Cache* (${cache.backend})\n`;
+      const entries = Object.entries(cache.capabilities);
+      if (entries.length === 0) message += '  _no lookups yet_\n';
+      for (const [capability, s] of entries) {
+        if (!s) continue;
+        message += `  ${capability}: ${(s.hitRate * 100).toFixed(0)}% hit (${s.hits} hit, ${s.collapsed} joined, ${s.misses} miss`;
+        message += s.errors > 0 ? `, ${s.errors} err)\n` : ')\n';
+      }
+    }
+
+    const crossCheck = provider.getCrossCheckStats();
+    if (crossCheck) {
+      message += `\n⛓ *On-chain cross-check* (${escape(crossCheck.provider)})\n`;
+      message += `  ${crossCheck.checked} quotes checked, ${crossCheck.replaced} replaced by the pool price\n`;
+      const last = crossCheck.lastReplaced;
+      if (last) {
+        message += `  last: ${escape(last.source)} ${(last.deviation * 100).toFixed(0)}% off at ${last.at.toISOString().slice(11, 19)} UTC\n`;
+      }
+    }
+
+    await ctx.reply(message, { parse_mode: 'Markdown' });
+  } catch (error) {
+    logger.error('Error in providers command:', error);
+    ctx.reply('Error loading provider stats.');
+  }
+};
@@ -0,0 +1,90 @@
+import { Context } from 'telegraf';
+import { getGroupByChatId } from '../../db/groups';
+import { logger } from '../../utils/logger';
+import { planReprocess, applyReprocess, ReprocessChange } from '../../ingest/reprocess';
+
+const PREVIEW_LIMIT = 10;
+
+// "7D", "12H", "2W", "1M" or "ALL" -> window start
+const parseWindowStart = (window: string): Date | undefined | null => {
+  const upper = window.toUpperCase();
+  if (upper === 'ALL') return undefined;
+  const match = upper.match(/^(\d+)(H|D|W|M)$/);
+  if (!match) return null;
+  const value = parseInt(match[1], 10);
+  const unit = match[2];
+  const hours = unit === 'H' ? value : unit === 'D' ? value * 24 : unit === 'W' ? value * 24 * 7 : value * 24 * 30;
+  return new Date(Date.now() - hours * 60 * 60 * 1000);
+};
+
+const formatChange = (c: ReprocessChange) =>
+  `• \`${c.mint.slice(0, 6)}...${c.mint.slice(-4)}\` msg ${c.messageId} (${c.sentAt.toISOString().slice(0, 16).replace('T', ' ')})`;
+
+export const handleReprocessCommand = async (ctx: Context, chatIdStr?: string, window: string = '7D') => {
+  try {
+    const userId = ctx.from?.id ? BigInt(ctx.from.id) : null;
+    if (!userId) return ctx.reply('❌ Unable to identify user.');
+
+    const targetChatId = chatIdStr || (ctx.chat?.type !== 'private' ? String(ctx.chat?.id) : undefined);
+    if (!targetChatId || !/^-?\d+$/.test(targetChatId)) {
+      return ctx.reply('Usage: /reprocess <chat_id> [window]\nExample: /reprocess -1001234567890 7D');
+    }
+    const since = parseWindowStart(window);
+    if (since === null) {
+      return ctx.reply('❌ Invalid window. Use e.g. 12H, 7D, 2W, 1M or ALL.');
+    }
+
+    const group = await getGroupByChatId(BigInt(targetChatId), userId);
+    if (!group) return ctx.reply('❌ Group not found. Make sure you own this group.');
+
+    await ctx.reply(`⏳ Replaying stored messages for *${group.name || group.chatId}* (${window.toUpperCase()})...`, { parse_mode: 'Markdown' });
+    const plan = await planReprocess({ groupId: group.id, since });
+
+    if (!(ctx as any).session) (ctx as any).session = {};
+    (ctx as any).session.reprocessPlan = plan;
+
+    let message = `🔁 *Reprocess Preview*\n${plan.groupName} • ${window.toUpperCase()}\n`;
+    message += `Scanned ${plan.scanned} messages${plan.truncated ? ' (truncated, narrow the window)' : ''}\n\n`;
+    message += `🆕 *Newly detected:* ${plan.added.length}\n`;
+    message += plan.added.slice(0, PREVIEW_LIMIT).map(formatChange).join('\n');
+    if (plan.added.length > PREVIEW_LIMIT) message += `\n…and ${plan.added.length - PREVIEW_LIMIT} more`;
+    message += `\n\n🗑 *No longer detected:* ${plan.removed.length}\n`;
+    message += plan.removed.slice(0, PREVIEW_LIMIT).map(formatChange).join('\n');
+    if (plan.removed.length > PREVIEW_LIMIT) message += `\n…and ${plan.removed.length - PREVIEW_LIMIT} more`;
+    message += `\n\n_Applying creates missing signals with historical entries (no alerts) and deletes dropped ones._`;
+
+    const hasChanges = plan.added.length > 0 || plan.removed.length > 0 || plan.reclassifiedMessageIds.length > 0;
+    await ctx.reply(message, {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        inline_keyboard: hasChanges
+          ? [[{ text: '✅ Apply', callback_data: 'reprocess_apply' }, { text: '❌ Cancel', callback_data: 'reprocess_cancel' }]]
+          : [],
+      },
+    });
+  } catch (error) {
+    logger.error('Error in /reprocess command:', error);
+    ctx.reply('Error reprocessing messages.');
+  }
+};
+
+export const handleReprocessApply = async (ctx: Context) => {
+  const session = (ctx as any).session || {};
+  const plan = session.reprocessPlan;
+  if (!plan) {
+    return ctx.reply('No pending reprocess. Run /reprocess first.');
+  }
+  session.reprocessPlan = undefined;
+  try {
+    await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+    await ctx.reply('⏳ Applying reprocess...');
+    const result = await applyReprocess(plan);
+    await ctx.reply(
+      `✅ Reprocess applied for ${plan.groupName}\n` +
+      `Created: ${result.created}\nRemoved: ${result.removed}\nMessages reprocessed: ${result.reprocessed}`
+    );
+  } catch (error) {
+    logger.error('Error applying reprocess:', error);
+    ctx.reply('Error applying reprocess.');
+  }
+};
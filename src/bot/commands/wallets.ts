@@ -1,6 +1,6 @@
 import { Context } from 'telegraf';
 import { bitquery } from '../../providers/bitquery';
-import { solana } from '../../providers/solana';
+import { provider } from '../../providers';
 import { UIHelper } from '../../utils/ui';
 import { findSmartMoney } from '../../analytics/smartMoney';
 
@@ -31,7 +31,7 @@ export const handleWhalesCommand = async (ctx: Context) => {
   const mint = parts[1];
   if (!mint) return ctx.reply('Usage: /whales <mint>');
 
-  const holders = await solana.getTopHolders(mint, 10);
+  const holders = await provider.getTopHolders(mint, 10);
   if (holders.length === 0) {
     return ctx.reply('No holder data found.');
   }
@@ -7,6 +7,7 @@ import { scheduleAutoDelete } from '../utils/messageCleanup';
 import { checkDuplicateCA, generateFirstSignalCard, generateDuplicateSignalCard } from './signalCard';
 import { provider } from '../providers';
 import { TokenMeta } from '../providers/types';
+import { getTokenMeta } from '../db/tokens';
 import { UIHelper } from '../utils/ui';
 
 export const forwardSignalToDestination = async (signal: Signal) => {
@@ -35,7 +36,7 @@ export const forwardSignalToDestination = async (signal: Signal) => {
     }
 
     // 3. Prepare Token Meta (once for all destinations)
-    const meta = await provider.getTokenMeta(signal.mint);
+    const meta = await getTokenMeta(signal.mint, signal.chain);
     const quote = await provider.getQuote(signal.mint);
     const supply = meta?.supply ?? signal.entrySupply ?? undefined;
     const metaWithLive: TokenMeta = {
@@ -110,6 +111,7 @@ export const forwardSignalToDestination = async (signal: Signal) => {
               const mentionCount = await prisma.signal.count({
                 where: {
                   mint: signalDetails.mint,
+                  excludedAt: null,
                   group: { ownerId: ownerId || undefined }
                 }
               });
@@ -214,6 +216,9 @@ export const forwardSignalToDestination = async (signal: Signal) => {
                     { text: '🔍 View Source', callback_data: `source:${signal.id}` },
                     { text: '🔄 Refresh', callback_data: `refresh:${signal.id}` },
                 ],
+                [
+                    { text: '🚫 Not a signal', callback_data: `not_signal:${signal.id}` },
+                ],
                 ],
             } as any;
 
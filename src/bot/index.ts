@@ -107,7 +107,10 @@ export const setupBot = () => {
       `/setdestination - Set destination group\n` +
       `/removegroup - Remove a group\n` +
       `/togglegroup - Enable/disable group\n` +
-      `/addchannel <id|@username> - Claim a channel\n\n` +
+      `/addchannel <id|@username> - Claim a channel\n` +
+      `/reprocess <chat_id> [window] - Replay stored messages through the classifier\n` +
+      `/providers - Market data provider health and fallback order\n` +
+      `/jobs - Background job queues and which instance runs each\n\n` +
       `*Need More Help?*\n` +
       `See README.md for complete documentation\n` +
       `Or check /groups to verify your setup`,
@@ -133,6 +136,19 @@ export const setupBot = () => {
     const args = ctx.message.text?.split(' ').slice(1);
     handleAddChannelCommand(ctx, args?.[0]);
   });
+  bot.command('reprocess', async (ctx) => {
+    const args = ctx.message.text?.split(' ').slice(1);
+    const { handleReprocessCommand } = await import('./commands/reprocess');
+    await handleReprocessCommand(ctx, args?.[0], args?.[1]);
+  });
+  bot.command('providers', async (ctx) => {
+    const { handleProvidersCommand } = await import('./commands/providers');
+    await handleProvidersCommand(ctx);
+  });
+  bot.command('jobs', async (ctx) => {
+    const { handleJobsCommand } = await import('./commands/jobs');
+    await handleJobsCommand(ctx);
+  });
   bot.command('settings', handleSettingsCommand);
   bot.command('sethome', async (ctx) => {
     if (!ctx.from?.id || !ctx.chat?.id) {
@@ -244,7 +260,7 @@ export const launchBot = async (bot: Telegraf<BotContext>) => {
   process.once('SIGTERM', () => bot.stop('SIGTERM'));
 
   await bot.launch({
-    allowedUpdates: ['message', 'callback_query', 'my_chat_member', 'channel_post']
+    allowedUpdates: ['message', 'edited_message', 'callback_query', 'my_chat_member', 'channel_post', 'edited_channel_post']
   });
   logger.info('Bot launched!');
 };
@@ -1,5 +1,6 @@
 import { Context, Middleware } from 'telegraf';
-import { createRawMessage } from '../db/messages';
+import { createRawMessage, getMessage, recordMessageEdit } from '../db/messages';
+import { extractForwardOrigin } from '../parsers/forwardOrigin';
 import { processMessage } from '../ingest/processor';
 import { createOrUpdateGroup, getAnyGroupByChatId, getGroupByChatId } from '../db/groups';
 import { createOrUpdateUser } from '../db/users';
@@ -8,6 +9,74 @@ import { UIHelper } from '../utils/ui';
 import { prisma } from '../db';
 import { isAwaitChannelClaim, clearAwaitChannelClaim } from './state/channelClaimState';
 
+// Edited messages / channel posts: keep edit history and re-run detection.
+// A CA that first appears in an edit gets the edit time as its detection time.
+const handleEditedMessage = async (message: any) => {
+  try {
+    const chatType = message.chat?.type;
+    if (chatType === 'private') return;
+
+    const chatId = message.chat?.id;
+    const messageId = message.message_id;
+    const rawText: string | undefined = message.text ?? message.caption;
+    if (!chatId || !messageId || rawText === undefined) return;
+
+    const editedAt = new Date((message.edit_date || message.date) * 1000);
+
+    // Safety: Skip old edits (2 mins) to prevent spam on restart
+    if (Date.now() - editedAt.getTime() > 120 * 1000) {
+      return;
+    }
+
+    const existing = await getMessage(BigInt(chatId), messageId);
+    if (existing) {
+      // Entity/formatting-only edits don't change the text
+      if (existing.rawText === rawText) return;
+      const { previousText, message: updated } = await recordMessageEdit(existing.id, rawText, editedAt);
+      logger.debug(`Ingested edit of message ${messageId} from ${chatId}`);
+      await processMessage(updated, { detectedAt: editedAt, previousText });
+      return;
+    }
+
+    // Original was never ingested (posted before the bot joined or while it was down)
+    let userId: number | null = null;
+    if (message.from?.id) {
+      const user = await createOrUpdateUser(BigInt(message.from.id), {
+        username: message.from?.username,
+        firstName: message.from?.first_name,
+        lastName: message.from?.last_name,
+      });
+      userId = user.id;
+    }
+
+    // Only link to already claimed groups/channels; edits never auto-register a group
+    const preferred = chatType !== 'channel' && message.from?.id
+      ? await getGroupByChatId(BigInt(chatId), BigInt(message.from.id)).catch(() => null)
+      : null;
+    const group = preferred || await getAnyGroupByChatId(BigInt(chatId));
+
+    const rawMessage = await createRawMessage({
+      chatId: BigInt(chatId),
+      messageId,
+      senderId: message.from?.id ? BigInt(message.from.id) : null,
+      senderUsername: message.from?.username,
+      senderIsBot: !!message.from?.is_bot,
+      sentAt: new Date(message.date * 1000),
+      editedAt,
+      rawText,
+      isSignal: false,
+      ...extractForwardOrigin(message),
+      ...(group ? { group: { connect: { id: group.id } } } : {}),
+      ...(userId ? { user: { connect: { id: userId } } } : {}),
+    });
+
+    logger.debug(`Ingested edited message ${messageId} from ${chatId} (original not seen)`);
+    await processMessage(rawMessage, { detectedAt: editedAt });
+  } catch (error) {
+    logger.error('Error ingesting edited message:', error);
+  }
+};
+
 export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
   // We process messages from groups, supergroups, and channels
   // PRD says: "For every message in the group, store at minimum..."
@@ -51,6 +120,13 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
     return next();
   }
 
+  // Handle edits (groups and channels)
+  const edited = (ctx as any).editedMessage || (ctx as any).editedChannelPost;
+  if (edited && typeof edited === 'object') {
+    await handleEditedMessage(edited);
+    return next();
+  }
+
   // Guided channel claim flow (only in private chats). Also auto-claim if a forwarded channel message is sent.
   if (ctx.chat?.type === 'private' && ctx.from?.id) {
     const pending = (ctx as any).session?.pendingInput;
@@ -389,6 +465,13 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
         return next();
       }
 
+      if (pending.type?.startsWith('group_rule_') && pending.groupId) {
+        const { handleGroupRuleInput } = await import('./commands/groupRules');
+        const done = await handleGroupRuleInput(ctx, pending.type, pending.groupId, text);
+        if (done) (ctx as any).session.pendingInput = undefined;
+        return next();
+      }
+
       if (pending.type === 'strategy_fee') {
         const val = parseFloat(text.trim());
         if (val === null || Number.isNaN(val) || val < 0) {
@@ -495,9 +578,11 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
         messageId,
         senderId: message.from?.id ? BigInt(message.from.id) : null,
         senderUsername,
+        senderIsBot: !!message.from?.is_bot,
         sentAt,
         rawText,
         isSignal: false,
+        ...extractForwardOrigin(message),
         ...(groupId ? { group: { connect: { id: groupId } } } : {}),
         ...(userId ? { user: { connect: { id: userId } } } : {}),
       });
@@ -575,9 +660,11 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
         messageId,
         senderId: senderId ? BigInt(senderId) : null,
         senderUsername,
+        senderIsBot: !!message.from?.is_bot,
         sentAt,
         rawText,
         isSignal: false, // Updated later by signal detector
+        ...extractForwardOrigin(message),
         ...(groupId ? { group: { connect: { id: groupId } } } : {}),
         ...(userId ? { user: { connect: { id: userId } } } : {}),
       });
@@ -637,9 +724,11 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
         messageId,
         senderId: message.from?.id ? BigInt(message.from.id) : null,
         senderUsername,
+        senderIsBot: !!message.from?.is_bot,
         sentAt,
         rawText,
         isSignal: false,
+        ...extractForwardOrigin(message),
         ...(groupId ? { group: { connect: { id: groupId } } } : {}),
         ...(userId ? { user: { connect: { id: userId } } } : {}),
       });
@@ -709,9 +798,11 @@ export const ingestMiddleware: Middleware<Context> = async (ctx, next) => {
           messageId,
           senderId: senderId ? BigInt(senderId) : null,
           senderUsername,
+          senderIsBot: !!message.from?.is_bot,
           sentAt,
           rawText,
           isSignal: false,
+          ...extractForwardOrigin(message),
           ...(groupId ? { group: { connect: { id: groupId } } } : {}),
           ...(userId ? { user: { connect: { id: userId } } } : {}),
         });
@@ -125,7 +125,7 @@ export const notifySignal = async (
 
             const sample = await prisma.priceSample.findFirst({
               where: {
-                signalId: forwarded.signalId,
+                mint: forwarded.signal.mint,
                 sampledAt: { lte: forwardedAt },
               },
               orderBy: { sampledAt: 'desc' },
@@ -256,6 +256,8 @@ export const notifySignal = async (
       };
     }
 
+    keyboard.inline_keyboard.push([{ text: '🚫 Not a signal', callback_data: `not_signal:${signal.id}` }]);
+
     const sendWithCleanup = async (targetChatId: bigint, ttlSeconds?: number | null, hideButton = true) => {
       let sent;
       // Prefer sendPhoto if image available
@@ -4,6 +4,7 @@ import { prisma } from '../db';
 import { analyzeHolders, WhaleAlert } from '../analytics/holders';
 import { getBasicTokenAnalysis } from '../analytics/tokenSniffer';
 import { UIHelper } from '../utils/ui';
+import { formatForwardOrigin } from '../parsers/forwardOrigin';
 
 // Formatting helpers
 const formatNumber = (num: number | undefined | null): string => {
@@ -24,6 +25,46 @@ const calcPercentDelta = (current?: number | null, entry?: number | null): strin
   return formatPercent(delta);
 };
 
+// Caller's claimed entry vs our measured entry (from parsed call details)
+const buildCallClaimBlock = (signal: Signal, entryMcVal: number | null): string => {
+  const parts: string[] = [];
+  if (signal.reportedMcap) {
+    parts.push(`Claimed MC: \`${formatNumber(signal.reportedMcap)}\` (ours ${calcPercentDelta(entryMcVal, signal.reportedMcap)})`);
+  } else if (signal.reportedPrice) {
+    parts.push(`Claimed entry: \`$${signal.reportedPrice}\` (ours ${calcPercentDelta(signal.entryPrice, signal.reportedPrice)})`);
+  }
+  const targets = Array.isArray(signal.reportedTargets) ? (signal.reportedTargets as any[]) : [];
+  if (targets.length > 0) {
+    const labels = targets.map((t) =>
+      t.kind === 'multiple' ? `${t.value}x` : t.kind === 'mcap' ? formatNumber(t.value) : `$${t.value}`
+    );
+    parts.push(`Targets: ${labels.join(' / ')}`);
+  }
+  if (signal.category && signal.category !== 'General') {
+    parts.push(`Narrative: ${signal.category}`);
+  }
+  return parts.length > 0 ? `📣 *CALL*\n${parts.join('\n')}` : '';
+};
+
+// No earlier original post: a forwarded copy (this one or an earlier one) still means the
+// CA was called first at its origin, so credit the origin channel/author with the original date
+const findForwardOrigin = async (whereClause: any): Promise<{
+  isDuplicate: boolean;
+  firstSignal?: Signal;
+  firstGroupName?: string;
+}> => {
+  const forwarded = await prisma.signal.findFirst({
+    where: { ...whereClause, forwardDate: { not: null } },
+    orderBy: { forwardDate: 'asc' },
+  });
+  if (!forwarded) return { isDuplicate: false };
+  return {
+    isDuplicate: true,
+    firstSignal: { ...forwarded, detectedAt: forwarded.forwardDate || forwarded.detectedAt },
+    firstGroupName: formatForwardOrigin(forwarded),
+  };
+};
+
 // Check duplicate logic (shared)
 export const checkDuplicateCA = async (
   mint: string,
@@ -39,7 +80,9 @@ export const checkDuplicateCA = async (
   // FIX: Workspace-wide duplicate detection - if ownerId provided, check ALL groups owned by that user
   // This ensures "NEW SIGNAL" only appears if it's the FIRST time that CA appears anywhere in the workspace
   // If prioritizeChannels is true, prioritize source channels (alpha caller channels) over groups
-  const whereClause: any = { mint };
+  // Forwarded copies are reposts: only original posts compete for first-caller credit
+  // (imported forwards carry only the origin's title)
+  const whereClause: any = { mint, forwardDate: null, forwardFromChatTitle: null, excludedAt: null };
   if (ownerId) {
     // Workspace-wide check: look for this mint in ANY group owned by this user
     whereClause.group = { ownerId };
@@ -56,6 +99,9 @@ export const checkDuplicateCA = async (
     const channelSignals = await prisma.signal.findMany({
       where: {
         mint,
+        forwardDate: null,
+        forwardFromChatTitle: null,
+        excludedAt: null,
         group: {
           ownerId,
           type: 'source',
@@ -91,7 +137,7 @@ export const checkDuplicateCA = async (
     if (allSignals.length > 0) {
       const firstSignal = allSignals[0];
       if (excludeSignalId && firstSignal.id === excludeSignalId) {
-        return { isDuplicate: false };
+        return findForwardOrigin(whereClause);
       }
       return {
         isDuplicate: true,
@@ -111,7 +157,7 @@ export const checkDuplicateCA = async (
     if (existingSignals.length > 0) {
       const firstSignal = existingSignals[0];
       if (excludeSignalId && firstSignal.id === excludeSignalId) {
-        return { isDuplicate: false };
+        return findForwardOrigin(whereClause);
       }
       return {
         isDuplicate: true,
@@ -121,7 +167,7 @@ export const checkDuplicateCA = async (
     }
   }
 
-  return { isDuplicate: false };
+  return findForwardOrigin(whereClause);
 };
 
 // --- NEW LAYOUT GENERATORS ---
@@ -148,6 +194,7 @@ export const generateFirstSignalCard = async (
   const entryMcVal = signal.entryMarketCap ?? (signal.entryPrice && signal.entrySupply ? signal.entryPrice * signal.entrySupply : null);
   
   const mcDelta = calcPercentDelta(currentMc ?? null, entryMcVal);
+  const callClaimBlock = buildCallClaimBlock(signal, entryMcVal);
   
   const vol24 = meta.volume24h ??
     (meta.stats24h && (meta.stats24h.buyVolume || meta.stats24h.sellVolume)
@@ -175,8 +222,8 @@ export const generateFirstSignalCard = async (
   let topHoldersText = '';
   
   try {
-    const { solana } = await import('../providers/solana');
-    const holders = await solana.getTopHolders(signal.mint, 10); // Get top 10 for display
+    const { provider } = await import('../providers');
+    const holders = await provider.getTopHolders(signal.mint, 10); // Get top 10 for display
     
     if (holders.length > 0) {
         topHoldersText = '\n👑 *TOP HOLDERS*\n';
@@ -285,7 +332,7 @@ ${tokenIdent}
 ${caLine}
 
 ${statsBlock}
-
+${callClaimBlock ? '\n' + callClaimBlock + '\n' : ''}
 ${securityBlock}
 ${topHoldersText}${alertBlock}
 ${flowBlock ? '\n' + flowBlock : ''}
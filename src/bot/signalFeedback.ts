@@ -0,0 +1,63 @@
+import { Context } from 'telegraf';
+import { prisma } from '../db';
+import { excludeSignal } from '../db/signals';
+import { labelMessage } from '../db/messages';
+import { invalidateTextModel } from '../ingest/textModelStore';
+import { logger } from '../utils/logger';
+
+/**
+ * "Not a signal" button: exclude the signal from analytics, label its message for the
+ * text model and tell every destination the signal was routed to.
+ */
+export const handleNotSignal = async (ctx: Context, signalId: number) => {
+  const telegramUserId = ctx.from?.id ? BigInt(ctx.from.id) : null;
+  if (!telegramUserId) return ctx.answerCbQuery('User not identified');
+
+  const signal = await prisma.signal.findUnique({
+    where: { id: signalId },
+    include: { group: { include: { owner: true } } },
+  });
+  if (!signal) return ctx.answerCbQuery('Signal not found');
+  if (signal.group?.owner?.userId !== telegramUserId) {
+    return ctx.answerCbQuery('Only the workspace owner can flag signals');
+  }
+  if (signal.excludedAt) return ctx.answerCbQuery('Already marked as not a signal');
+
+  await excludeSignal(signal.id, 'not_signal', telegramUserId);
+
+  // Label the message only once none of its mints is still a signal
+  const remaining = await prisma.signal.count({
+    where: { chatId: signal.chatId, messageId: signal.messageId, excludedAt: null },
+  });
+  if (remaining === 0) {
+    await labelMessage(signal.chatId, signal.messageId, 'not_signal', telegramUserId);
+    invalidateTextModel();
+  }
+
+  await ctx.answerCbQuery('Marked as not a signal');
+  try {
+    await ctx.reply(`🚫 *${signal.symbol || signal.mint.slice(0, 6)}* marked as not a signal and excluded from analytics.`, {
+      parse_mode: 'Markdown',
+    });
+  } catch (err) {
+    logger.debug('Could not confirm not-a-signal in chat:', err);
+  }
+
+  // Tell routed destinations the earlier card should be disregarded
+  const forwarded = await prisma.forwardedSignal.findMany({ where: { signalId: signal.id } });
+  if (forwarded.length === 0) return;
+  const bot = (await import('./instance')).getBotInstance();
+  const notice =
+    `🚫 *Not a signal*\n` +
+    `${signal.symbol ? `$${signal.symbol} ` : ''}\`${signal.mint}\`\n` +
+    `Source: ${signal.group?.name || signal.chatId}\n` +
+    `Flagged by the workspace owner; excluded from analytics.`;
+  for (const f of forwarded) {
+    if (f.destGroupId === signal.chatId || Number(f.destGroupId) === ctx.chat?.id) continue;
+    try {
+      await bot.telegram.sendMessage(Number(f.destGroupId), notice, { parse_mode: 'Markdown' });
+    } catch (err) {
+      logger.warn(`Failed to send not-a-signal notice to ${f.destGroupId}:`, err);
+    }
+  }
+};
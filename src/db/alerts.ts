@@ -0,0 +1,123 @@
+import { prisma } from './index';
+import { AlertDelivery, Prisma } from '../generated/client';
+
+export type AlertBasis = 'price' | 'mc';
+export type AlertDeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface AlertRecipient {
+  chatId: bigint;
+  channel: 'destination' | 'dm' | 'group' | 'home';
+  showHideButton: boolean;
+  autoDeleteSeconds: number | null;
+}
+
+export const thresholdKey = (signalId: number, basis: AlertBasis, threshold: number) => `${signalId}:${basis}_${threshold}`;
+
+/** Thresholds already recorded for `signalIds`, as `thresholdKey`s. */
+export const getThresholdEventKeys = async (signalIds: number[]) => {
+  const events = await prisma.thresholdEvent.findMany({
+    where: { signalId: { in: signalIds } },
+    select: { signalId: true, basis: true, multipleThreshold: true },
+  });
+  return new Set(events.map(e => thresholdKey(e.signalId, e.basis as AlertBasis, e.multipleThreshold)));
+};
+
+/**
+ * Record that a signal crossed `threshold` on `basis`, together with one delivery of `alert.text`
+ * per recipient (a chat listed twice gets one message). Event and deliveries are written in one
+ * transaction, so a crash never leaves an event whose alerts were not queued. Returns the new
+ * event, or null when it was already recorded (by an earlier run or another instance), in which
+ * case its alerts are not sent again.
+ */
+export const recordThresholdEvent = async (
+  data: {
+    signalId: number;
+    threshold: number;
+    basis: AlertBasis;
+    hitPrice: number;
+    hitMarketCap: number | null;
+    provider?: string;
+  },
+  alert?: { text: string; recipients: AlertRecipient[] }
+) => {
+  try {
+    return await prisma.$transaction(async tx => {
+      const event = await tx.thresholdEvent.create({
+        data: {
+          signalId: data.signalId,
+          multipleThreshold: data.threshold,
+          basis: data.basis,
+          hitPrice: data.hitPrice,
+          hitMarketCap: data.hitMarketCap,
+          hitAt: new Date(),
+          ...(data.provider ? { provider: data.provider } : {}),
+        },
+      });
+      if (alert && alert.recipients.length > 0) {
+        await tx.alertDelivery.createMany({
+          data: alert.recipients.map(r => ({
+            thresholdEventId: event.id,
+            chatId: r.chatId,
+            channel: r.channel,
+            text: alert.text,
+            showHideButton: r.showHideButton,
+            autoDeleteSeconds: r.autoDeleteSeconds,
+          })),
+          skipDuplicates: true,
+        });
+      }
+      return event;
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+    throw error;
+  }
+};
+
+export const getDueAlertDeliveries = async (limit = 100, thresholdEventIds?: number[]) =>
+  prisma.alertDelivery.findMany({
+    where: {
+      status: 'pending',
+      nextAttemptAt: { lte: new Date() },
+      ...(thresholdEventIds ? { thresholdEventId: { in: thresholdEventIds } } : {}),
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  });
+
+/**
+ * Claim a pending delivery for one send attempt. Only one caller gets true; a row left in
+ * `sending` by a crash is not retried, since the message may have gone out.
+ */
+export const claimAlertDelivery = async (id: number) => {
+  const { count } = await prisma.alertDelivery.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'sending', attempts: { increment: 1 } },
+  });
+  return count === 1;
+};
+
+export const markAlertDelivered = async (id: number, messageId: number) =>
+  prisma.alertDelivery.update({
+    where: { id },
+    data: { status: 'sent', messageId, sentAt: new Date(), lastError: null },
+  });
+
+/** Log a failed attempt: back to pending until `retryAt`, or failed for good when it is null. */
+export const markAlertFailed = async (id: number, error: string, retryAt: Date | null): Promise<AlertDelivery> =>
+  prisma.alertDelivery.update({
+    where: { id },
+    data: retryAt
+      ? { status: 'pending', lastError: error, nextAttemptAt: retryAt }
+      : { status: 'failed', lastError: error },
+  });
+
+/** Delivery counts by status since `since`, for monitoring. */
+export const getAlertDeliveryStats = async (since: Date) => {
+  const rows = await prisma.alertDelivery.groupBy({
+    by: ['status'],
+    where: { createdAt: { gte: since } },
+    _count: { _all: true },
+  });
+  return Object.fromEntries(rows.map(r => [r.status, r._count._all])) as Partial<Record<AlertDeliveryStatus, number>>;
+};
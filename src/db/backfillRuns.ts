@@ -0,0 +1,148 @@
+import { prisma } from './index';
+import { BackfillRun, Prisma } from '../generated/client';
+import type { ProviderBudget } from '../providers/rateLimiter';
+
+export type BackfillKind = 'ath' | 'ath_fast';
+export type BackfillRunStatus = 'running' | 'paused' | 'complete' | 'error';
+
+export interface BackfillMintResult {
+  status: 'done' | 'error';
+  signals: number;
+  athUpdated: number;
+  errors: number;
+  skipped: number;
+  error?: string;
+}
+
+/** Start a run over `mints`, each pending until the worker records its result. */
+export const createBackfillRun = async (
+  kind: BackfillKind,
+  options: Prisma.InputJsonValue,
+  mints: { mint: string; signals: number }[]
+): Promise<BackfillRun> => {
+  return prisma.$transaction(async tx => {
+    const run = await tx.backfillRun.create({
+      data: {
+        kind,
+        options,
+        phase: 'init',
+        totalMints: mints.length,
+        totalSignals: mints.reduce((sum, m) => sum + m.signals, 0),
+      },
+    });
+    await tx.backfillRunMint.createMany({
+      data: mints.map(m => ({ runId: run.id, mint: m.mint, signals: m.signals })),
+    });
+    return run;
+  });
+};
+
+// Provider budgets are stored as JSON; limits a provider doesn't have are left out
+const toBudgetJson = (budget: ProviderBudget[]): Prisma.InputJsonArray =>
+  budget.map(({ daily, monthly, ...counts }) => ({
+    ...counts,
+    ...(daily !== undefined ? { daily } : {}),
+    ...(monthly !== undefined ? { monthly } : {}),
+  }));
+
+/** The provider budget a run's worker last recorded, or null before its first mint. */
+export const getRunBudget = (run: BackfillRun): ProviderBudget[] | null => {
+  if (!Array.isArray(run.budget)) return null;
+  const num = (value: Prisma.JsonValue | undefined) => (typeof value === 'number' ? value : undefined);
+  return run.budget.flatMap(entry => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    return [{
+      provider: String(entry.provider),
+      keyId: String(entry.keyId),
+      perMinute: num(entry.perMinute) ?? 0,
+      available: num(entry.available) ?? 0,
+      queued: num(entry.queued) ?? 0,
+      pausedForMs: num(entry.pausedForMs) ?? 0,
+      usedToday: num(entry.usedToday) ?? 0,
+      daily: num(entry.daily),
+      usedThisMonth: num(entry.usedThisMonth) ?? 0,
+      monthly: num(entry.monthly),
+    }];
+  });
+};
+
+export const getBackfillRun = async (id: number) => prisma.backfillRun.findUnique({ where: { id } });
+
+export const getLatestBackfillRun = async (kind?: BackfillKind) =>
+  prisma.backfillRun.findFirst({ where: kind ? { kind } : {}, orderBy: { startedAt: 'desc' } });
+
+export const listBackfillRuns = async (limit = 10) =>
+  prisma.backfillRun.findMany({ orderBy: { startedAt: 'desc' }, take: limit });
+
+/** Runs a worker was executing when it stopped; they are picked up again on worker start. */
+export const getInterruptedBackfillRuns = async () =>
+  prisma.backfillRun.findMany({ where: { status: 'running' }, orderBy: { startedAt: 'asc' } });
+
+export const hasCompletedBackfill = async () => (await prisma.backfillRun.count({ where: { status: 'complete' } })) > 0;
+
+export const getPendingBackfillMints = async (runId: number) => {
+  const rows = await prisma.backfillRunMint.findMany({
+    where: { runId, status: 'pending' },
+    select: { mint: true },
+    orderBy: { id: 'asc' },
+  });
+  return rows.map(r => r.mint);
+};
+
+export const updateBackfillRun = async (id: number, data: Prisma.BackfillRunUpdateInput) =>
+  prisma.backfillRun.update({ where: { id }, data });
+
+/**
+ * Mark a mint processed and add its counts to the run. Returns the run, whose status tells
+ * the worker whether a stop was requested meanwhile.
+ */
+export const recordBackfillMint = async (
+  runId: number,
+  mint: string,
+  result: BackfillMintResult,
+  budget?: ProviderBudget[]
+): Promise<BackfillRun> => {
+  const [, run] = await prisma.$transaction([
+    prisma.backfillRunMint.update({
+      where: { runId_mint: { runId, mint } },
+      data: {
+        status: result.status,
+        athUpdated: result.athUpdated,
+        errors: result.errors,
+        skipped: result.skipped,
+        error: result.error ?? null,
+        processedAt: new Date(),
+      },
+    }),
+    prisma.backfillRun.update({
+      where: { id: runId },
+      data: {
+        processedMints: { increment: 1 },
+        processedSignals: { increment: result.signals },
+        athUpdated: { increment: result.athUpdated },
+        errors: { increment: result.errors },
+        skipped: { increment: result.skipped },
+        currentMint: mint,
+        ...(result.error ? { lastError: result.error } : {}),
+        ...(budget !== undefined ? { budget: toBudgetJson(budget) } : {}),
+      },
+    }),
+  ]);
+  return run;
+};
+
+/** Ask the worker running `id` to stop after its current mints; the run stays resumable. */
+export const requestBackfillStop = async (id: number) =>
+  prisma.backfillRun.updateMany({
+    where: { id, status: 'running' },
+    data: { status: 'paused', lastError: 'Stopped by user' },
+  });
+
+/** Mark a stopped or failed run running again for a worker to continue; false if it is neither. */
+export const resumeBackfillRun = async (id: number) => {
+  const { count } = await prisma.backfillRun.updateMany({
+    where: { id, status: { in: ['paused', 'error'] } },
+    data: { status: 'running', lastError: null },
+  });
+  return count > 0;
+};
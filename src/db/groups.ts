@@ -233,6 +233,39 @@ export const deleteGroup = async (chatId: bigint, ownerTelegramId: bigint) => {
   }
 };
 
+// Per-group parsing rules
+export const getGroupParsingRule = async (groupId: number) => {
+  return prisma.groupParsingRule.findUnique({ where: { groupId } });
+};
+
+export const updateGroupParsingRule = async (
+  groupId: number,
+  data: {
+    templates?: string[];
+    requiredKeywords?: string[];
+    ignorePatterns?: string[];
+    minConfidence?: number | null;
+    adminsOnly?: boolean;
+  }
+) => {
+  return prisma.groupParsingRule.upsert({
+    where: { groupId },
+    create: {
+      groupId,
+      templates: data.templates ?? [],
+      requiredKeywords: data.requiredKeywords ?? [],
+      ignorePatterns: data.ignorePatterns ?? [],
+      minConfidence: data.minConfidence ?? null,
+      adminsOnly: data.adminsOnly ?? false,
+    },
+    update: data,
+  });
+};
+
+export const clearGroupParsingRule = async (groupId: number) => {
+  return prisma.groupParsingRule.deleteMany({ where: { groupId } });
+};
+
 // Get bot invite link for adding to groups
 export const getBotInviteLink = async (botUsername: string): Promise<string> => {
   // Telegram bot invite link format: https://t.me/{bot_username}?startgroup
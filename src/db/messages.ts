@@ -20,3 +20,42 @@ export const getMessage = async (chatId: bigint, messageId: number) => {
   });
 };
 
+// Store an edit: keep the previous text in the edit history and update the message in place
+export const recordMessageEdit = async (rawMessageId: number, newText: string, editedAt: Date) => {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.rawMessage.findUniqueOrThrow({ where: { id: rawMessageId } });
+    await tx.rawMessageEdit.create({
+      data: {
+        rawMessageId,
+        previousText: existing.rawText,
+        newText,
+        editedAt,
+      },
+    });
+    const updated = await tx.rawMessage.update({
+      where: { id: rawMessageId },
+      data: { rawText: newText, editedAt },
+    });
+    return { previousText: existing.rawText, message: updated };
+  });
+};
+
+export const getMessageEdits = async (rawMessageId: number) => {
+  return prisma.rawMessageEdit.findMany({
+    where: { rawMessageId },
+    orderBy: { editedAt: 'asc' },
+  });
+};
+
+// Training label for the text classifier
+export const labelMessage = async (
+  chatId: bigint,
+  messageId: number,
+  label: 'signal' | 'not_signal',
+  labeledBy?: bigint
+) => {
+  return prisma.rawMessage.updateMany({
+    where: { chatId, messageId },
+    data: { label, labeledAt: new Date(), labeledBy: labeledBy ?? null },
+  });
+};
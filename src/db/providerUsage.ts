@@ -0,0 +1,22 @@
+import { prisma } from './index';
+import { ProviderUsageRow, UsageStore } from '../providers/rateLimiter';
+
+export const providerUsageStore: UsageStore = {
+  load: async (periods: string[]) =>
+    prisma.providerUsage.findMany({
+      where: { period: { in: periods } },
+      select: { provider: true, keyId: true, period: true, calls: true },
+    }),
+
+  add: async (rows: ProviderUsageRow[]) => {
+    await prisma.$transaction(
+      rows.map(({ provider, keyId, period, calls }) =>
+        prisma.providerUsage.upsert({
+          where: { provider_keyId_period: { provider, keyId, period } },
+          create: { provider, keyId, period, calls },
+          update: { calls: { increment: calls } },
+        })
+      )
+    );
+  },
+};
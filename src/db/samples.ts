@@ -1,42 +1,102 @@
 import { prisma } from './index';
+import { PriceSample } from '../generated/client';
+import type { PriceCheck, RecentPrice } from '../analytics/priceSanity';
+
+// Samples form one series per (chain, mint), as one EVM address can be a different token on each
+// chain; signalId marks the sample that was that signal's entry sample
+export const seriesKey = (chain: string, mint: string) => `${chain}:${mint}`;
 
 export const addPriceSample = async (
-  signalId: number,
+  signalId: number | null,
   mint: string,
   price: number,
   provider: string,
   marketCap?: number | null,
   volume?: number | null,
-  liquidity?: number | null
+  liquidity?: number | null,
+  confidence?: number | null,
+  chain = 'solana'
 ) => {
   return prisma.priceSample.create({
     data: {
       signalId,
+      chain,
       mint,
       price,
       marketCap: marketCap ?? null,
       provider,
       volume: volume ?? null,
       liquidity: liquidity ?? null,
+      confidence: confidence ?? null,
       sampledAt: new Date(),
     },
   });
 };
 
-export const getLatestSample = async (signalId: number) => {
-  return prisma.priceSample.findFirst({
-    where: { signalId },
-    orderBy: { sampledAt: 'desc' },
+// Record a quote the sanity check rejected instead of storing it as a sample
+export const quarantinePrice = async (signalId: number, mint: string, price: number, provider: string, check: PriceCheck) => {
+  return prisma.priceQuarantine.create({
+    data: {
+      signalId,
+      mint,
+      price,
+      provider,
+      reason: check.reason || 'UNKNOWN',
+      referencePrice: check.referencePrice ?? null,
+      secondaryPrice: check.secondaryPrice ?? null,
+      secondaryProvider: check.secondaryProvider ?? null,
+      deviation: check.deviation ?? null,
+    },
   });
 };
 
+/** Confirmed samples and quarantined readings per mint since `since`, for the sanity check. */
+export const getRecentPrices = async (mints: string[], since: Date, minConfidence: number) => {
+  const where = { mint: { in: mints }, sampledAt: { gte: since } };
+  const [samples, quarantined] = await Promise.all([
+    prisma.priceSample.findMany({
+      where: { ...where, OR: [{ confidence: null }, { confidence: { gte: minConfidence } }] },
+      select: { mint: true, price: true, sampledAt: true },
+    }),
+    prisma.priceQuarantine.findMany({ where, select: { mint: true, price: true, sampledAt: true } }),
+  ]);
+  const recent: Record<string, RecentPrice[]> = {};
+  for (const s of samples) (recent[s.mint] ||= []).push({ price: s.price, sampledAt: s.sampledAt });
+  for (const q of quarantined) (recent[q.mint] ||= []).push({ price: q.price, sampledAt: q.sampledAt, quarantined: true });
+  return recent;
+};
 
+export const getLatestSample = async (mint: string) => {
+  return prisma.priceSample.findFirst({
+    where: { mint },
+    orderBy: { sampledAt: 'desc' },
+  });
+};
 
+/** Latest sample of each series, keyed by seriesKey; series never sampled are left out. */
+export const getLatestSamples = async (
+  series: { chain: string; mint: string }[]
+): Promise<Record<string, PriceSample>> => {
+  if (series.length === 0) return {};
+  const keys = new Set(series.map(s => seriesKey(s.chain, s.mint)));
+  const latest = (
+    await prisma.priceSample.groupBy({
+      by: ['chain', 'mint'],
+      where: { mint: { in: [...new Set(series.map(s => s.mint))] } },
+      _max: { sampledAt: true },
+    })
+  ).filter(l => keys.has(seriesKey(l.chain, l.mint)));
+  if (latest.length === 0) return {};
+  const samples = await prisma.priceSample.findMany({
+    where: { OR: latest.map(l => ({ chain: l.chain, mint: l.mint, sampledAt: l._max.sampledAt! })) },
+  });
+  return Object.fromEntries(samples.map(sample => [seriesKey(sample.chain, sample.mint), sample]));
+};
 
-
-
-
-
-
-
-
+/** A (chain, mint) series from `since` on, oldest first. */
+export const getMintSamples = async (mint: string, since: Date, chain = 'solana') => {
+  return prisma.priceSample.findMany({
+    where: { chain, mint, sampledAt: { gte: since } },
+    orderBy: { sampledAt: 'asc' },
+  });
+};
@@ -55,7 +55,7 @@ export const getActiveSignals = async () => {
   });
 };
 
-export const updateSignalStatus = async (id: number, status: 'ACTIVE' | 'ARCHIVED' | 'ENTRY_PENDING') => {
+export const updateSignalStatus = async (id: number, status: 'ACTIVE' | 'ARCHIVED' | 'ENTRY_PENDING' | 'ENTRY_UNAVAILABLE') => {
   return prisma.signal.update({
     where: { id },
     data: { trackingStatus: status },
@@ -74,3 +74,46 @@ export const updateEntryPrice = async (id: number, price: number, provider: stri
   });
 };
 
+
+// Remove signals together with their dependent rows (used when a reprocess drops a detection)
+export const deleteSignals = async (ids: number[]) => {
+  if (ids.length === 0) return 0;
+  const where = { signalId: { in: ids } };
+  // Price series are per (chain, mint): a series goes with its last signal, otherwise the
+  // deleted signals' entry links are cleared (signal_id ON DELETE SET NULL)
+  const series = await prisma.signal.findMany({
+    where: { id: { in: ids } },
+    select: { chain: true, mint: true },
+    distinct: ['chain', 'mint'],
+  });
+  const tracked = await prisma.signal.findMany({
+    where: { OR: series, id: { notIn: ids } },
+    select: { chain: true, mint: true },
+    distinct: ['chain', 'mint'],
+  });
+  const orphaned = series.filter(s => !tracked.some(t => t.chain === s.chain && t.mint === s.mint));
+  const [, , , , , , , deleted] = await prisma.$transaction([
+    prisma.priceSample.deleteMany({ where: { OR: orphaned } }),
+    prisma.priceQuarantine.deleteMany({ where }),
+    prisma.thresholdEvent.deleteMany({ where }),
+    prisma.signalMetric.deleteMany({ where }),
+    prisma.forwardedSignal.deleteMany({ where }),
+    prisma.signalTopHolder.deleteMany({ where }),
+    prisma.watchlist.deleteMany({ where }),
+    prisma.signal.deleteMany({ where: { id: { in: ids } } }),
+  ]);
+  return deleted.count;
+};
+
+// "Not a signal" feedback: excluded signals stop tracking and drop out of analytics
+export const excludeSignal = async (id: number, reason: string, excludedBy?: bigint) => {
+  return prisma.signal.update({
+    where: { id },
+    data: {
+      excludedAt: new Date(),
+      excludedReason: reason,
+      excludedBy: excludedBy ?? null,
+      trackingStatus: 'ARCHIVED',
+    },
+  });
+};
@@ -0,0 +1,186 @@
+import { prisma } from './index';
+import { Prisma, Token } from '../generated/client';
+import { provider } from '../providers';
+import { BatchResult, TokenMeta } from '../providers/types';
+import { logger } from '../utils/logger';
+
+// Staleness policy: incomplete and young tokens change (socials, audit, graduation) and refresh often
+const TTL_INCOMPLETE_MS = Number(process.env.TOKEN_META_TTL_INCOMPLETE_MS ?? 5 * 60 * 1000);
+const TTL_NEW_MS = Number(process.env.TOKEN_META_TTL_NEW_MS ?? 15 * 60 * 1000); // First day
+const TTL_MS = Number(process.env.TOKEN_META_TTL_MS ?? 6 * 60 * 60 * 1000);
+const NEW_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+const SUPPLY_CHANGE_EPSILON = 1e-6; // Relative; float noise between providers is not a change
+
+type FieldSources = Record<string, { provider: string; fetchedAt: string }>;
+
+// Stored metadata; market data (price, MC, volume, stats) stays live-only
+type TokenFields = Pick<
+  Prisma.TokenUncheckedCreateInput,
+  | 'name'
+  | 'symbol'
+  | 'decimals'
+  | 'image'
+  | 'supply'
+  | 'circSupply'
+  | 'totalSupply'
+  | 'launchpad'
+  | 'socials'
+  | 'audit'
+  | 'tags'
+  | 'isVerified'
+  | 'tokenCreatedAt'
+  | 'firstPoolId'
+  | 'firstPoolCreatedAt'
+  | 'graduatedPool'
+  | 'graduatedAt'
+>;
+
+const tokenFields = (meta: TokenMeta): TokenFields => {
+  const fields: TokenFields = {
+    // Placeholders from a source that had no name must not overwrite a real one
+    name: meta.name && meta.name !== 'Unknown' ? meta.name : undefined,
+    symbol: meta.symbol && meta.symbol !== 'UNKNOWN' ? meta.symbol : undefined,
+    decimals: meta.decimals,
+    image: meta.image,
+    supply: meta.supply,
+    circSupply: meta.circSupply,
+    totalSupply: meta.totalSupply,
+    launchpad: meta.launchpad,
+    socials: meta.socialLinks,
+    audit: meta.audit,
+    tags: meta.tags,
+    isVerified: meta.isVerified,
+    tokenCreatedAt: meta.createdAt,
+    firstPoolId: meta.firstPoolId,
+    firstPoolCreatedAt: meta.firstPoolCreatedAt,
+    graduatedPool: meta.graduatedPool,
+    graduatedAt: meta.graduatedAt,
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== null));
+};
+
+const toTokenMeta = (token: Token): TokenMeta => ({
+  mint: token.mint,
+  name: token.name || 'Unknown',
+  symbol: token.symbol || 'UNKNOWN',
+  decimals: token.decimals ?? undefined,
+  image: token.image ?? undefined,
+  supply: token.supply ?? undefined,
+  circSupply: token.circSupply ?? undefined,
+  totalSupply: token.totalSupply ?? undefined,
+  launchpad: token.launchpad ?? undefined,
+  socialLinks: (token.socials as TokenMeta['socialLinks']) ?? undefined,
+  audit: (token.audit as TokenMeta['audit']) ?? undefined,
+  tags: token.tags.length > 0 ? token.tags : undefined,
+  isVerified: token.isVerified ?? undefined,
+  createdAt: token.tokenCreatedAt ?? undefined,
+  firstPoolId: token.firstPoolId ?? undefined,
+  firstPoolCreatedAt: token.firstPoolCreatedAt ?? undefined,
+  graduatedPool: token.graduatedPool ?? undefined,
+  graduatedAt: token.graduatedAt ?? undefined,
+  chain: token.chain === 'solana' ? 'Solana' : token.chain,
+});
+
+/** How old stored metadata may get before the next read refetches it. */
+export const tokenMaxAgeMs = (token: Token, now = Date.now()) => {
+  if (!token.name || token.supply === null) return TTL_INCOMPLETE_MS;
+  const launchedAt = (token.tokenCreatedAt || token.firstPoolCreatedAt || token.firstSeenAt).getTime();
+  return now - launchedAt < NEW_TOKEN_AGE_MS ? TTL_NEW_MS : TTL_MS;
+};
+
+const isStale = (token: Token, now = Date.now()) => now - token.refreshedAt.getTime() > tokenMaxAgeMs(token, now);
+
+const supplyChanged = (previous: number | null | undefined, next: number) =>
+  previous === null || previous === undefined || Math.abs(next - previous) > Math.abs(previous) * SUPPLY_CHANGE_EPSILON;
+
+/**
+ * Store fetched metadata: fields the source returned replace the stored ones and record their
+ * provider and fetch time, fields it lacked are kept. A changed supply is added to the history.
+ */
+export const saveTokenMeta = async (meta: TokenMeta, chain = 'solana'): Promise<Token> => {
+  const fields = tokenFields(meta);
+  const source = meta.provider || 'unknown';
+  const now = new Date();
+
+  return prisma.$transaction(async tx => {
+    const existing = await tx.token.findUnique({ where: { chain_mint: { chain, mint: meta.mint } } });
+    const fieldSources: FieldSources = { ...((existing?.fieldSources as FieldSources | undefined) || {}) };
+    for (const field of Object.keys(fields)) {
+      fieldSources[field] = { provider: source, fetchedAt: now.toISOString() };
+    }
+
+    const data = { ...fields, fieldSources, refreshedAt: now };
+    const token = await tx.token.upsert({
+      where: { chain_mint: { chain, mint: meta.mint } },
+      create: { chain, mint: meta.mint, ...data },
+      update: data,
+    });
+
+    if (typeof fields.supply === 'number' && supplyChanged(existing?.supply, fields.supply)) {
+      await tx.tokenSupplyChange.create({
+        data: { tokenId: token.id, supply: fields.supply, previousSupply: existing?.supply ?? null, provider: source },
+      });
+    }
+    return token;
+  });
+};
+
+/**
+ * Persist metadata callers already fetched (ingest, sampling) for tokens that are missing or
+ * stale, so the table stays current without extra provider calls.
+ */
+export const recordTokenMetas = async (metas: BatchResult<TokenMeta>, chain = 'solana') => {
+  const fetched = Object.values(metas).filter((meta): meta is TokenMeta => !!meta?.provider);
+  if (fetched.length === 0) return;
+  try {
+    const stored = await prisma.token.findMany({ where: { chain, mint: { in: fetched.map(m => m.mint) } } });
+    const byMint = new Map(stored.map(token => [token.mint, token]));
+    for (const meta of fetched) {
+      const token = byMint.get(meta.mint);
+      if (!token || isStale(token)) await saveTokenMeta(meta, chain);
+    }
+  } catch (error) {
+    logger.warn('[Tokens] Failed to record token metadata:', error);
+  }
+};
+
+/**
+ * Stored metadata for many mints. With `refresh` (default), missing and stale tokens are
+ * refetched and saved first; a failed refetch falls back to what is stored. Without it no
+ * provider is called. Mints never stored map to null.
+ */
+export const getTokenMetadata = async (
+  mints: string[],
+  options: { refresh?: boolean; chain?: string } = {}
+): Promise<BatchResult<TokenMeta>> => {
+  const { refresh = true, chain = 'solana' } = options;
+  const unique = [...new Set(mints)];
+  const stored = await prisma.token.findMany({ where: { chain, mint: { in: unique } } });
+  const byMint = new Map(stored.map(token => [token.mint, token]));
+
+  const stale = refresh ? unique.filter(mint => !byMint.has(mint) || isStale(byMint.get(mint)!)) : [];
+  if (stale.length > 0) {
+    try {
+      const fresh = await provider.getTokenMetas(stale);
+      for (const mint of stale) {
+        const meta = fresh[mint];
+        if (meta?.provider) byMint.set(mint, await saveTokenMeta(meta, chain));
+      }
+    } catch (error) {
+      logger.warn(`[Tokens] Metadata refresh failed for ${stale.length} tokens, using stored data:`, error);
+    }
+  }
+
+  return Object.fromEntries(unique.map(mint => [mint, byMint.has(mint) ? toTokenMeta(byMint.get(mint)!) : null]));
+};
+
+/** Stored metadata for one token (refreshed when stale); a placeholder when no source knows it. */
+export const getTokenMeta = async (mint: string, chain = 'solana'): Promise<TokenMeta> =>
+  (await getTokenMetadata([mint], { chain }))[mint] ||
+  { mint, name: 'Unknown', symbol: 'UNKNOWN', chain: chain === 'solana' ? 'Solana' : chain };
+
+export const getSupplyHistory = async (mint: string, chain = 'solana') =>
+  prisma.tokenSupplyChange.findMany({
+    where: { token: { chain, mint } },
+    orderBy: { recordedAt: 'asc' },
+  });
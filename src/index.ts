@@ -2,8 +2,9 @@ import dotenv from 'dotenv';
 import { execSync } from 'child_process';
 import { logger } from './utils/logger';
 import { setupBot, launchBot } from './bot';
-import { runSamplingCycle } from './jobs/sampling';
-import { runAggregationCycle } from './jobs/aggregation';
+import { rateLimiter } from './providers/rateLimiter';
+import { shareRateLimits } from './providers';
+import { providerUsageStore } from './db/providerUsage';
 import { Telegraf } from 'telegraf';
 import { BotContext } from './types/bot';
 
@@ -108,22 +109,14 @@ const main = async () => {
     const bot = setupBot();
     await launchBot(bot as Telegraf<BotContext>);
 
-    // Start Sampling Job (Every minute)
-    logger.info('Starting Sampling Scheduler...');
+    // Provider quota counters: shared through Redis, resumed from the DB, new calls persisted every minute
+    shareRateLimits();
+    await rateLimiter.hydrate(providerUsageStore).catch(err => logger.warn('Failed to load provider usage:', err));
     setInterval(() => {
-      runSamplingCycle().catch(err => logger.error('Sampling cycle failed:', err));
+      rateLimiter.flush(providerUsageStore).catch(err => logger.error('Provider usage flush failed:', err));
     }, 60 * 1000);
 
-    // Start Aggregation Job (Every hour)
-    logger.info('Starting Aggregation Scheduler...');
-    setInterval(() => {
-      runAggregationCycle().catch(err => logger.error('Aggregation cycle failed:', err));
-    }, 60 * 60 * 1000);
-
-    // Run once immediately
-    runSamplingCycle().catch(err => logger.error('Initial sampling cycle failed:', err));
-    runAggregationCycle().catch(err => logger.error('Initial aggregation cycle failed:', err));
-
+    // Sampling, alerts, ATH and metrics jobs run in worker processes (src/worker.ts)
   } catch (error) {
     logger.error('Failed to launch bot:', error);
     process.exit(1);
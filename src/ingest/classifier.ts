@@ -1,46 +1,236 @@
-import { extractMints } from '../parsers/mint';
+import { extractAddresses, ExtractedAddress } from '../parsers/mint';
+import { extractLinkedMints, stripLinks, LinkType } from '../parsers/links';
+import { TextModel, isModelReady, predictSignalProbability } from './textModel';
 
-interface SignalDetectionResult {
+export interface DetectedAddress extends ExtractedAddress {
+  linkType?: LinkType; // Set when the address came from a DEX/launchpad/explorer link
+}
+
+export interface SignalDetectionResult {
   isSignal: boolean;
   mints: string[];
+  addresses: DetectedAddress[]; // Same order as mints, tagged with chain
   confidence: number;
   templateId?: string;
+  messageKind?: 'call' | 'recap'; // Recap/"gains update" posts are not fresh calls
+}
+
+// Per-group rules (GroupParsingRule), kept free of Prisma types so detection stays pure
+export interface GroupParsingRules {
+  templates: string[];
+  requiredKeywords: string[];
+  ignorePatterns: string[];
+  minConfidence?: number | null;
+  adminsOnly: boolean;
+}
+
+export interface DetectionContext {
+  rules?: GroupParsingRules | null;
+  senderIsAdmin?: boolean; // Only consulted for adminsOnly rules; unknown counts as not an admin
+  textModel?: TextModel | null; // Naive Bayes trained on "Not a signal" feedback
 }
 
+// Weight of the text model when blending with heuristic confidence, and the blended floor
+const MODEL_WEIGHT = 0.4;
+const MODEL_REJECT_THRESHOLD = 0.45;
+
 const SIGNAL_KEYWORDS = ['signal', 'buy', 'entry', 'mc', 'market cap', 'lfg', 'ape', 'calls', 'setup'];
 
-export const detectSignal = async (text: string): Promise<SignalDetectionResult> => {
-  const mints = await extractMints(text);
-  
+// Recap / brag posts: "Daily recap: $FOO did 12x, $BAR 50k -> 400k"
+const RECAP_KEYWORDS = /\b(recap|gains?\s*update|daily\s+gains|results|performance|wins\s+today|profits?\s*update|track\s*record)\b/i;
+const RECAP_ACHIEVEMENT_REGEX = new RegExp(
+  [
+    // "did 12x", "hit 500%", "up 3.5x"
+    '\\b(?:did|hit|hits|up|pumped|mooned|printed|reached|gave)\\s+\\+?\\$?\\d[\\d.,]*\\s*(?:x|%|k|m)(?![a-z])',
+    // "12x from call", "5x since entry"
+    '\\b\\d+(?:\\.\\d+)?x\\s+(?:from|since|after)\\b',
+    // "50k -> 400k", "40k → 1.2m"
+    '\\d[\\d.,]*\\s*[km]?\\s*(?:->|→|➡️?)\\s*\\$?\\d[\\d.,]*\\s*[km]?',
+  ].join('|'),
+  'gi'
+);
+
+/**
+ * Tell recap/"gains update" posts apart from fresh calls, so a group's own brag posts
+ * don't become new signals and inflate its stats.
+ */
+export const isRecapPost = (text: string, mintCount: number): boolean => {
+  // Target lines ("TP: 100k -> 250k") describe the future, not past gains
+  const withoutTargets = text
+    .split('\n')
+    .filter(line => !/\b(?:tps?|targets?|tgts?)\b/i.test(line))
+    .join('\n');
+  const achievements = (withoutTargets.match(RECAP_ACHIEVEMENT_REGEX) || []).length;
+  const hasRecapKeyword = RECAP_KEYWORDS.test(text);
+  if (achievements >= 2) return true;
+  if (hasRecapKeyword && (achievements >= 1 || mintCount > 1)) return true;
+  return false;
+};
+
+const MAX_RULE_PATTERN_LENGTH = 200;
+
+// A repeated group that itself repeats or alternates ("(a+)+", "(a|aa)*") can backtrack
+// exponentially on a non-matching message
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = []; // Per open group: whether it contains a quantifier or alternation
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      // Character class: quantifier characters inside are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (ch === '(') {
+      groups.push(false);
+    } else if (ch === ')') {
+      const repeats = groups.pop() ?? false;
+      if (repeats && /[*+{]/.test(pattern[i + 1] || '')) return true;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && (/[*+{|]/.test(ch) || (ch === '?' && pattern[i - 1] !== '('))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Check a group owner's regex before it is saved: it runs on every message of the group, so it
+ * must compile, stay short and not risk catastrophic backtracking. Returns the problem, or null.
+ */
+export const validateRulePattern = (pattern: string): string | null => {
+  if (!pattern) return 'Pattern is empty.';
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH) return `Pattern is longer than ${MAX_RULE_PATTERN_LENGTH} characters.`;
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    return 'Invalid regex.';
+  }
+  if (hasNestedQuantifier(pattern)) return 'Nested repetition like (a+)+ or (a|b)* is not allowed.';
+  return null;
+};
+
+// Compiled once per pattern; invalid or unsafe stored patterns are skipped rather than failing detection
+const ruleRegexCache = new Map<string, RegExp | null>();
+const RULE_REGEX_CACHE_MAX = 1000;
+
+const safeRegex = (pattern: string): RegExp | null => {
+  if (ruleRegexCache.has(pattern)) return ruleRegexCache.get(pattern)!;
+  const regex = validateRulePattern(pattern) ? null : new RegExp(pattern, 'i');
+  if (ruleRegexCache.size >= RULE_REGEX_CACHE_MAX) ruleRegexCache.clear();
+  ruleRegexCache.set(pattern, regex);
+  return regex;
+};
+
+/**
+ * Group rules run before the global heuristic. Returns a final result when a rule decides,
+ * or null to fall through.
+ */
+const applyGroupRules = (
+  text: string,
+  base: Pick<SignalDetectionResult, 'mints' | 'addresses'>,
+  rules: GroupParsingRules,
+  senderIsAdmin?: boolean
+): SignalDetectionResult | null => {
+  if (rules.adminsOnly && !senderIsAdmin) {
+    return { isSignal: false, ...base, confidence: 0, templateId: 'group_rule_non_admin' };
+  }
+  if (rules.ignorePatterns.some(p => safeRegex(p)?.test(text))) {
+    return { isSignal: false, ...base, confidence: 0, templateId: 'group_rule_ignored' };
+  }
+  const templateIndex = rules.templates.findIndex(p => safeRegex(p)?.test(text));
+  if (templateIndex >= 0) {
+    return { isSignal: true, ...base, confidence: 0.95, templateId: `group_template_${templateIndex + 1}`, messageKind: 'call' };
+  }
+  const lowerText = text.toLowerCase();
+  if (rules.requiredKeywords.length > 0 && !rules.requiredKeywords.some(kw => lowerText.includes(kw.toLowerCase()))) {
+    return { isSignal: false, ...base, confidence: 0, templateId: 'group_rule_missing_keyword' };
+  }
+  return null;
+};
+
+export const detectSignal = async (text: string, context: DetectionContext = {}): Promise<SignalDetectionResult> => {
+  let result = await detectWithRules(text, context);
+
+  // Refine heuristic confidence with the learned model (explicit group rules are left alone)
+  const model = context.textModel;
+  if (model && isModelReady(model) && result.isSignal && !result.templateId?.startsWith('group_')) {
+    const probability = predictSignalProbability(model, text);
+    const confidence = result.confidence * (1 - MODEL_WEIGHT) + probability * MODEL_WEIGHT;
+    result = confidence < MODEL_REJECT_THRESHOLD
+      ? { ...result, isSignal: false, confidence, templateId: 'model_rejected' }
+      : { ...result, confidence };
+  }
+  const minConfidence = context.rules?.minConfidence;
+  if (result.isSignal && minConfidence && result.confidence < minConfidence) {
+    return { ...result, isSignal: false, templateId: 'group_rule_low_confidence' };
+  }
+  return result;
+};
+
+const detectWithRules = async (text: string, context: DetectionContext): Promise<SignalDetectionResult> => {
+  // Link stage first: links may hold pool addresses that must not be read as mints
+  const linked = await extractLinkedMints(text);
+  const bareText = stripLinks(text);
+  const bare = await extractAddresses(bareText);
+
+  const addresses: DetectedAddress[] = [...linked];
+  for (const addr of bare) {
+    if (!addresses.some(a => a.address === addr.address)) addresses.push(addr);
+  }
+  const mints = addresses.map(a => a.address);
+
   if (mints.length === 0) {
-    return { isSignal: false, mints: [], confidence: 0 };
+    return { isSignal: false, mints: [], addresses: [], confidence: 0 };
+  }
+
+  if (context.rules) {
+    const ruled = applyGroupRules(text, { mints, addresses }, context.rules, context.senderIsAdmin);
+    if (ruled) return ruled;
   }
 
-  const lowerText = text.toLowerCase().trim();
-  
+  if (isRecapPost(bareText, mints.length)) {
+    return {
+      isSignal: false,
+      mints,
+      addresses,
+      confidence: 0.8,
+      templateId: 'recap_post',
+      messageKind: 'recap'
+    };
+  }
+
+  const lowerText = bareText.toLowerCase().trim();
+  const linkType = addresses[0].linkType;
+
   // Heuristic: Mint + Keywords (high confidence)
   const hasKeyword = SIGNAL_KEYWORDS.some(kw => lowerText.includes(kw));
-  
+
   if (hasKeyword) {
     return {
       isSignal: true,
       mints,
+      addresses,
       confidence: 0.9,
-      templateId: 'heuristic_keyword'
+      templateId: linkType ? `link_${linkType}` : 'heuristic_keyword',
+      messageKind: 'call'
     };
   }
 
   // If text is just a mint address (or very short), treat it as a signal
   // This is common in signal groups where people just post CAs
-  const textWithoutMints = text.replace(new RegExp(mints.join('|'), 'gi'), '').trim();
+  const textWithoutMints = bareText.replace(new RegExp(mints.join('|'), 'gi'), '').trim();
   const isJustMint = textWithoutMints.length < 20; // Allow some whitespace/formatting
-  
+
   if (isJustMint) {
     return {
       isSignal: true,
       mints,
-      confidence: 0.7,
-      templateId: 'standalone_mint'
+      addresses,
+      confidence: linkType ? 0.8 : 0.7,
+      templateId: linkType ? `link_${linkType}` : 'standalone_mint',
+      messageKind: 'call'
     };
   }
 
@@ -49,7 +239,9 @@ export const detectSignal = async (text: string): Promise<SignalDetectionResult>
   return {
     isSignal: true,
     mints,
-    confidence: 0.6,
-    templateId: 'mint_with_text'
+    addresses,
+    confidence: linkType ? 0.7 : 0.6,
+    templateId: linkType ? `link_${linkType}` : 'mint_with_text',
+    messageKind: 'call'
   };
 };
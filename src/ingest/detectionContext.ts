@@ -0,0 +1,49 @@
+import { RawMessage } from '../generated/client';
+import { getGroupParsingRule } from '../db/groups';
+import { DetectionContext } from './classifier';
+import { getTextModel } from './textModelStore';
+import { logger } from '../utils/logger';
+
+const ADMIN_CACHE_TTL_MS = 10 * 60 * 1000;
+const ANONYMOUS_ADMIN_ID = '1087968824'; // @GroupAnonymousBot, sender of anonymous admin posts
+const adminCache = new Map<string, { adminIds: Set<string>; fetchedAt: number }>();
+
+// Chat admins via the Bot API, cached per chat. Null when the bot can't list them.
+const getChatAdminIds = async (chatId: bigint): Promise<Set<string> | null> => {
+  const key = chatId.toString();
+  const cached = adminCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < ADMIN_CACHE_TTL_MS) return cached.adminIds;
+  try {
+    const bot = (await import('../bot/instance')).getBotInstance();
+    const admins = await bot.telegram.getChatAdministrators(Number(chatId));
+    const adminIds = new Set(admins.map((a: any) => String(a.user.id)));
+    adminCache.set(key, { adminIds, fetchedAt: Date.now() });
+    return adminIds;
+  } catch (error) {
+    logger.debug(`Could not fetch admins for chat ${chatId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Detection context for a stored message: the group's parsing rules (and, for admins-only
+ * rules, whether the sender is a chat admin) plus the learned text model.
+ * Channel posts (no sender) count as admin posts; when the admins can't be listed, nobody does.
+ */
+export const getDetectionContext = async (message: RawMessage): Promise<DetectionContext> => {
+  const textModel = await getTextModel();
+  const rule = message.groupId ? await getGroupParsingRule(message.groupId) : null;
+  if (!rule) return { textModel };
+
+  let senderIsAdmin: boolean | undefined;
+  if (rule.adminsOnly) {
+    if (!message.senderId) {
+      senderIsAdmin = true;
+    } else {
+      const adminIds = await getChatAdminIds(message.chatId);
+      const senderId = message.senderId.toString();
+      senderIsAdmin = senderId === ANONYMOUS_ADMIN_ID ? true : !!adminIds?.has(senderId);
+    }
+  }
+  return { rules: rule, senderIsAdmin, textModel };
+};
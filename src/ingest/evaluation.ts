@@ -0,0 +1,157 @@
+// Offline evaluation of detectSignal against a labeled message corpus.
+// Pure apart from the classifier itself, so it runs from jest and from scripts alike.
+
+import { detectSignal, DetectionContext, GroupParsingRules } from './classifier';
+
+export interface LabeledMessage {
+  text: string;
+  isSignal: boolean;
+  group?: string; // Group name (or chat id) used for the per-group breakdown
+  rules?: GroupParsingRules | null; // Group parsing rules in effect when the message was labeled
+  note?: string;
+}
+
+export interface ClassificationMetrics {
+  total: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+}
+
+export interface Misclassification {
+  text: string;
+  group?: string;
+  expected: boolean;
+  templateId: string;
+}
+
+export interface EvaluationReport {
+  overall: ClassificationMetrics;
+  byTemplate: Record<string, ClassificationMetrics>; // Keyed by the templateId that decided
+  byGroup: Record<string, ClassificationMetrics>;
+  misclassified: Misclassification[];
+}
+
+// Stored floor for the overall metrics; a run fails when any of them drops below it
+export type EvaluationBaseline = Pick<ClassificationMetrics, 'precision' | 'recall' | 'f1' | 'accuracy'>;
+
+// Results without a templateId are rejections before any template ran (no address found)
+const NO_TEMPLATE = 'no_address';
+const UNGROUPED = 'ungrouped';
+
+type Counts = Pick<ClassificationMetrics, 'tp' | 'fp' | 'fn' | 'tn'>;
+
+const emptyCounts = (): Counts => ({ tp: 0, fp: 0, fn: 0, tn: 0 });
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Empty denominators score 1: a bucket with no positive predictions has no false positives either
+const toMetrics = ({ tp, fp, fn, tn }: Counts): ClassificationMetrics => {
+  const total = tp + fp + fn + tn;
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 1;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return {
+    total,
+    tp,
+    fp,
+    fn,
+    tn,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(f1),
+    accuracy: round(total > 0 ? (tp + tn) / total : 1),
+  };
+};
+
+const tally = (counts: Counts, expected: boolean, predicted: boolean) => {
+  if (predicted && expected) counts.tp++;
+  else if (predicted) counts.fp++;
+  else if (expected) counts.fn++;
+  else counts.tn++;
+};
+
+export const evaluateClassifier = async (
+  corpus: LabeledMessage[],
+  context: Omit<DetectionContext, 'rules'> = {}
+): Promise<EvaluationReport> => {
+  const overall = emptyCounts();
+  const byTemplate = new Map<string, Counts>();
+  const byGroup = new Map<string, Counts>();
+  const misclassified: Misclassification[] = [];
+
+  for (const message of corpus) {
+    const result = await detectSignal(message.text, { ...context, rules: message.rules });
+    const templateId = result.templateId || NO_TEMPLATE;
+    const group = message.group || UNGROUPED;
+
+    tally(overall, message.isSignal, result.isSignal);
+    if (!byTemplate.has(templateId)) byTemplate.set(templateId, emptyCounts());
+    tally(byTemplate.get(templateId)!, message.isSignal, result.isSignal);
+    if (!byGroup.has(group)) byGroup.set(group, emptyCounts());
+    tally(byGroup.get(group)!, message.isSignal, result.isSignal);
+
+    if (result.isSignal !== message.isSignal) {
+      misclassified.push({ text: message.text, group: message.group, expected: message.isSignal, templateId });
+    }
+  }
+
+  const toRecord = (buckets: Map<string, Counts>) =>
+    Object.fromEntries([...buckets.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, toMetrics(v)]));
+
+  return {
+    overall: toMetrics(overall),
+    byTemplate: toRecord(byTemplate),
+    byGroup: toRecord(byGroup),
+    misclassified,
+  };
+};
+
+/** Overall metrics that fell below the baseline by more than `tolerance`. */
+export const findRegressions = (
+  report: EvaluationReport,
+  baseline: EvaluationBaseline,
+  tolerance = 0.001
+): string[] => {
+  const keys: Array<keyof EvaluationBaseline> = ['precision', 'recall', 'f1', 'accuracy'];
+  return keys
+    .filter(key => report.overall[key] < baseline[key] - tolerance)
+    .map(key => `${key} ${report.overall[key].toFixed(4)} < baseline ${baseline[key].toFixed(4)}`);
+};
+
+export const toBaseline = (report: EvaluationReport): EvaluationBaseline => {
+  const { precision, recall, f1, accuracy } = report.overall;
+  return { precision, recall, f1, accuracy };
+};
+
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const row = (name: string, m: ClassificationMetrics) =>
+    `${name.padEnd(28)} ${String(m.total).padStart(5)} ${pct(m.precision)} ${pct(m.recall)} ${pct(m.f1)}  tp=${m.tp} fp=${m.fp} fn=${m.fn} tn=${m.tn}`;
+  const header = `${'bucket'.padEnd(28)} ${'n'.padStart(5)} ${'prec'.padStart(7)} ${'recall'.padStart(7)} ${'f1'.padStart(7)}`;
+
+  const lines = [
+    header,
+    row('overall', report.overall),
+    `accuracy: ${pct(report.overall.accuracy).trim()}`,
+    '',
+    'By template:',
+    ...Object.entries(report.byTemplate).map(([k, m]) => row(k, m)),
+    '',
+    'By group:',
+    ...Object.entries(report.byGroup).map(([k, m]) => row(k, m)),
+  ];
+  if (report.misclassified.length > 0) {
+    lines.push('', `Misclassified (${report.misclassified.length}):`);
+    for (const miss of report.misclassified) {
+      const text = miss.text.replace(/\s+/g, ' ').slice(0, 80);
+      lines.push(`  [${miss.expected ? 'FN' : 'FP'}] ${miss.templateId} ${miss.group ? `(${miss.group}) ` : ''}${text}`);
+    }
+  }
+  return lines.join('\n');
+};
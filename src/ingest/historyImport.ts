@@ -0,0 +1,109 @@
+import { readFile } from 'fs/promises';
+import { prisma } from '../db';
+import { createRawMessage, getMessage } from '../db/messages';
+import { createOrUpdateUser, getUserByUserId } from '../db/users';
+import { getAnyGroupByChatId } from '../db/groups';
+import { parseTelegramExport, resolveExportChatId, TelegramExport } from '../parsers/telegramExport';
+import { processMessage } from './processor';
+import { logger } from '../utils/logger';
+
+export interface HistoryImportOptions {
+  chatId?: bigint; // Override when the export's chat id can't be mapped
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface HistoryImportResult {
+  chatId: bigint;
+  groupName: string;
+  total: number;
+  imported: number;
+  skippedExisting: number;
+  signals: number;
+  errors: number;
+}
+
+/**
+ * Backfill a tracked group/channel from a Telegram Desktop export. Messages go through
+ * createRawMessage -> processMessage in historical mode (OHLCV entry at the message time,
+ * no notifications or forwarding). Already-ingested messages are skipped, so re-runs are safe.
+ */
+export const importTelegramExport = async (
+  data: TelegramExport,
+  options: HistoryImportOptions = {}
+): Promise<HistoryImportResult> => {
+  const chatId = options.chatId ?? resolveExportChatId(data);
+  if (!chatId) {
+    throw new Error('Could not determine chat id from export; pass it explicitly');
+  }
+
+  const group = await getAnyGroupByChatId(chatId);
+  if (!group) {
+    throw new Error(`Chat ${chatId} is not tracked. Add the group/channel to a workspace before importing.`);
+  }
+
+  let messages = parseTelegramExport(data).filter(m =>
+    (!options.since || m.sentAt >= options.since) && (!options.until || m.sentAt <= options.until)
+  );
+  if (options.limit) messages = messages.slice(-options.limit);
+
+  const result: HistoryImportResult = {
+    chatId,
+    groupName: group.name || data.name || `Chat ${chatId}`,
+    total: messages.length,
+    imported: 0,
+    skippedExisting: 0,
+    signals: 0,
+    errors: 0,
+  };
+  logger.info(`[HistoryImport] Importing ${messages.length} messages into ${result.groupName} (${chatId})`);
+
+  for (const msg of messages) {
+    try {
+      if (await getMessage(chatId, msg.messageId)) {
+        result.skippedExisting++;
+        continue;
+      }
+
+      // Don't overwrite live profile data with the export's display name
+      let userId: number | null = null;
+      if (msg.senderId) {
+        const user = await getUserByUserId(msg.senderId)
+          || await createOrUpdateUser(msg.senderId, { firstName: msg.senderName || undefined });
+        userId = user.id;
+      }
+
+      const rawMessage = await createRawMessage({
+        chatId,
+        messageId: msg.messageId,
+        senderId: msg.senderId,
+        sentAt: msg.sentAt,
+        editedAt: msg.editedAt,
+        rawText: msg.text,
+        isSignal: false,
+        // Exports only carry the origin's name; the original post date is unknown, so none is stored
+        ...(msg.forwardedFrom ? { forwardFromChatTitle: msg.forwardedFrom } : {}),
+        group: { connect: { id: group.id } },
+        ...(userId ? { user: { connect: { id: userId } } } : {}),
+      });
+      result.imported++;
+
+      await processMessage(rawMessage, { detectedAt: msg.sentAt, historical: true });
+      result.signals += await prisma.signal.count({ where: { chatId, messageId: msg.messageId } });
+    } catch (error) {
+      result.errors++;
+      logger.warn(`[HistoryImport] Failed to import message ${msg.messageId}:`, error);
+    }
+  }
+
+  logger.info(
+    `[HistoryImport] Done: ${result.imported} imported, ${result.skippedExisting} existing, ${result.signals} signals, ${result.errors} errors`
+  );
+  return result;
+};
+
+export const importTelegramExportFile = async (path: string, options: HistoryImportOptions = {}) => {
+  const data = JSON.parse(await readFile(path, 'utf8')) as TelegramExport;
+  return importTelegramExport(data, options);
+};
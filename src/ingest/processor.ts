@@ -1,7 +1,13 @@
 import { RawMessage, Prisma } from '../generated/client';
-import { detectSignal } from './classifier';
+import { detectSignal, SignalDetectionResult } from './classifier';
+import { getDetectionContext } from './detectionContext';
+import { checkSpam } from './spamFilter';
+import { ChainId } from '../parsers/mint';
+import { parseCallDetails, ParsedCallDetails } from '../parsers/callDetails';
 import { createSignal, getSignalByMint } from '../db/signals';
+import { recordTokenMetas } from '../db/tokens';
 import { provider } from '../providers';
+import { geckoTerminal } from '../providers/geckoTerminal';
 import { logger } from '../utils/logger';
 import { prisma } from '../db';
 import { notifySignal } from '../bot/notifier';
@@ -9,14 +15,32 @@ import { forwardSignalToDestination } from '../bot/forwarder';
 import { checkDuplicateCA } from '../bot/signalCard';
 import { detectEvents, sendEventAlerts } from '../bot/eventAlerts';
 
-const detectChain = (address: string): 'solana' | 'bsc' => {
+// 'all' = one signal per distinct mint in a message, 'first' = legacy first-mint-only behaviour
+const MULTI_MINT_MODE = (process.env.MULTI_MINT_MODE || 'all').toLowerCase();
+const MAX_MINTS_PER_MESSAGE = Number(process.env.MAX_MINTS_PER_MESSAGE ?? 5);
+
+const detectChain = (address: string): ChainId => {
   if (/^0x[a-fA-F0-9]{40}$/.test(address)) return 'bsc';
-  if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) return 'solana';
   return 'solana';
 };
 
-export const processMessage = async (message: RawMessage) => {
+// One signal per distinct mint (recap posts were already filtered by the classifier)
+export const selectSignalMints = (detection: SignalDetectionResult): string[] => {
+  if (!detection.isSignal) return [];
+  return MULTI_MINT_MODE === 'first'
+    ? detection.mints.slice(0, 1)
+    : detection.mints.slice(0, MAX_MINTS_PER_MESSAGE);
+};
+
+export interface ProcessMessageOptions {
+  detectedAt?: Date; // Detection time override (e.g. edit time when a CA first shows up in an edit)
+  previousText?: string; // Set when re-running detection on an edited message
+  historical?: boolean; // Imports/backfills: entry priced from OHLCV at detectedAt, no alerts, notifications or forwarding
+}
+
+export const processMessage = async (message: RawMessage, options: ProcessMessageOptions = {}) => {
   const { rawText, chatId, messageId } = message;
+  const detectedAt = options.detectedAt || new Date();
   
   logger.debug(`Processing message ${messageId} from chat ${chatId}: ${rawText?.substring(0, 50)}...`);
   
@@ -25,7 +49,9 @@ export const processMessage = async (message: RawMessage) => {
   let migrated = false;
   
   try {
-    const events = detectEvents(rawText);
+    // On edits only alert on events that were not already in the previous text
+    const previousEvents = options.previousText !== undefined ? detectEvents(options.previousText) : [];
+    const events = detectEvents(rawText).filter((e) => !previousEvents.includes(e));
     
     if (events.length > 0) {
       if (events.includes('dex_payment')) dexPaid = true;
@@ -37,7 +63,7 @@ export const processMessage = async (message: RawMessage) => {
       });
       const ownerTelegramId = rawMsg?.group?.owner?.userId;
       const settings = rawMsg?.group?.owner?.notificationSettings;
-      if (ownerTelegramId && settings) {
+      if (ownerTelegramId && settings && !options.historical) {
         const allowed = events.filter((e) => {
           if (e === 'dex_payment') return settings.alertDexPayment;
           if (e === 'bonding') return settings.alertBonding;
@@ -64,54 +90,117 @@ export const processMessage = async (message: RawMessage) => {
     logger.debug('Event detection error:', err);
   }
 
-  const detection = await detectSignal(rawText);
+  const detection = await detectSignal(rawText, await getDetectionContext(message));
   
   logger.debug(`Signal detection result: isSignal=${detection.isSignal}, mints=${detection.mints.length}, confidence=${detection.confidence}`);
+
+  // Suppressed posts create no signals, so they never count as mentions or confluence
+  const spamReason = detection.isSignal && detection.mints.length > 0 ? await checkSpam(message, detection.mints) : null;
   
   // Update raw message with detection result
   await prisma.rawMessage.update({
     where: { id: message.id },
     data: {
-      isSignal: detection.isSignal,
+      isSignal: detection.isSignal && !spamReason,
       parseConfidence: detection.confidence,
-      parsedTemplateId: detection.templateId
+      parsedTemplateId: detection.templateId,
+      spamReason
     }
   });
 
+  if (spamReason) {
+    logger.info(`Message ${messageId} in chat ${chatId} suppressed as spam (${spamReason})`);
+    return;
+  }
+
   if (!detection.isSignal || detection.mints.length === 0) {
     logger.debug(`Message ${messageId} is not a signal or has no mints`);
     return;
   }
   
-  logger.info(`Signal detected in message ${messageId}: ${detection.mints[0]}`);
+  const mints = selectSignalMints(detection);
+  if (detection.mints.length > mints.length) {
+    logger.info(`Message ${messageId} has ${detection.mints.length} mints; processing first ${mints.length} (mode=${MULTI_MINT_MODE})`);
+  }
+  logger.info(`Signal detected in message ${messageId}: ${mints.join(', ')}`);
+
+  const callDetails = parseCallDetails(rawText);
+  // Claimed MC/entry/targets are ambiguous when several tokens share one message
+  const mintCallDetails: ParsedCallDetails = mints.length === 1
+    ? callDetails
+    : { targets: [], category: callDetails.category };
+
+  // Edits re-run detection: only mints without a signal for this message are new
+  const existingSignals = await prisma.signal.findMany({
+    where: { chatId, messageId, mint: { in: mints } },
+    select: { mint: true },
+  });
+  const existingMints = new Set(existingSignals.map(s => s.mint));
+
+  for (const mint of mints) {
+    if (existingMints.has(mint)) {
+      logger.debug(`Signal for ${mint} already exists for message ${messageId}, skipping`);
+      continue;
+    }
+    const chain = detection.addresses.find(a => a.address === mint)?.chain || detectChain(mint);
+    await processSignalMint(message, {
+      mint,
+      chain,
+      callDetails: mintCallDetails,
+      dexPaid,
+      migrated,
+      detectedAt,
+      historical: !!options.historical,
+    });
+  }
+};
 
-  // Handle first mint found (simplification for v1, usually 1 mint per signal)
-  const mint = detection.mints[0];
+interface SignalMintContext {
+  mint: string;
+  chain: ChainId;
+  callDetails: ParsedCallDetails;
+  dexPaid: boolean;
+  migrated: boolean;
+  detectedAt: Date;
+  historical: boolean;
+}
+
+// Historical entries come from OHLCV at the message time, never from the current quote
+const getHistoricalQuote = async (mint: string, chain: ChainId, at: Date) => {
+  const price = chain === 'solana' ? await geckoTerminal.getPriceAt(mint, at) : null;
+  return { price: price || 0, source: 'geckoterminal_ohlcv' };
+};
+
+const processSignalMint = async (message: RawMessage, context: SignalMintContext) => {
+  const { chatId, messageId } = message;
+  const { mint, chain, callDetails, migrated, detectedAt, historical } = context;
+  let { dexPaid } = context;
 
   try {
-    // Check if signal already exists for this message? 
-    // DB constraint unique(chatId, messageId) handles duplicates on creation.
-    // But we might have processed it already.
+    // DB constraint unique(chatId, messageId, mint) handles duplicates on creation.
     
     // Fetch Metadata
     const meta = await provider.getTokenMeta(mint);
+    await recordTokenMetas({ [mint]: meta }, chain);
     
     // Fetch Price (Entry) and supply snapshots
     let entryPrice: number | null = null;
     let entryProvider = 'helius';
-    let trackingStatus: 'ACTIVE' | 'ENTRY_PENDING' = 'ACTIVE';
+    let trackingStatus: 'ACTIVE' | 'ENTRY_PENDING' | 'ENTRY_UNAVAILABLE' = 'ACTIVE';
     let entrySupply = meta.supply || null;
     let entryMarketCap: number | null = null;
     let tokenCreatedAt = meta.createdAt || meta.firstPoolCreatedAt || null;
 
     try {
-      const quote = await provider.getQuote(mint); // Prefer Jupiter (inside provider)
+      const quote = historical
+        ? await getHistoricalQuote(mint, chain, detectedAt)
+        : await provider.getQuote(mint); // Prefer Jupiter (inside provider)
       if (quote.price && quote.price > 0) {
         entryPrice = quote.price;
         entryProvider = quote.source;
         if (entryPrice && entrySupply) {
           entryMarketCap = entryPrice * entrySupply;
-        } else if (meta.marketCap) {
+        } else if (meta.marketCap && !historical) {
           entryMarketCap = meta.marketCap;
         }
       } else {
@@ -121,7 +210,7 @@ export const processMessage = async (message: RawMessage) => {
       logger.warn(`Failed to fetch entry price for ${mint}:`, err);
       trackingStatus = 'ENTRY_PENDING';
       entryPrice = null;
-      if (!entryMarketCap && meta.marketCap) {
+      if (!entryMarketCap && meta.marketCap && !historical) {
         entryMarketCap = meta.marketCap;
       }
     }
@@ -183,12 +272,16 @@ export const processMessage = async (message: RawMessage) => {
     let reuseEntryData = false;
     let earliestSignal: any = null; // Declare outside try block
     try {
-        const scopeWhere: any = { mint };
+        const scopeWhere: any = { mint, excludedAt: null };
         if (ownerForDuplicate) {
             scopeWhere.group = { ownerId: ownerForDuplicate };
         } else if (groupId) {
             scopeWhere.groupId = groupId;
         }
+        if (historical) {
+            // Imported history may predate signals we already track
+            scopeWhere.detectedAt = { lte: detectedAt };
+        }
 
         earliestSignal = await prisma.signal.findFirst({
             where: scopeWhere,
@@ -214,41 +307,62 @@ export const processMessage = async (message: RawMessage) => {
         logger.warn(`Failed to lookup earliest signal for ${mint}:`, err);
     }
 
+    // A past call has no entry unless OHLCV priced it then; the current quote would re-base it
+    if (historical && !entryPrice) {
+      trackingStatus = 'ENTRY_UNAVAILABLE';
+    }
+
     // Create Signal
     const signal = await createSignal({
       chatId,
       messageId,
       senderId: message.senderId,
       mint,
-      chain: detectChain(mint),
-      category: 'General', // TODO: Parse category from text
+      chain,
+      category: callDetails.category || 'General',
+      reportedMcapText: callDetails.reportedMcapText,
+      reportedMcap: callDetails.reportedMcap,
+      reportedPriceText: callDetails.reportedPriceText,
+      reportedPrice: callDetails.reportedPrice,
+      reportedTargets: callDetails.targets.length > 0 ? (callDetails.targets as any) : undefined,
       name: meta.name,
       symbol: meta.symbol,
       entryPrice,
       entryPriceAt: reuseEntryData
-        ? (earliestSignal?.entryPriceAt || earliestSignal?.detectedAt || (entryPrice ? new Date() : null))
-        : (entryPrice ? new Date() : null),
+        ? (earliestSignal?.entryPriceAt || earliestSignal?.detectedAt || (entryPrice ? detectedAt : null))
+        : (entryPrice ? detectedAt : null),
       entryPriceProvider: entryProvider,
       entryMarketCap,
       entrySupply,
       tokenCreatedAt,
       trackingStatus,
-      detectedAt: new Date(),
+      historical,
+      detectedAt,
       dexPaid,
       migrated: migrated || ((meta.audit?.devMigrations || 0) > 0),
       socials: meta.socialLinks || undefined,
+      forwardFromChatId: message.forwardFromChatId,
+      forwardFromChatTitle: message.forwardFromChatTitle,
+      forwardFromUserId: message.forwardFromUserId,
+      forwardAuthor: message.forwardAuthor,
+      forwardDate: message.forwardDate,
       ...(groupId ? { group: { connect: { id: groupId } } } : {}),
       ...(userId ? { user: { connect: { id: userId } } } : {}),
     });
 
     logger.info(`Signal created: ${signal.id} for ${mint} at ${entryPrice} from group ${chatId}`);
 
+    if (historical) return; // No live cards or forwarding for imported history
+
     // Check if this is a duplicate CA (workspace-scoped, exclude this signal)
     let duplicateCheck = await checkDuplicateCA(mint, ownerForDuplicate, groupId || undefined, signal.id);
     if (rawMsg?.group?.type === 'destination' && ownerForDuplicate) {
       const firstSignal = await prisma.signal.findFirst({
         where: {
           mint,
+          forwardDate: null,
+          forwardFromChatTitle: null,
+          excludedAt: null,
           group: {
             ownerId: ownerForDuplicate,
             type: 'source',
@@ -290,13 +404,13 @@ export const processMessage = async (message: RawMessage) => {
 
   } catch (error) {
     if ((error as any).code === 'P2002') {
-      logger.debug(`Signal already exists for message ${messageId}`);
+      logger.debug(`Signal already exists for message ${messageId} (${mint})`);
     } else {
       logger.error(`Error creating signal for message ${messageId}:`, error);
       logger.error('Error details:', {
         messageId,
         chatId,
-        mint: detection.mints[0],
+        mint,
         error: (error as Error).message,
         stack: (error as Error).stack,
       });
@@ -0,0 +1,149 @@
+import { prisma } from '../db';
+import { deleteSignals } from '../db/signals';
+import { detectSignal } from './classifier';
+import { getDetectionContext } from './detectionContext';
+import { processMessage, selectSignalMints } from './processor';
+import { checkSpam } from './spamFilter';
+import { logger } from '../utils/logger';
+
+const MAX_MESSAGES = 5000;
+
+export interface ReprocessScope {
+  groupId: number;
+  since?: Date;
+  until?: Date;
+}
+
+export interface ReprocessChange {
+  rawMessageId: number;
+  messageId: number;
+  sentAt: Date;
+  mint: string;
+  templateId?: string;
+  signalId?: number; // Set for signals that would be removed
+}
+
+export interface ReprocessPlan {
+  scope: ReprocessScope;
+  chatId: bigint;
+  groupName: string;
+  scanned: number;
+  truncated: boolean;
+  added: ReprocessChange[]; // Detected now, no signal yet
+  removed: ReprocessChange[]; // Signal exists, no longer detected
+  reclassifiedMessageIds: number[]; // RawMessage ids whose stored detection differs
+}
+
+export interface ReprocessResult {
+  created: number;
+  removed: number;
+  reprocessed: number; // Messages re-run through processMessage
+}
+
+/**
+ * Replay stored messages of a group through the current classifier and diff the result
+ * against existing signals. Read-only: nothing changes until applyReprocess.
+ */
+export const planReprocess = async (scope: ReprocessScope): Promise<ReprocessPlan> => {
+  const group = await prisma.group.findUnique({ where: { id: scope.groupId } });
+  if (!group) throw new Error(`Group ${scope.groupId} not found`);
+
+  const messages = await prisma.rawMessage.findMany({
+    where: {
+      chatId: group.chatId,
+      ...(scope.since || scope.until
+        ? { sentAt: { ...(scope.since ? { gte: scope.since } : {}), ...(scope.until ? { lte: scope.until } : {}) } }
+        : {}),
+    },
+    orderBy: { sentAt: 'asc' },
+    take: MAX_MESSAGES + 1,
+  });
+  const truncated = messages.length > MAX_MESSAGES;
+  if (truncated) messages.length = MAX_MESSAGES;
+
+  const signals = await prisma.signal.findMany({
+    where: { chatId: group.chatId, messageId: { in: messages.map(m => m.messageId) } },
+    select: { id: true, messageId: true, mint: true },
+  });
+  const signalsByMessage = new Map<number, typeof signals>();
+  for (const s of signals) {
+    if (!signalsByMessage.has(s.messageId)) signalsByMessage.set(s.messageId, []);
+    signalsByMessage.get(s.messageId)!.push(s);
+  }
+
+  const plan: ReprocessPlan = {
+    scope,
+    chatId: group.chatId,
+    groupName: group.name || `Chat ${group.chatId}`,
+    scanned: messages.length,
+    truncated,
+    added: [],
+    removed: [],
+    reclassifiedMessageIds: [],
+  };
+
+  for (const message of messages) {
+    const detection = await detectSignal(message.rawText, await getDetectionContext(message));
+    const spamReason = detection.isSignal && detection.mints.length > 0 ? await checkSpam(message, detection.mints) : null;
+    const mints = spamReason ? [] : selectSignalMints(detection);
+    const existing = signalsByMessage.get(message.messageId) || [];
+    const base = { rawMessageId: message.id, messageId: message.messageId, sentAt: message.sentAt };
+
+    for (const mint of mints) {
+      if (!existing.some(s => s.mint === mint)) {
+        plan.added.push({ ...base, mint, templateId: detection.templateId });
+      }
+    }
+    for (const s of existing) {
+      if (!mints.includes(s.mint)) {
+        plan.removed.push({ ...base, mint: s.mint, templateId: detection.templateId, signalId: s.id });
+      }
+    }
+    if (
+      message.isSignal !== (detection.isSignal && !spamReason) ||
+      message.spamReason !== spamReason ||
+      (message.parsedTemplateId || undefined) !== detection.templateId
+    ) {
+      plan.reclassifiedMessageIds.push(message.id);
+    }
+  }
+
+  logger.info(
+    `[Reprocess] ${plan.groupName}: scanned ${plan.scanned}, +${plan.added.length} / -${plan.removed.length} signals, ${plan.reclassifiedMessageIds.length} reclassified`
+  );
+  return plan;
+};
+
+/**
+ * Apply a reviewed plan: missing signals are created in historical mode (entry from OHLCV at
+ * the message time, marked historical so thresholds are recorded without alerts, no forwarding)
+ * and dropped detections are deleted.
+ */
+export const applyReprocess = async (plan: ReprocessPlan): Promise<ReprocessResult> => {
+  const rawMessageIds = [...new Set([...plan.added.map(c => c.rawMessageId), ...plan.reclassifiedMessageIds])];
+  const messages = await prisma.rawMessage.findMany({
+    where: { id: { in: rawMessageIds } },
+    orderBy: { sentAt: 'asc' },
+  });
+
+  const before = await prisma.signal.count({
+    where: { chatId: plan.chatId, messageId: { in: plan.added.map(c => c.messageId) } },
+  });
+  for (const message of messages) {
+    try {
+      // processMessage skips mints that already have a signal and refreshes the stored detection
+      await processMessage(message, { detectedAt: message.sentAt, historical: true });
+    } catch (error) {
+      logger.warn(`[Reprocess] Failed to reprocess message ${message.messageId}:`, error);
+    }
+  }
+  const after = await prisma.signal.count({
+    where: { chatId: plan.chatId, messageId: { in: plan.added.map(c => c.messageId) } },
+  });
+
+  const removed = await deleteSignals(plan.removed.map(c => c.signalId!).filter(Boolean));
+
+  const result = { created: after - before, removed, reprocessed: messages.length };
+  logger.info(`[Reprocess] ${plan.groupName}: created ${result.created}, removed ${result.removed}, reprocessed ${result.reprocessed} messages`);
+  return result;
+};
@@ -0,0 +1,94 @@
+import { RawMessage } from '../generated/client';
+import { prisma } from '../db';
+
+export type SpamReason = 'bot_sender' | 'raid' | 'repeat' | 'copy_paste' | 'burst';
+
+const REPEAT_WINDOW_MS = Number(process.env.SPAM_REPEAT_WINDOW_HOURS ?? 24) * 60 * 60 * 1000;
+const BURST_WINDOW_MS = Number(process.env.SPAM_BURST_WINDOW_SECONDS ?? 60) * 1000;
+const BURST_MAX_MESSAGES = Number(process.env.SPAM_BURST_MAX_MESSAGES ?? 4);
+// Identical text from different senders only counts as copy-paste once it is long enough to be a template
+const COPY_PASTE_MIN_LENGTH = 60;
+
+// Usernames (without @) or Telegram user IDs of known shill bots and spam accounts
+const KNOWN_BOT_SENDERS = new Set(
+  (process.env.SPAM_BOT_SENDERS || '').split(',').map(s => s.trim().replace(/^@/, '').toLowerCase()).filter(Boolean)
+);
+// Bots whose posts are real calls (e.g. a group's own call bot)
+const ALLOWED_BOT_SENDERS = new Set(
+  (process.env.SPAM_BOT_ALLOWLIST || '').split(',').map(s => s.trim().replace(/^@/, '').toLowerCase()).filter(Boolean)
+);
+// @GroupAnonymousBot and @Channel_Bot post on behalf of admins and linked channels
+const SERVICE_BOT_IDS = new Set(['1087968824', '136817688']);
+
+const TWEET_LINK = /(?:twitter\.com|x\.com)\/\w+\/status\/\d+/i;
+const RAID_WORDS = /\b(?:raid(?:ing|ers?)?|shill(?:ing)?\s+(?:it|this|now|hard))\b/i;
+const ENGAGEMENT_WORDS = /\b(?:like|likes|rt|retweet|reply|replies|comment|engage|smash)\b/i;
+
+/** Raid/shill templates: "RAID 🚨 like + RT <tweet>", "shill it in every chat" */
+export const matchesRaidTemplate = (text: string): boolean =>
+  RAID_WORDS.test(text) || (TWEET_LINK.test(text) && ENGAGEMENT_WORDS.test(text));
+
+/**
+ * Bot accounts (Telegram's from.is_bot) and configured spam accounts, matched by name or ID. A
+ * username ending in "bot" alone proves nothing; relay and call bots are kept via the allowlist.
+ */
+export const isKnownBotSender = (senderId: bigint | null, senderUsername: string | null, senderIsBot = false): boolean => {
+  const id = senderId?.toString();
+  const username = senderUsername?.toLowerCase();
+  if (id && SERVICE_BOT_IDS.has(id)) return false;
+  if ((id && ALLOWED_BOT_SENDERS.has(id)) || (username && ALLOWED_BOT_SENDERS.has(username))) return false;
+  if ((id && KNOWN_BOT_SENDERS.has(id)) || (username && KNOWN_BOT_SENDERS.has(username))) return true;
+  return senderIsBot;
+};
+
+// Case, whitespace and emoji-insensitive form used to compare posts
+export const normalizeForRepeat = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Ingest spam filter for candidate signal messages (`mints` = detected addresses). Windows are
+ * anchored on the message's own sentAt so historical imports and reprocessing judge messages
+ * as they were posted. Returns the suppression reason, or null when the message counts.
+ */
+export const checkSpam = async (message: RawMessage, mints: string[]): Promise<SpamReason | null> => {
+  if (isKnownBotSender(message.senderId, message.senderUsername, message.senderIsBot)) return 'bot_sender';
+  if (matchesRaidTemplate(message.rawText)) return 'raid';
+
+  const normalized = normalizeForRepeat(message.rawText);
+  const earlier = await prisma.rawMessage.findMany({
+    where: {
+      chatId: message.chatId,
+      id: { not: message.id },
+      sentAt: { gte: new Date(message.sentAt.getTime() - REPEAT_WINDOW_MS), lte: message.sentAt },
+      // Only earlier copies are repeats; the first post of a text still counts
+      AND: [
+        { OR: [{ sentAt: { lt: message.sentAt } }, { messageId: { lt: message.messageId } }] },
+        // A repeat necessarily carries one of the same addresses
+        { OR: mints.map(mint => ({ rawText: { contains: mint, mode: 'insensitive' as const } })) },
+      ],
+    },
+    select: { senderId: true, rawText: true },
+    orderBy: { sentAt: 'desc' },
+    take: 200,
+  });
+  for (const prior of earlier) {
+    if (normalizeForRepeat(prior.rawText) !== normalized) continue;
+    if (message.senderId && prior.senderId === message.senderId) return 'repeat';
+    if (normalized.length >= COPY_PASTE_MIN_LENGTH) return 'copy_paste';
+  }
+
+  if (message.senderId) {
+    // Other CA posts (counted or suppressed) by the same sender just before this one
+    const recent = await prisma.rawMessage.count({
+      where: {
+        chatId: message.chatId,
+        senderId: message.senderId,
+        id: { not: message.id },
+        sentAt: { gte: new Date(message.sentAt.getTime() - BURST_WINDOW_MS), lte: message.sentAt },
+        OR: [{ isSignal: true }, { spamReason: { not: null } }],
+      },
+    });
+    if (recent >= BURST_MAX_MESSAGES) return 'burst';
+  }
+  return null;
+};
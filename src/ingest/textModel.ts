@@ -0,0 +1,75 @@
+// Multinomial naive Bayes over message tokens, trained on labeled RawMessages.
+// Pure: training data is passed in, so the model can be rebuilt anywhere (and tested).
+
+export type TextLabel = 'signal' | 'not_signal';
+
+export interface LabeledText {
+  text: string;
+  label: TextLabel;
+}
+
+export interface TextModel {
+  docCounts: Record<TextLabel, number>;
+  tokenCounts: Record<TextLabel, Map<string, number>>;
+  totalTokens: Record<TextLabel, number>;
+  vocabularySize: number;
+}
+
+const MIN_EXAMPLES_PER_LABEL = 20;
+
+/**
+ * Normalize addresses, links and numbers into placeholder tokens so the model learns
+ * the shape of a call ("entry <num>k <addr>") rather than specific tokens.
+ */
+export const tokenize = (text: string): string[] => {
+  const normalized = text
+    .replace(/\b0x[a-fA-F0-9]{40}\b/g, ' __addr ')
+    .replace(/[1-9A-HJ-NP-Za-km-z]{32,44}/g, ' __addr ')
+    .toLowerCase()
+    .replace(/https?:\/\/(?:www\.)?([a-z0-9.-]+)\S*/g, ' __url_$1 ')
+    .replace(/\d+(?:[.,]\d+)?/g, ' __num ');
+  return normalized.match(/[a-z_$#.-]{2,30}/g) || [];
+};
+
+export const trainTextModel = (examples: LabeledText[]): TextModel => {
+  const model: TextModel = {
+    docCounts: { signal: 0, not_signal: 0 },
+    tokenCounts: { signal: new Map(), not_signal: new Map() },
+    totalTokens: { signal: 0, not_signal: 0 },
+    vocabularySize: 0,
+  };
+  const vocabulary = new Set<string>();
+  for (const { text, label } of examples) {
+    model.docCounts[label]++;
+    for (const token of tokenize(text)) {
+      vocabulary.add(token);
+      model.tokenCounts[label].set(token, (model.tokenCounts[label].get(token) || 0) + 1);
+      model.totalTokens[label]++;
+    }
+  }
+  model.vocabularySize = vocabulary.size;
+  return model;
+};
+
+/** Too few examples of either label to trust the model */
+export const isModelReady = (model: TextModel): boolean =>
+  model.docCounts.signal >= MIN_EXAMPLES_PER_LABEL && model.docCounts.not_signal >= MIN_EXAMPLES_PER_LABEL;
+
+/** P(signal | text) with Laplace smoothing, computed in log space. */
+export const predictSignalProbability = (model: TextModel, text: string): number => {
+  const totalDocs = model.docCounts.signal + model.docCounts.not_signal;
+  if (totalDocs === 0) return 0.5;
+
+  const logScore = (label: TextLabel) => {
+    let score = Math.log((model.docCounts[label] + 1) / (totalDocs + 2));
+    const denominator = model.totalTokens[label] + model.vocabularySize + 1;
+    for (const token of tokenize(text)) {
+      score += Math.log(((model.tokenCounts[label].get(token) || 0) + 1) / denominator);
+    }
+    return score;
+  };
+
+  const signal = logScore('signal');
+  const notSignal = logScore('not_signal');
+  return 1 / (1 + Math.exp(notSignal - signal));
+};
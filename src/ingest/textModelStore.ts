@@ -0,0 +1,70 @@
+import { prisma } from '../db';
+import { logger } from '../utils/logger';
+import { LabeledText, TextModel, trainTextModel, isModelReady } from './textModel';
+
+const MODEL_TTL_MS = 60 * 60 * 1000;
+const MAX_EXAMPLES_PER_LABEL = 5000;
+// Detected signals nobody flagged within a day count as implicit positives
+export const IMPLICIT_POSITIVE_AGE_MS = 24 * 60 * 60 * 1000;
+
+let cached: { model: TextModel | null; trainedAt: number } | null = null;
+let training: Promise<TextModel | null> | null = null;
+
+const train = async (): Promise<TextModel | null> => {
+  const [negatives, positives, implicitPositives] = await Promise.all([
+    prisma.rawMessage.findMany({
+      where: { label: 'not_signal' },
+      select: { rawText: true },
+      orderBy: { labeledAt: 'desc' },
+      take: MAX_EXAMPLES_PER_LABEL,
+    }),
+    prisma.rawMessage.findMany({
+      where: { label: 'signal' },
+      select: { rawText: true },
+      orderBy: { labeledAt: 'desc' },
+      take: MAX_EXAMPLES_PER_LABEL,
+    }),
+    prisma.rawMessage.findMany({
+      where: { label: null, isSignal: true, sentAt: { lt: new Date(Date.now() - IMPLICIT_POSITIVE_AGE_MS) } },
+      select: { rawText: true },
+      orderBy: { sentAt: 'desc' },
+      take: MAX_EXAMPLES_PER_LABEL,
+    }),
+  ]);
+
+  const examples: LabeledText[] = [
+    ...negatives.map(m => ({ text: m.rawText, label: 'not_signal' as const })),
+    ...[...positives, ...implicitPositives]
+      .slice(0, MAX_EXAMPLES_PER_LABEL)
+      .map(m => ({ text: m.rawText, label: 'signal' as const })),
+  ];
+  const model = trainTextModel(examples);
+  logger.info(`[TextModel] Trained on ${model.docCounts.signal} signal / ${model.docCounts.not_signal} not-signal examples`);
+  return isModelReady(model) ? model : null;
+};
+
+/** Cached text model; null until there are enough labeled examples of both kinds. */
+export const getTextModel = async (): Promise<TextModel | null> => {
+  if (cached && Date.now() - cached.trainedAt < MODEL_TTL_MS) return cached.model;
+  if (!training) {
+    training = train()
+      .then(model => {
+        cached = { model, trainedAt: Date.now() };
+        return model;
+      })
+      .catch(error => {
+        logger.warn('[TextModel] Training failed:', error);
+        cached = { model: null, trainedAt: Date.now() };
+        return null;
+      })
+      .finally(() => {
+        training = null;
+      });
+  }
+  return training;
+};
+
+// Retrain on next use (e.g. after a new label)
+export const invalidateTextModel = () => {
+  cached = null;
+};
@@ -18,10 +18,11 @@ export const runAggregationCycle = async () => {
       const cutoff = new Date();
       cutoff.setDate(cutoff.getDate() - window.days);
 
-      // Get all categories (currently just 'General')
+      // Get all categories (parsed from call text; 'General' when no narrative was found)
       const categories = await prisma.signal.groupBy({
         by: ['category'],
         where: {
+          excludedAt: null,
           OR: [
             { entryPriceAt: { gte: cutoff } },
             { entryPriceAt: null, detectedAt: { gte: cutoff } }
@@ -35,7 +36,8 @@ export const runAggregationCycle = async () => {
         // Fetch stats
         const signals = await prisma.signal.findMany({
           where: {
-            category,
+            excludedAt: null,
+            category: cat.category,
             OR: [
               { entryPriceAt: { gte: cutoff } },
               { entryPriceAt: null, detectedAt: { gte: cutoff } }
@@ -43,7 +45,7 @@ export const runAggregationCycle = async () => {
           },
           include: {
             metrics: true,
-            thresholdEvents: true
+            thresholdEvents: { where: { basis: 'price' } }
           }
         });
 
@@ -2,6 +2,18 @@ import { prisma } from '../db';
 import { geckoTerminal, OHLCV } from '../providers/geckoTerminal';
 import { getMultipleTokenPrices } from '../providers/jupiter';
 import { logger } from '../utils/logger';
+import { rateLimiter, withPriority } from '../providers/rateLimiter';
+import {
+  BackfillMintResult,
+  createBackfillRun,
+  getBackfillRun,
+  getInterruptedBackfillRuns,
+  getLatestBackfillRun,
+  getPendingBackfillMints,
+  recordBackfillMint,
+  requestBackfillStop,
+  updateBackfillRun,
+} from '../db/backfillRuns';
 import { getEntryTime } from '../analytics/metricsUtils';
 
 // ============================================================================
@@ -34,10 +46,12 @@ export interface BackfillProgress {
   errorCount: number;
   skippedCount: number;
   lastError: string | null;
-  
-  // Rate limiting
-  ohlcvCallsRemaining: number;
-  ohlcvCallsTotal: number;
+}
+
+interface AthBackfillOptions {
+  batchSize?: number;
+  onlyActiveSince?: string; // ISO date; options are stored as JSON on the run
+  forceRefresh?: boolean;
 }
 
 interface MintEntry {
@@ -56,43 +70,57 @@ interface MintEntry {
 // STATE MANAGEMENT
 // ============================================================================
 
-const backfillState: BackfillProgress = {
-  status: 'idle',
-  phase: 'init',
-  totalMints: 0,
-  processedMints: 0,
-  totalSignals: 0,
-  processedSignals: 0,
-  currentMint: null,
-  currentBatchIndex: 0,
-  batchSize: 50,
-  startedAt: null,
-  updatedAt: null,
-  endedAt: null,
-  estimatedTimeRemaining: null,
-  athUpdatedCount: 0,
-  errorCount: 0,
-  skippedCount: 0,
-  lastError: null,
-  ohlcvCallsRemaining: 0,
-  ohlcvCallsTotal: 0
-};
-
-let backfillAbortController: AbortController | null = null;
-
-export const getBackfillProgress = (): BackfillProgress => ({ ...backfillState });
-
-const updateProgress = (patch: Partial<BackfillProgress>) => {
-  Object.assign(backfillState, patch);
-  backfillState.updatedAt = new Date();
-  
-  // Calculate ETA
-  if (backfillState.status === 'running' && backfillState.processedMints > 0) {
-    const elapsed = Date.now() - (backfillState.startedAt?.getTime() || Date.now());
-    const avgPerMint = elapsed / backfillState.processedMints;
-    const remaining = backfillState.totalMints - backfillState.processedMints;
-    backfillState.estimatedTimeRemaining = avgPerMint * remaining;
+/** Progress of the latest ATH backfill run, from the database (any process may be running it). */
+export const getBackfillProgress = async (): Promise<BackfillProgress> => {
+  const run = await getLatestBackfillRun('ath');
+  if (!run) {
+    return {
+      status: 'idle',
+      phase: 'init',
+      totalMints: 0,
+      processedMints: 0,
+      totalSignals: 0,
+      processedSignals: 0,
+      currentMint: null,
+      currentBatchIndex: 0,
+      batchSize: 50,
+      startedAt: null,
+      updatedAt: null,
+      endedAt: null,
+      estimatedTimeRemaining: null,
+      athUpdatedCount: 0,
+      errorCount: 0,
+      skippedCount: 0,
+      lastError: null
+    };
   }
+
+  const options = run.options as AthBackfillOptions;
+  const batchSize = options.batchSize || 50;
+  // ETA from the average time per mint so far
+  const elapsed = (run.endedAt || run.updatedAt).getTime() - run.startedAt.getTime();
+  const estimatedTimeRemaining = run.status === 'running' && run.processedMints > 0
+    ? (elapsed / run.processedMints) * (run.totalMints - run.processedMints)
+    : null;
+  return {
+    status: run.status as BackfillProgress['status'],
+    phase: (run.phase || 'init') as BackfillProgress['phase'],
+    totalMints: run.totalMints,
+    processedMints: run.processedMints,
+    totalSignals: run.totalSignals,
+    processedSignals: run.processedSignals,
+    currentMint: run.currentMint,
+    currentBatchIndex: Math.floor(run.processedMints / batchSize),
+    batchSize,
+    startedAt: run.startedAt,
+    updatedAt: run.updatedAt,
+    endedAt: run.endedAt,
+    estimatedTimeRemaining,
+    athUpdatedCount: run.athUpdated,
+    errorCount: run.errors,
+    skippedCount: run.skipped,
+    lastError: run.lastError
+  };
 };
 
 // ============================================================================
@@ -467,150 +495,191 @@ const processMintBackfill = async (
 // MAIN BACKFILL FUNCTION
 // ============================================================================
 
+// Signals with entry data grouped by mint, earliest entry first (optionally only `mints`)
+const loadMints = async (options: AthBackfillOptions, mints?: string[]): Promise<MintEntry[]> => {
+  const whereClause: any = {
+    entryPrice: { not: null, gt: 0 }
+  };
+  
+  if (options.onlyActiveSince) {
+    const since = new Date(options.onlyActiveSince);
+    whereClause.OR = [
+      { entryPriceAt: { gte: since } },
+      { entryPriceAt: null, detectedAt: { gte: since } }
+    ];
+  }
+  
+  // Skip if metrics already exist and forceRefresh is false
+  if (!options.forceRefresh) {
+    whereClause.OR = [
+      { metrics: null },
+      { metrics: { athPrice: { lte: 0 } } },
+      { metrics: { athMultiple: { lte: 1 } } }
+    ];
+  }
+  if (mints) {
+    whereClause.mint = { in: mints };
+  }
+  
+  const signals = await prisma.signal.findMany({
+    where: whereClause,
+    select: {
+      id: true,
+      mint: true,
+      entryPrice: true,
+      entrySupply: true,
+      entryMarketCap: true,
+      entryPriceAt: true,
+      detectedAt: true
+    },
+    orderBy: { detectedAt: 'asc' }
+  });
+  
+  // Group by mint and find earliest entry for each
+  const mintMap = new Map<string, MintEntry>();
+  
+  for (const sig of signals) {
+    if (!sig.entryPrice || sig.entryPrice <= 0) continue;
+    
+    const entryTime = getEntryTime(sig);
+    if (!entryTime) continue;
+    
+    const entryTimestamp = entryTime.getTime();
+    
+    if (!mintMap.has(sig.mint)) {
+      mintMap.set(sig.mint, {
+        mint: sig.mint,
+        signals: [],
+        earliestEntry: entryTimestamp
+      });
+    }
+    
+    const entry = mintMap.get(sig.mint)!;
+    entry.signals.push({
+      id: sig.id,
+      entryPrice: sig.entryPrice,
+      entrySupply: sig.entrySupply,
+      entryMarketCap: sig.entryMarketCap,
+      entryTimestamp
+    });
+    
+    if (entryTimestamp < entry.earliestEntry) {
+      entry.earliestEntry = entryTimestamp;
+    }
+  }
+  
+  return Array.from(mintMap.values());
+};
+
 /**
- * Starts the full ATH backfill process.
- * 
- * Flow:
- * 1. Get all signals with entry data
- * 2. Deduplicate by mint (one entry per unique mint)
- * 3. For each mint, fetch OHLCV from earliest entry to now
- * 4. Process all signals for that mint
- * 5. Update progress and continue
+ * Plans a full ATH backfill run (one row per unique mint) and queues it for a worker.
+ * Returns null when a backfill is already running.
  */
 export const startAthBackfill = async (options?: {
   batchSize?: number;
   onlyActiveSince?: Date;
   forceRefresh?: boolean;
 }) => {
-  // Check if already running
-  if (backfillState.status === 'running') {
+  if ((await getInterruptedBackfillRuns()).length > 0) {
     logger.warn('[ATH Backfill] Backfill already running');
-    return;
+    return null;
   }
   
-  // Create abort controller for cancellation
-  backfillAbortController = new AbortController();
-  const abortSignal = backfillAbortController.signal;
+  const runOptions: AthBackfillOptions = {
+    batchSize: options?.batchSize || 50,
+    onlyActiveSince: options?.onlyActiveSince?.toISOString(),
+    forceRefresh: options?.forceRefresh
+  };
+  const mints = await loadMints(runOptions);
+  const run = await createBackfillRun(
+    'ath',
+    { ...runOptions },
+    mints.map(m => ({ mint: m.mint, signals: m.signals.length }))
+  );
+  logger.info(`[ATH Backfill] Planned run #${run.id}: ${run.totalMints} mints, ${run.totalSignals} signals`);
+  
+  const { enqueueBackfillRun } = await import('./index');
+  await enqueueBackfillRun(run.id);
+  return run;
+};
+
+/**
+ * Runs the full ATH backfill for run `runId` (worker side).
+ * 
+ * Flow:
+ * 1. Load the run's pending mints and their signals
+ * 2. For each mint, fetch OHLCV from earliest entry to now
+ * 3. Process all signals for that mint
+ * 4. Store the mint's result and continue
+ * 
+ * Results are stored per mint, so a run interrupted by a restart continues with the mints
+ * still pending. A stop request (run paused) ends it after the mints in flight; `shutdown`
+ * ends it the same way but leaves it running, so it is resumed.
+ */
+export const runAthBackfill = (runId: number, shutdown?: AbortSignal) => withPriority('backfill', async () => {
+  const run = await getBackfillRun(runId);
+  if (!run || run.status === 'complete' || run.status === 'paused' || shutdown?.aborted) return;
   
-  const batchSize = options?.batchSize || 50;
+  const options = run.options as AthBackfillOptions;
+  const batchSize = options.batchSize || 50;
+  const abortController = new AbortController();
+  const abortSignal = abortController.signal;
+  const onShutdown = () => abortController.abort();
+  shutdown?.addEventListener('abort', onShutdown, { once: true });
+  const stopReason = () => (shutdown?.aborted ? 'interrupted by shutdown, resumes from its pending mints' : 'stopped by user');
   
   try {
-    logger.info('[ATH Backfill] Starting full ATH backfill...');
+    const pending = await getPendingBackfillMints(runId);
+    const resumed = run.processedMints > 0 || run.status === 'error';
+    logger.info(resumed
+      ? `[ATH Backfill] Resuming run #${runId}: ${pending.length}/${run.totalMints} mints left`
+      : `[ATH Backfill] Starting full ATH backfill run #${runId}...`);
     
-    // Initialize progress
-    updateProgress({
+    await updateBackfillRun(runId, {
       status: 'running',
       phase: 'init',
-      startedAt: new Date(),
       endedAt: null,
-      athUpdatedCount: 0,
-      errorCount: 0,
-      skippedCount: 0,
-      lastError: null,
-      batchSize
-    });
-    
-    // Step 1: Get all signals with entry data
-    const whereClause: any = {
-      entryPrice: { not: null, gt: 0 }
-    };
-    
-    if (options?.onlyActiveSince) {
-      whereClause.OR = [
-        { entryPriceAt: { gte: options.onlyActiveSince } },
-        { entryPriceAt: null, detectedAt: { gte: options.onlyActiveSince } }
-      ];
-    }
-    
-    // Skip if metrics already exist and forceRefresh is false
-    if (!options?.forceRefresh) {
-      whereClause.OR = [
-        { metrics: null },
-        { metrics: { athPrice: { lte: 0 } } },
-        { metrics: { athMultiple: { lte: 1 } } }
-      ];
-    }
-    
-    const signals = await prisma.signal.findMany({
-      where: whereClause,
-      select: {
-        id: true,
-        mint: true,
-        entryPrice: true,
-        entrySupply: true,
-        entryMarketCap: true,
-        entryPriceAt: true,
-        detectedAt: true
-      },
-      orderBy: { detectedAt: 'asc' }
+      ...(resumed ? { resumedCount: { increment: 1 } } : {})
     });
     
-    logger.info(`[ATH Backfill] Found ${signals.length} signals to process`);
+    const mints = await loadMints(options, pending);
     
-    // Step 2: Group by mint and find earliest entry for each
-    const mintMap = new Map<string, MintEntry>();
-    
-    for (const sig of signals) {
-      if (!sig.entryPrice || sig.entryPrice <= 0) continue;
-      
-      const entryTime = getEntryTime(sig);
-      if (!entryTime) continue;
-      
-      const entryTimestamp = entryTime.getTime();
-      
-      if (!mintMap.has(sig.mint)) {
-        mintMap.set(sig.mint, {
-          mint: sig.mint,
-          signals: [],
-          earliestEntry: entryTimestamp
-        });
-      }
-      
-      const entry = mintMap.get(sig.mint)!;
-      entry.signals.push({
-        id: sig.id,
-        entryPrice: sig.entryPrice,
-        entrySupply: sig.entrySupply,
-        entryMarketCap: sig.entryMarketCap,
-        entryTimestamp
-      });
-      
-      if (entryTimestamp < entry.earliestEntry) {
-        entry.earliestEntry = entryTimestamp;
-      }
+    // Mints whose signals no longer need an ATH (or were deleted) since planning
+    const loaded = new Set(mints.map(m => m.mint));
+    for (const mint of pending.filter(m => !loaded.has(m))) {
+      await recordBackfillMint(runId, mint, { status: 'done', signals: 0, athUpdated: 0, errors: 0, skipped: 0 });
     }
     
-    const mints = Array.from(mintMap.values());
-    const totalSignals = signals.length;
-    const totalMints = mints.length;
+    await updateBackfillRun(runId, { phase: 'ohlcv_fetch' });
     
-    updateProgress({
-      phase: 'ohlcv_fetch',
-      totalMints,
-      totalSignals,
-      processedMints: 0,
-      processedSignals: 0,
-      ohlcvCallsTotal: totalMints,
-      ohlcvCallsRemaining: totalMints
-    });
+    logger.info(`[ATH Backfill] Processing ${mints.length} unique mints for ${mints.reduce((n, m) => n + m.signals.length, 0)} signals`);
     
-    logger.info(`[ATH Backfill] Processing ${totalMints} unique mints for ${totalSignals} signals`);
+    const record = async (mint: string, result: BackfillMintResult) => {
+      const current = await recordBackfillMint(
+        runId,
+        mint,
+        result,
+        rateLimiter.getBudget()
+      );
+      if (current.status !== 'running') abortController.abort();
+      return current;
+    };
     
-    // Step 3: Process in batches
+    // Process in batches
     const now = Date.now();
     const overallStart = Date.now();
     let totalOhlcvTime = 0;
     let totalProcessTime = 0;
     let totalApiCalls = 0;
+    let latest = run;
     
     logger.info(`[ATH Backfill] ════════════════════════════════════════════════════════════`);
-    logger.info(`[ATH Backfill] 🚀 Starting batch processing: ${totalMints} mints, batch size ${batchSize}`);
+    logger.info(`[ATH Backfill] 🚀 Starting batch processing: ${mints.length} mints, batch size ${batchSize}`);
     logger.info(`[ATH Backfill] ════════════════════════════════════════════════════════════`);
     
     for (let i = 0; i < mints.length; i += batchSize) {
       if (abortSignal.aborted) {
-        logger.info('[ATH Backfill] ⛔ Aborted by user');
-        updateProgress({ status: 'paused', lastError: 'Aborted by user' });
+        logger.info(`[ATH Backfill] ⛔ Run #${runId} ${stopReason()}`);
         return;
       }
       
@@ -622,11 +691,6 @@ export const startAthBackfill = async (options?: {
       logger.info(`[ATH Backfill] ────────────────────────────────────────────────────────`);
       logger.info(`[ATH Backfill] 📦 BATCH ${batchNum}/${totalBatches}: ${batch.length} mints`);
       
-      updateProgress({
-        currentBatchIndex: batchNum - 1,
-        ohlcvCallsRemaining: totalMints - i
-      });
-      
       // Process batch in parallel (limited concurrency)
       const PARALLEL_LIMIT = 3; // GeckoTerminal rate limit friendly
       
@@ -642,8 +706,6 @@ export const startAthBackfill = async (options?: {
         await Promise.all(parallelBatch.map(async (entry) => {
           if (abortSignal.aborted) return;
           
-          updateProgress({ currentMint: entry.mint });
-          
           try {
             const mintStart = Date.now();
             
@@ -667,23 +729,27 @@ export const startAthBackfill = async (options?: {
             
             const totalMintDuration = Date.now() - mintStart;
             
-            updateProgress({
-              processedMints: backfillState.processedMints + 1,
-              processedSignals: backfillState.processedSignals + entry.signals.length,
-              athUpdatedCount: backfillState.athUpdatedCount + result.updated,
-              errorCount: backfillState.errorCount + result.errors,
-              skippedCount: backfillState.skippedCount + result.skipped
+            latest = await record(entry.mint, {
+              status: 'done',
+              signals: entry.signals.length,
+              athUpdated: result.updated,
+              errors: result.errors,
+              skipped: result.skipped
             });
             
             logger.info(`[ATH Backfill] ✓ ${entry.mint.slice(0, 8)}...: ${candles.length} candles, ${result.updated}✓ ${result.errors}✗ ${result.skipped}⏭️ (ohlcv: ${ohlcvDuration}ms, process: ${processDuration}ms, total: ${totalMintDuration}ms)`);
             
           } catch (err: any) {
+            // Cut off by a stop: the mint stays pending for the next run
+            if (abortSignal.aborted) return;
             logger.error(`[ATH Backfill] ✗ Error ${entry.mint.slice(0, 8)}...: ${err.message}`);
-            updateProgress({
-              processedMints: backfillState.processedMints + 1,
-              processedSignals: backfillState.processedSignals + entry.signals.length,
-              errorCount: backfillState.errorCount + entry.signals.length,
-              lastError: err.message
+            latest = await record(entry.mint, {
+              status: 'error',
+              signals: entry.signals.length,
+              athUpdated: 0,
+              errors: entry.signals.length,
+              skipped: 0,
+              error: err.message
             });
           }
         }));
@@ -699,14 +765,14 @@ export const startAthBackfill = async (options?: {
       const avgProcessTime = totalApiCalls > 0 ? Math.round(totalProcessTime / totalApiCalls) : 0;
       
       // Progress log
-      const progress = ((i + batch.length) / totalMints * 100).toFixed(1);
-      const eta = backfillState.estimatedTimeRemaining
-        ? `ETA: ${Math.round(backfillState.estimatedTimeRemaining / 1000 / 60)}m`
-        : '';
+      const progress = ((latest.processedMints / Math.max(latest.totalMints, 1)) * 100).toFixed(1);
+      const elapsed = Date.now() - overallStart;
+      const doneHere = i + batch.length;
+      const eta = `ETA: ${Math.round((elapsed / doneHere) * (mints.length - doneHere) / 1000 / 60)}m`;
       
       logger.info(`[ATH Backfill] 📊 BATCH ${batchNum} COMPLETE in ${batchDuration}ms`);
-      logger.info(`[ATH Backfill] 📊 Overall: ${progress}% (${i + batch.length}/${totalMints} mints) ${eta}`);
-      logger.info(`[ATH Backfill] 📊 Stats: ${backfillState.athUpdatedCount} ATH updated, ${backfillState.errorCount} errors, ${backfillState.skippedCount} skipped`);
+      logger.info(`[ATH Backfill] 📊 Overall: ${progress}% (${latest.processedMints}/${latest.totalMints} mints) ${eta}`);
+      logger.info(`[ATH Backfill] 📊 Stats: ${latest.athUpdated} ATH updated, ${latest.errors} errors, ${latest.skipped} skipped`);
       logger.info(`[ATH Backfill] 📊 Avg times: OHLCV=${avgOhlcvTime}ms, Process=${avgProcessTime}ms`);
       
       // Batch delay
@@ -715,18 +781,22 @@ export const startAthBackfill = async (options?: {
       }
     }
     
+    if (abortSignal.aborted) {
+      logger.info(`[ATH Backfill] ⛔ Run #${runId} ${stopReason()}`);
+      return;
+    }
+    
     // Complete
-    updateProgress({
+    const done = await updateBackfillRun(runId, {
       status: 'complete',
       phase: 'complete',
       currentMint: null,
-      endedAt: new Date(),
-      estimatedTimeRemaining: 0
+      endedAt: new Date()
     });
     
     const totalDuration = Date.now() - overallStart;
     const durationMin = Math.round(totalDuration / 1000 / 60);
-    const avgPerMint = totalMints > 0 ? Math.round(totalDuration / totalMints) : 0;
+    const avgPerMint = mints.length > 0 ? Math.round(totalDuration / mints.length) : 0;
     const avgOhlcvTime = totalApiCalls > 0 ? Math.round(totalOhlcvTime / totalApiCalls) : 0;
     const avgProcessTime = totalApiCalls > 0 ? Math.round(totalProcessTime / totalApiCalls) : 0;
     
@@ -734,9 +804,9 @@ export const startAthBackfill = async (options?: {
     logger.info(`[ATH Backfill] ✅ BACKFILL COMPLETE`);
     logger.info(`[ATH Backfill] ════════════════════════════════════════════════════════════`);
     logger.info(`[ATH Backfill] 📊 Duration: ${durationMin}m (${totalDuration}ms)`);
-    logger.info(`[ATH Backfill] 📊 Mints: ${totalMints} processed`);
-    logger.info(`[ATH Backfill] 📊 Signals: ${backfillState.processedSignals} processed`);
-    logger.info(`[ATH Backfill] 📊 Results: ${backfillState.athUpdatedCount} ATH updated, ${backfillState.errorCount} errors, ${backfillState.skippedCount} skipped`);
+    logger.info(`[ATH Backfill] 📊 Mints: ${done.processedMints} processed`);
+    logger.info(`[ATH Backfill] 📊 Signals: ${done.processedSignals} processed`);
+    logger.info(`[ATH Backfill] 📊 Results: ${done.athUpdated} ATH updated, ${done.errors} errors, ${done.skipped} skipped`);
     logger.info(`[ATH Backfill] 📊 API Calls: ${totalApiCalls} OHLCV fetches`);
     logger.info(`[ATH Backfill] 📊 Avg Time Per Mint: ${avgPerMint}ms`);
     logger.info(`[ATH Backfill] 📊 Avg OHLCV Fetch: ${avgOhlcvTime}ms`);
@@ -745,56 +815,20 @@ export const startAthBackfill = async (options?: {
     
   } catch (error: any) {
     logger.error('[ATH Backfill] Fatal error:', error);
-    updateProgress({
-      status: 'error',
-      endedAt: new Date(),
-      lastError: error.message
-    });
+    await updateBackfillRun(runId, { status: 'error', endedAt: new Date(), lastError: error.message })
+      .catch(updateErr => logger.error('[ATH Backfill] Failed to record error:', updateErr));
+    throw error;
+  } finally {
+    shutdown?.removeEventListener('abort', onShutdown);
   }
-};
+});
 
 /**
- * Stops/pauses the current backfill.
+ * Asks the worker to stop the current backfill after the mints in flight; the run stays resumable.
  */
-export const stopAthBackfill = () => {
-  if (backfillAbortController) {
-    backfillAbortController.abort();
-    backfillAbortController = null;
-  }
-  
-  if (backfillState.status === 'running') {
-    updateProgress({
-      status: 'paused',
-      lastError: 'Stopped by user'
-    });
-  }
-};
-
-/**
- * Resets backfill state to idle.
- */
-export const resetBackfillState = () => {
-  Object.assign(backfillState, {
-    status: 'idle',
-    phase: 'init',
-    totalMints: 0,
-    processedMints: 0,
-    totalSignals: 0,
-    processedSignals: 0,
-    currentMint: null,
-    currentBatchIndex: 0,
-    batchSize: 50,
-    startedAt: null,
-    updatedAt: null,
-    endedAt: null,
-    estimatedTimeRemaining: null,
-    athUpdatedCount: 0,
-    errorCount: 0,
-    skippedCount: 0,
-    lastError: null,
-    ohlcvCallsRemaining: 0,
-    ohlcvCallsTotal: 0
-  });
+export const stopAthBackfill = async () => {
+  const run = await getLatestBackfillRun('ath');
+  if (run) await requestBackfillStop(run.id);
 };
 
 // ============================================================================
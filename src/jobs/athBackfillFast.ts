@@ -2,6 +2,20 @@ import { prisma } from '../db';
 import { logger } from '../utils/logger';
 import { getEntryTime } from '../analytics/metricsUtils';
 import axios from 'axios';
+import { ProviderBudget, QuotaExceededError, rateLimiter, withPriority } from '../providers/rateLimiter';
+import { BackfillRun } from '../generated/client';
+import {
+  BackfillMintResult,
+  createBackfillRun,
+  getBackfillRun,
+  getInterruptedBackfillRuns,
+  getLatestBackfillRun,
+  getPendingBackfillMints,
+  getRunBudget,
+  recordBackfillMint,
+  requestBackfillStop,
+  updateBackfillRun,
+} from '../db/backfillRuns';
 
 // ============================================================================
 // FAST ATH BACKFILL - Optimized for speed
@@ -18,6 +32,7 @@ import axios from 'axios';
 const DEXSCREENER_BASE = 'https://api.dexscreener.com/latest/dex';
 
 export interface FastBackfillProgress {
+  runId: number | null;
   status: 'idle' | 'running' | 'paused' | 'complete' | 'error';
   totalMints: number;
   processedMints: number;
@@ -32,9 +47,16 @@ export interface FastBackfillProgress {
   eta: number | null;
   avgTimePerMint: number;
   lastError: string | null;
+  budget: ProviderBudget[] | null; // As seen by the worker running the backfill
 }
 
-const progress: FastBackfillProgress = {
+interface FastBackfillOptions {
+  concurrency?: number;
+  forceRefresh?: boolean;
+}
+
+const idleProgress: FastBackfillProgress = {
+  runId: null,
   status: 'idle',
   totalMints: 0,
   processedMints: 0,
@@ -48,18 +70,41 @@ const progress: FastBackfillProgress = {
   updatedAt: null,
   eta: null,
   avgTimePerMint: 0,
-  lastError: null
+  lastError: null,
+  budget: null
 };
 
-let abortController: AbortController | null = null;
+const toProgress = (run: BackfillRun | null): FastBackfillProgress => {
+  if (!run) return { ...idleProgress };
+  const elapsed = (run.endedAt || run.updatedAt).getTime() - run.startedAt.getTime();
+  const avgTimePerMint = run.processedMints > 0 ? elapsed / run.processedMints : 0;
+  return {
+    runId: run.id,
+    status: run.status as FastBackfillProgress['status'],
+    totalMints: run.totalMints,
+    processedMints: run.processedMints,
+    totalSignals: run.totalSignals,
+    processedSignals: run.processedSignals,
+    athUpdated: run.athUpdated,
+    errors: run.errors,
+    skipped: run.skipped,
+    currentMint: run.currentMint,
+    startedAt: run.startedAt,
+    updatedAt: run.updatedAt,
+    eta: run.status === 'running' && avgTimePerMint > 0 ? avgTimePerMint * (run.totalMints - run.processedMints) : null,
+    avgTimePerMint,
+    lastError: run.lastError,
+    budget: getRunBudget(run)
+  };
+};
 
-export const getFastBackfillProgress = () => ({ ...progress });
+/** Progress of the latest fast backfill run, from the database (any process may be running it). */
+export const getFastBackfillProgress = async () => toProgress(await getLatestBackfillRun('ath_fast'));
 
-export const stopFastBackfill = () => {
-  if (abortController) {
-    abortController.abort();
-    progress.status = 'paused';
-  }
+/** Ask the worker to stop the latest run after the mints in flight; it can be resumed later. */
+export const stopFastBackfill = async () => {
+  const run = await getLatestBackfillRun('ath_fast');
+  if (run) await requestBackfillStop(run.id);
 };
 
 // ============================================================================
@@ -79,6 +124,7 @@ const fetchDexScreenerOHLCV = async (mint: string, retries = 2): Promise<DexScre
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
       // DexScreener returns OHLCV directly for a token without needing pool address
+      await rateLimiter.acquire('dexscreener');
       const response = await axios.get(`${DEXSCREENER_BASE}/tokens/${mint}`, {
         timeout: 8000,
         headers: { 'Accept': 'application/json' }
@@ -118,7 +164,7 @@ const fetchDexScreenerOHLCV = async (mint: string, retries = 2): Promise<DexScre
       return [];
     } catch (err: any) {
       if (err.response?.status === 429 && attempt < retries - 1) {
-        await new Promise(r => setTimeout(r, 2000));
+        rateLimiter.backoff('dexscreener', 2000);
         continue;
       }
       if (attempt === retries - 1) {
@@ -192,6 +238,7 @@ const fetchGeckoTerminalTiered = async (mint: string, entryTime: number): Promis
     if (cached === undefined) {
       // Fetch pool address
       try {
+        await rateLimiter.acquire('geckoterminal');
         const poolResponse = await axios.get(`https://api.geckoterminal.com/api/v2/networks/solana/tokens/${mint}/pools`, {
           params: { page: 1, limit: 1 },
           timeout: 5000
@@ -199,8 +246,9 @@ const fetchGeckoTerminalTiered = async (mint: string, entryTime: number): Promis
         const addr = poolResponse.data?.data?.[0]?.attributes?.address;
         poolAddress = addr ? String(addr) : null;
         poolCache.set(mint, poolAddress);
-      } catch {
-        poolCache.set(mint, null);
+      } catch (err) {
+        // Out of quota says nothing about the pool; look it up again next time
+        if (!(err instanceof QuotaExceededError)) poolCache.set(mint, null);
         return [];
       }
     }
@@ -222,6 +270,7 @@ const fetchGeckoTerminalTiered = async (mint: string, entryTime: number): Promis
     const minutesToNextHour = Math.ceil((nextHourBoundary - entryTime) / 60000);
     if (minutesToNextHour > 0 && minutesToNextHour <= 60 && nextHourBoundary < now) {
       try {
+        await rateLimiter.acquire('geckoterminal');
         const response = await axios.get(
           `https://api.geckoterminal.com/api/v2/networks/solana/pools/${poolAddress}/ohlcv/minute`,
           { params: { limit: Math.min(100, minutesToNextHour + 5) }, timeout: 8000 }
@@ -245,6 +294,7 @@ const fetchGeckoTerminalTiered = async (mint: string, entryTime: number): Promis
       try {
         // Fetch enough hourly candles to cover from entry to now (or to where daily takes over)
         const hoursNeeded = Math.min(1000, Math.ceil((now - nextHourBoundary) / HOUR_MS) + 5);
+        await rateLimiter.acquire('geckoterminal');
         const response = await axios.get(
           `https://api.geckoterminal.com/api/v2/networks/solana/pools/${poolAddress}/ohlcv/hour`,
           { params: { limit: hoursNeeded }, timeout: 10000 }
@@ -267,6 +317,7 @@ const fetchGeckoTerminalTiered = async (mint: string, entryTime: number): Promis
     if (ageInDays > 2) {
       try {
         const daysNeeded = Math.min(1000, Math.ceil(ageInDays) + 5);
+        await rateLimiter.acquire('geckoterminal');
         const response = await axios.get(
           `https://api.geckoterminal.com/api/v2/networks/solana/pools/${poolAddress}/ohlcv/day`,
           { params: { limit: daysNeeded }, timeout: 10000 }
@@ -311,6 +362,7 @@ const fetchGeckoTerminalFast = async (mint: string, fromTime: number): Promise<D
     
     if (cached === undefined) {
       try {
+        await rateLimiter.acquire('geckoterminal');
         const poolResponse = await axios.get(`https://api.geckoterminal.com/api/v2/networks/solana/tokens/${mint}/pools`, {
           params: { page: 1, limit: 1 },
           timeout: 5000
@@ -318,14 +370,16 @@ const fetchGeckoTerminalFast = async (mint: string, fromTime: number): Promise<D
         const addr = poolResponse.data?.data?.[0]?.attributes?.address;
         poolAddress = addr ? String(addr) : null;
         poolCache.set(mint, poolAddress);
-      } catch {
-        poolCache.set(mint, null);
+      } catch (err) {
+        // Out of quota says nothing about the pool; look it up again next time
+        if (!(err instanceof QuotaExceededError)) poolCache.set(mint, null);
         return [];
       }
     }
     
     if (!poolAddress) return [];
     
+    await rateLimiter.acquire('geckoterminal');
     const response = await axios.get(
       `https://api.geckoterminal.com/api/v2/networks/solana/pools/${poolAddress}/ohlcv/hour`,
       { params: { limit: 1000 }, timeout: 10000 }
@@ -564,102 +618,131 @@ const processMint = async (data: MintData): Promise<{ updated: number; errors: n
 // Main fast backfill
 // ============================================================================
 
-export const startFastBackfill = async (options?: {
-  concurrency?: number;
-  forceRefresh?: boolean;
-}) => {
-  if (progress.status === 'running') {
-    logger.warn('[FastBackfill] Already running');
-    return;
+// Signals that need an ATH, grouped by mint (optionally only `mints`)
+const loadMints = async (options: FastBackfillOptions, mints?: string[]): Promise<MintData[]> => {
+  const whereClause: any = {
+    entryPrice: { not: null, gt: 0 }
+  };
+  
+  if (!options.forceRefresh) {
+    whereClause.OR = [
+      { metrics: null },
+      { metrics: { athMultiple: { lte: 1 } } }
+    ];
+  }
+  if (mints) {
+    whereClause.mint = { in: mints };
   }
   
-  abortController = new AbortController();
-  const concurrency = options?.concurrency || 10; // High parallelism
+  const signals = await prisma.signal.findMany({
+    where: whereClause,
+    select: {
+      id: true,
+      mint: true,
+      entryPrice: true,
+      entrySupply: true,
+      entryMarketCap: true,
+      entryPriceAt: true,
+      detectedAt: true
+    }
+  });
   
-  try {
-    logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
-    logger.info('[FastBackfill] 🚀 Starting FAST ATH backfill');
-    logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
-    
-    // Reset progress
-    Object.assign(progress, {
-      status: 'running',
-      totalMints: 0,
-      processedMints: 0,
-      totalSignals: 0,
-      processedSignals: 0,
-      athUpdated: 0,
-      errors: 0,
-      skipped: 0,
-      currentMint: null,
-      startedAt: new Date(),
-      updatedAt: new Date(),
-      eta: null,
-      avgTimePerMint: 0,
-      lastError: null
-    });
+  // Group by mint
+  const mintMap = new Map<string, MintData>();
+  
+  for (const sig of signals) {
+    if (!sig.entryPrice || sig.entryPrice <= 0) continue;
     
-    // Get signals that need ATH
-    const whereClause: any = {
-      entryPrice: { not: null, gt: 0 }
-    };
+    const entryTime = getEntryTime(sig)?.getTime() || sig.detectedAt.getTime();
     
-    if (!options?.forceRefresh) {
-      whereClause.OR = [
-        { metrics: null },
-        { metrics: { athMultiple: { lte: 1 } } }
-      ];
+    if (!mintMap.has(sig.mint)) {
+      mintMap.set(sig.mint, {
+        mint: sig.mint,
+        signals: [],
+        earliestEntry: entryTime
+      });
     }
     
-    const signals = await prisma.signal.findMany({
-      where: whereClause,
-      select: {
-        id: true,
-        mint: true,
-        entryPrice: true,
-        entrySupply: true,
-        entryMarketCap: true,
-        entryPriceAt: true,
-        detectedAt: true
-      }
+    const entry = mintMap.get(sig.mint)!;
+    entry.signals.push({
+      id: sig.id,
+      entryPrice: sig.entryPrice,
+      entrySupply: sig.entrySupply,
+      entryMarketCap: sig.entryMarketCap,
+      entryTime
+    });
+    
+    if (entryTime < entry.earliestEntry) {
+      entry.earliestEntry = entryTime;
+    }
+  }
+  
+  return Array.from(mintMap.values());
+};
+
+/**
+ * Plan a fast backfill run (one row per mint) and queue it for a worker.
+ * Returns null when a backfill is already running.
+ */
+export const startFastBackfill = async (options: FastBackfillOptions = {}) => {
+  if ((await getInterruptedBackfillRuns()).length > 0) {
+    logger.warn('[FastBackfill] Already running');
+    return null;
+  }
+  
+  const mints = await loadMints(options);
+  const run = await createBackfillRun(
+    'ath_fast',
+    { ...options },
+    mints.map(m => ({ mint: m.mint, signals: m.signals.length }))
+  );
+  logger.info(`[FastBackfill] Planned run #${run.id}: ${run.totalMints} mints, ${run.totalSignals} signals`);
+  
+  const { enqueueBackfillRun } = await import('./index');
+  await enqueueBackfillRun(run.id);
+  return run;
+};
+
+/**
+ * Process the pending mints of run `runId` (worker side). Each mint's result is stored as it
+ * finishes, so a run interrupted by a restart continues with the mints still pending. A stop
+ * request (run paused) ends the loop after the mints in flight; `shutdown` ends it the same way
+ * but leaves the run running, so it is resumed.
+ */
+export const runFastBackfill = (runId: number, shutdown?: AbortSignal) => withPriority('backfill', async () => {
+  const run = await getBackfillRun(runId);
+  if (!run || run.status === 'complete' || run.status === 'paused' || shutdown?.aborted) return;
+  
+  const options = run.options as FastBackfillOptions;
+  const concurrency = options.concurrency || 10; // High parallelism
+  const abortController = new AbortController();
+  const onShutdown = () => abortController.abort();
+  shutdown?.addEventListener('abort', onShutdown, { once: true });
+  
+  try {
+    const pending = await getPendingBackfillMints(runId);
+    const resumed = run.processedMints > 0 || run.status === 'error';
+    await updateBackfillRun(runId, {
+      status: 'running',
+      phase: 'processing',
+      endedAt: null,
+      ...(resumed ? { resumedCount: { increment: 1 } } : {})
     });
     
-    logger.info(`[FastBackfill] Found ${signals.length} signals to process`);
+    logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
+    logger.info(resumed
+      ? `[FastBackfill] ▶️ Resuming run #${runId}: ${pending.length}/${run.totalMints} mints left`
+      : `[FastBackfill] 🚀 Starting FAST ATH backfill run #${runId}`);
+    logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
     
-    // Group by mint
-    const mintMap = new Map<string, MintData>();
+    const mints = await loadMints(options, pending);
     
-    for (const sig of signals) {
-      if (!sig.entryPrice || sig.entryPrice <= 0) continue;
-      
-      const entryTime = getEntryTime(sig)?.getTime() || sig.detectedAt.getTime();
-      
-      if (!mintMap.has(sig.mint)) {
-        mintMap.set(sig.mint, {
-          mint: sig.mint,
-          signals: [],
-          earliestEntry: entryTime
-        });
-      }
-      
-      const entry = mintMap.get(sig.mint)!;
-      entry.signals.push({
-        id: sig.id,
-        entryPrice: sig.entryPrice,
-        entrySupply: sig.entrySupply,
-        entryMarketCap: sig.entryMarketCap,
-        entryTime
-      });
-      
-      if (entryTime < entry.earliestEntry) {
-        entry.earliestEntry = entryTime;
-      }
+    // Mints whose signals no longer need an ATH (or were deleted) since planning
+    const loaded = new Set(mints.map(m => m.mint));
+    for (const mint of pending.filter(m => !loaded.has(m))) {
+      await recordBackfillMint(runId, mint, { status: 'done', signals: 0, athUpdated: 0, errors: 0, skipped: 0 });
     }
     
-    const mints = Array.from(mintMap.values());
-    progress.totalMints = mints.length;
-    progress.totalSignals = signals.length;
-    
     logger.info(`[FastBackfill] Processing ${mints.length} unique mints with concurrency ${concurrency}`);
     
     // Process with high parallelism using a work queue
@@ -668,41 +751,39 @@ export const startFastBackfill = async (options?: {
     let processedCount = 0;
     const startTime = Date.now();
     
+    const record = async (mint: MintData, result: BackfillMintResult) => {
+      const current = await recordBackfillMint(
+        runId,
+        mint.mint,
+        result,
+        rateLimiter.getBudget()
+      );
+      if (current.status !== 'running') abortController.abort();
+    };
+    
     const worker = async () => {
-      while (queue.length > 0 && !abortController?.signal.aborted) {
+      while (queue.length > 0 && !abortController.signal.aborted) {
         const mint = queue.shift();
         if (!mint) break;
         
-        progress.currentMint = mint.mint;
         const mintStart = Date.now();
         
         try {
           const result = await processMint(mint);
-          
           processedCount++;
-          progress.processedMints = processedCount;
-          progress.processedSignals += mint.signals.length;
-          progress.athUpdated += result.updated;
-          progress.errors += result.errors;
-          progress.skipped += result.skipped;
-          
-          // Update timing stats
-          const elapsed = Date.now() - startTime;
-          progress.avgTimePerMint = elapsed / processedCount;
-          progress.eta = progress.avgTimePerMint * (mints.length - processedCount);
-          progress.updatedAt = new Date();
+          await record(mint, { status: 'done', signals: mint.signals.length, athUpdated: result.updated, errors: result.errors, skipped: result.skipped });
           
           const mintDuration = Date.now() - mintStart;
           if (processedCount % 50 === 0 || mintDuration > 2000) {
             const pct = ((processedCount / mints.length) * 100).toFixed(1);
-            const etaMin = Math.round((progress.eta || 0) / 60000);
-            logger.info(`[FastBackfill] Progress: ${pct}% (${processedCount}/${mints.length}) | ETA: ${etaMin}m | Avg: ${Math.round(progress.avgTimePerMint)}ms/mint`);
+            const avgTimePerMint = (Date.now() - startTime) / processedCount;
+            const etaMin = Math.round((avgTimePerMint * (mints.length - processedCount)) / 60000);
+            logger.info(`[FastBackfill] Progress: ${pct}% (${processedCount}/${mints.length}) | ETA: ${etaMin}m | Avg: ${Math.round(avgTimePerMint)}ms/mint`);
           }
           
         } catch (err: any) {
-          progress.errors += mint.signals.length;
-          progress.lastError = err.message;
           logger.debug(`[FastBackfill] Error processing ${mint.mint.slice(0, 8)}...: ${err.message}`);
+          await record(mint, { status: 'error', signals: mint.signals.length, athUpdated: 0, errors: mint.signals.length, skipped: 0, error: err.message });
         }
         
         // Tiny delay to prevent overwhelming APIs
@@ -718,26 +799,37 @@ export const startFastBackfill = async (options?: {
     // Wait for all workers
     await Promise.all(workers);
     
+    if (abortController.signal.aborted) {
+      logger.info(`[FastBackfill] ⏸️ Run #${runId} ${shutdown?.aborted ? 'interrupted by shutdown' : 'stopped'} after ${processedCount} mints`);
+      return;
+    }
+    
     // Complete
-    progress.status = abortController?.signal.aborted ? 'paused' : 'complete';
-    progress.currentMint = null;
-    progress.updatedAt = new Date();
+    const done = await updateBackfillRun(runId, {
+      status: 'complete',
+      phase: 'complete',
+      currentMint: null,
+      endedAt: new Date()
+    });
     
     const totalTime = Date.now() - startTime;
     const avgTime = mints.length > 0 ? Math.round(totalTime / mints.length) : 0;
     
     logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
     logger.info(`[FastBackfill] ✅ COMPLETE in ${Math.round(totalTime / 60000)}m`);
-    logger.info(`[FastBackfill] 📊 ${progress.athUpdated} ATH updated, ${progress.errors} errors, ${progress.skipped} skipped`);
+    logger.info(`[FastBackfill] 📊 ${done.athUpdated} ATH updated, ${done.errors} errors, ${done.skipped} skipped`);
     logger.info(`[FastBackfill] ⚡ Average: ${avgTime}ms per mint`);
     logger.info('[FastBackfill] ════════════════════════════════════════════════════════════');
     
   } catch (err: any) {
-    progress.status = 'error';
-    progress.lastError = err.message;
     logger.error('[FastBackfill] Fatal error:', err);
+    await updateBackfillRun(runId, { status: 'error', lastError: err.message, endedAt: new Date() })
+      .catch(updateErr => logger.error('[FastBackfill] Failed to record error:', updateErr));
+    throw err;
+  } finally {
+    shutdown?.removeEventListener('abort', onShutdown);
   }
-};
+});
 
 // ============================================================================
 // Export for use in actions
@@ -1,5 +1,7 @@
 import { prisma } from '../db';
+import { getLatestSamples, seriesKey } from '../db/samples';
 import { logger } from '../utils/logger';
+import { withPriority } from '../providers/rateLimiter';
 import { enrichSignalsWithCurrentPrice, enrichSignalsBatch } from '../analytics/metrics';
 import { hasComputedAth, hasComputedDrawdown, hasComputedTimes } from '../analytics/metricsUtils';
 import { getMultipleTokenPrices } from '../providers/jupiter';
@@ -14,7 +16,7 @@ import { getMultipleTokenPrices } from '../providers/jupiter';
  * 3. Skip signals with no volume/activity
  * 4. Process in optimized batches
  */
-export const runAthEnrichmentCycle = async () => {
+export const runAthEnrichmentCycle = () => withPriority('backfill', async () => {
     logger.info('[ATH Enrichment] Starting ATH enrichment cycle...');
     
     const STALE_METRICS_MS = 10 * 60 * 1000; // 10 minutes - only process stale metrics
@@ -29,8 +31,8 @@ export const runAthEnrichmentCycle = async () => {
             include: {
                 metrics: true,
                 priceSamples: {
-                    orderBy: { sampledAt: 'desc' },
-                    take: 1 // Latest sample for volume check
+                    orderBy: { sampledAt: 'asc' },
+                    take: 1 // Entry sample
                 }
             }
         });
@@ -44,6 +46,7 @@ export const runAthEnrichmentCycle = async () => {
 
         // Step 2: Fetch current prices for ALL signals in ONE batch (Jupiter v3 is instant!)
         const uniqueMints = [...new Set(signals.map(s => s.mint))];
+        const latestSamples = await getLatestSamples(signals); // For the volume check
         logger.info(`[ATH Enrichment] Fetching current prices for ${uniqueMints.length} unique mints (Jupiter v3 batch - instant)`);
         
         const startTime = Date.now();
@@ -102,7 +105,7 @@ export const runAthEnrichmentCycle = async () => {
             }
 
             // OPTIMIZATION 4: Check volume - skip if no recent volume (dead token)
-            const latestSample = sig.priceSamples[0];
+            const latestSample = latestSamples[seriesKey(sig.chain, sig.mint)];
             if (latestSample) {
                 const sampleAge = now - latestSample.sampledAt.getTime();
                 // If last sample is > 1 hour old and had no volume, skip
@@ -154,6 +157,7 @@ export const runAthEnrichmentCycle = async () => {
         
     } catch (error) {
         logger.error('[ATH Enrichment] Error in enrichment cycle:', error);
+        throw error;
     }
-};
+});
 
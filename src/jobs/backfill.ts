@@ -1,5 +1,7 @@
 import { prisma } from '../db';
 import { provider } from '../providers';
+import { getTokenMetadata } from '../db/tokens';
+import { BatchResult, TokenMeta } from '../providers/types';
 import { logger } from '../utils/logger';
 
 export const backfillEntryMarketCap = async (targetSignalIds?: number[]) => {
@@ -70,9 +72,16 @@ export const backfillTokenMeta = async (targetSignalIds?: number[]) => {
     }
 
     const signals = await prisma.signal.findMany({ where });
+    // Stored token metadata, one lookup per chain; only missing or stale tokens hit the providers
+    const metasByChain = new Map<string, BatchResult<TokenMeta>>();
+    for (const chain of [...new Set(signals.map(signal => signal.chain))]) {
+      const chainMints = signals.filter(signal => signal.chain === chain).map(signal => signal.mint);
+      metasByChain.set(chain, await getTokenMetadata(chainMints, { chain }));
+    }
     for (const signal of signals) {
       try {
-        const meta = await provider.getTokenMeta(signal.mint);
+        const meta = metasByChain.get(signal.chain)?.[signal.mint];
+        if (!meta) continue;
         const tokenCreatedAt = meta.createdAt || meta.firstPoolCreatedAt || null;
         const socials = meta.socialLinks || undefined;
         const entrySupply = signal.entrySupply || meta.supply || null;
@@ -1,7 +1,9 @@
 import { prisma } from '../db';
+import { getLatestSamples, seriesKey } from '../db/samples';
 import { geckoTerminal } from '../providers/geckoTerminal';
 import { getMultipleTokenPrices } from '../providers/jupiter';
 import { logger } from '../utils/logger';
+import { withPriority } from '../providers/rateLimiter';
 import { getEntryTime, hasComputedAth, hasComputedDrawdown, hasComputedTimes } from '../analytics/metricsUtils';
 
 export type HistoricalMetricsBackfillProgress = {
@@ -47,7 +49,7 @@ export const getHistoricalMetricsBackfillProgress = (): HistoricalMetricsBackfil
  * Periodically checks historical data for active signals to ensure
  * we captured the true ATH and Drawdown, even if the bot missed a tick.
  */
-export const updateHistoricalMetrics = async (targetSignalIds?: number[]) => {
+export const updateHistoricalMetrics = (targetSignalIds?: number[]) => withPriority('backfill', async () => {
   try {
     logger.info(`Starting historical metrics update job... ${targetSignalIds ? `(Targeting ${targetSignalIds.length} signals)` : ''}`);
     const shouldTrackProgress = backfillProgress.status === 'running' && !!targetSignalIds?.length;
@@ -83,7 +85,7 @@ export const updateHistoricalMetrics = async (targetSignalIds?: number[]) => {
       orderBy: { detectedAt: 'desc' },
       include: {
         metrics: true,
-        priceSamples: { orderBy: { sampledAt: 'desc' }, take: 1 }
+        priceSamples: { orderBy: { sampledAt: 'asc' }, take: 1 } // Entry sample
       }
     });
 
@@ -94,6 +96,7 @@ export const updateHistoricalMetrics = async (targetSignalIds?: number[]) => {
     const PRICE_ATH_BUFFER = 1.02; // 2% above ATH triggers recalculation
 
     const uniqueMints = Array.from(new Set(signals.map(s => s.mint)));
+    const latestSamples = await getLatestSamples(signals);
     let priceMap: Record<string, number | null> = {};
     if (uniqueMints.length > 0) {
       try {
@@ -234,7 +237,7 @@ export const updateHistoricalMetrics = async (targetSignalIds?: number[]) => {
 
             await Promise.all(mintSignals.map(async (signal) => {
                 try {
-                    const lastSample = signal.priceSamples?.[0];
+                    const lastSample = latestSamples[seriesKey(signal.chain, signal.mint)];
                     if (signal.metrics?.updatedAt) {
                         if (!lastSample || lastSample.sampledAt <= signal.metrics.updatedAt) {
                           markProcessed(signal.id);
@@ -364,8 +367,9 @@ export const updateHistoricalMetrics = async (targetSignalIds?: number[]) => {
     logger.info('Historical metrics update complete.');
   } catch (error) {
     logger.error('Error in updateHistoricalMetrics:', error);
+    throw error;
   }
-};
+});
 
 /**
  * Full backfill for ALL signals with entry data.
@@ -432,7 +436,8 @@ export const runHistoricalMetricsBackfill = async (batchSize = 200) => {
       totalProcessed += ids.length;
 
       logger.info(`[HistoricalMetrics] Backfill batch ${ids[0]}..${lastId} (${ids.length} signals)`);
-      await updateHistoricalMetrics(ids);
+      // Already logged; one failed batch doesn't stop the backfill
+      await updateHistoricalMetrics(ids).catch(() => undefined);
       updateBackfillProgress({
         processedSignals: totalProcessed,
         lastBatchCount: ids.length,
@@ -1,134 +1,250 @@
-import { CronJob } from 'cron';
+import { ConnectionOptions, DelayedError, Job, Queue, Worker } from 'bullmq';
 import { logger } from '../utils/logger';
 import { checkPriceAlerts } from './priceAlerts';
 import { updateHistoricalMetrics } from './historicalMetrics';
 import { runSamplingCycle } from './sampling';
 import { runAthEnrichmentCycle } from './athEnrichment';
-import { refreshLiveAth, getBackfillProgress } from './athBackfill';
-
-// Run price alerts every minute
-export const priceAlertJob = new CronJob('* * * * *', async () => {
-  try {
-    await checkPriceAlerts();
-  } catch (error) {
-    logger.error('Error in price alert job:', error);
+import { runAggregationCycle } from './aggregation';
+import { refreshLiveAth, runAthBackfill } from './athBackfill';
+import { runFastBackfill } from './athBackfillFast';
+import { getBackfillRun, getInterruptedBackfillRuns, hasCompletedBackfill } from '../db/backfillRuns';
+import { closeJobLocks, getJobLocks, JobLockInfo, withJobLock } from './locks';
+
+export type JobName = 'sampling' | 'price-alerts' | 'ath-enrichment' | 'historical-metrics' | 'aggregation' | 'live-ath' | 'ath-backfill';
+
+/** Data a backfill job carries: the run it executes. */
+export interface BackfillJobData {
+  runId: number;
+}
+
+// Only backfill jobs carry data; interval and one-off jobs are enqueued without any
+type JobData<N extends JobName> = N extends 'ath-backfill' ? BackfillJobData : Record<string, never>;
+
+interface JobDefinition<Data> {
+  every?: number; // Repeat interval in ms; jobs without one are only enqueued by other jobs
+  concurrency: number; // Jobs of this queue one worker process runs at once
+  attempts: number; // Including the first run; the last failure goes to the dead-letter queue
+  backoffMs: number; // First retry delay, doubled on each further retry
+  interruptible?: boolean; // Stops early on shutdown; the job is requeued to continue elsewhere
+  run: (data: Data, shutdown: AbortSignal) => Promise<unknown>;
+}
+
+const PREFIX = process.env.JOB_QUEUE_PREFIX || 'serfu';
+const DEAD_LETTER_QUEUE = 'dead-letter';
+
+// Aborted by stopWorkers so long runs hand over instead of holding up the shutdown
+const shutdown = new AbortController();
+
+// Live ATH refresh via Jupiter batch prices: the primary ATH tracking mechanism, but only once
+// a backfill run has captured historical ATHs (before that only OHLCV can)
+const runLiveAthRefresh = async () => {
+  if (!(await hasCompletedBackfill())) {
+    logger.debug('[Live ATH] Skipping - no completed backfill yet');
+    return;
   }
-});
 
-// Run sampling cycle every minute (drives price samples)
-export const samplingJob = new CronJob('* * * * *', async () => {
-  try {
-    await runSamplingCycle();
-  } catch (error) {
-    logger.error('Error in sampling job:', error);
-  }
-});
-
-// Run ATH enrichment every 10 minutes (smart filtering, minimizes API calls)
-export const athEnrichmentJob = new CronJob('*/10 * * * *', async () => {
-  try {
-    await runAthEnrichmentCycle();
-  } catch (error) {
-    logger.error('Error in ATH enrichment job:', error);
+  const start = Date.now();
+  await refreshLiveAth({
+    onlyNearAth: false, // Check all since Jupiter batch is fast
+    maxTokens: 1000, // Check up to 1000 tokens per cycle
+  });
+  const duration = Date.now() - start;
+  if (duration > 5000) {
+    logger.info(`[Live ATH] Cycle complete in ${duration}ms (slow)`);
   }
-});
+};
 
-// Run historical metrics update every 30 minutes
-export const historicalMetricsJob = new CronJob('*/30 * * * *', async () => {
-  try {
-    await updateHistoricalMetrics();
-  } catch (error) {
-    logger.error('Error in historical metrics job:', error);
+const runBackfill = async ({ runId }: BackfillJobData, signal: AbortSignal) => {
+  const run = await getBackfillRun(runId);
+  if (!run) {
+    logger.warn(`[Jobs] Backfill run #${runId} not found`);
+    return;
   }
-});
+  await (run.kind === 'ath_fast' ? runFastBackfill(run.id, signal) : runAthBackfill(run.id, signal));
+};
 
-// Live ATH refresh every 10 seconds using Jupiter batch prices
-// ONLY runs after backfill is complete - this is the PRIMARY ATH tracking mechanism
-// - Fetches current prices via Jupiter (fast batch API)
-// - Updates ATH if current price > stored ATH
-// - No OHLCV needed for ongoing ATH tracking (backfill already got historical ATH)
-let liveAthInterval: NodeJS.Timeout | null = null;
-let liveAthRunning = false;
+export const JOBS: { [N in JobName]: JobDefinition<JobData<N>> } = {
+  sampling: {
+    every: 60 * 1000,
+    concurrency: 1,
+    attempts: 3,
+    backoffMs: 5000,
+    run: async () => {
+      await runSamplingCycle();
+      // Alerts are checked against the samples just taken
+      await enqueueJob('price-alerts');
+    },
+  },
+  'price-alerts': { concurrency: 1, attempts: 3, backoffMs: 5000, run: checkPriceAlerts },
+  'ath-enrichment': { every: 10 * 60 * 1000, concurrency: 1, attempts: 3, backoffMs: 30 * 1000, run: runAthEnrichmentCycle },
+  'historical-metrics': { every: 30 * 60 * 1000, concurrency: 1, attempts: 3, backoffMs: 60 * 1000, run: () => updateHistoricalMetrics() },
+  aggregation: { every: 60 * 60 * 1000, concurrency: 1, attempts: 3, backoffMs: 60 * 1000, run: runAggregationCycle },
+  // A failed tick is superseded by the next one 10s later
+  'live-ath': { every: 10 * 1000, concurrency: 1, attempts: 1, backoffMs: 0, run: runLiveAthRefresh },
+  // One backfill run per job; a retry continues with the run's pending mints
+  'ath-backfill': { concurrency: 1, attempts: 3, backoffMs: 60 * 1000, interruptible: true, run: runBackfill },
+};
 
-const LIVE_ATH_INTERVAL_MS = 10000; // 10 seconds
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+const queues = new Map<string, Queue>();
+const workers: Worker[] = [];
+
+// BullMQ bundles its own ioredis, so it gets connection options and opens its connections itself.
+// Workers block on Redis, so commands must wait for a reconnect instead of failing.
+const getConnection = (): ConnectionOptions => {
+  if (!process.env.REDIS_URL) throw new Error('REDIS_URL is required for background job queues');
+  const url = new URL(process.env.REDIS_URL);
+  return {
+    host: url.hostname,
+    port: Number(url.port || 6379),
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    db: Number(url.pathname.slice(1) || 0),
+    tls: url.protocol === 'rediss:' ? {} : undefined,
+    maxRetriesPerRequest: null,
+  };
+};
 
-const runLiveAthRefresh = async () => {
-  // Prevent overlapping runs
-  if (liveAthRunning) {
-    logger.debug('[Live ATH] Skipping - previous run still in progress');
-    return;
-  }
-  
-  liveAthRunning = true;
-  const start = Date.now();
-  
-  try {
-    const progress = getBackfillProgress();
-    
-    // CRITICAL: Only run if backfill has been completed
-    // Before backfill, we need OHLCV to get historical ATH
-    // After backfill, Jupiter prices can maintain ATH going forward
-    if (progress.status === 'running') {
-      logger.debug('[Live ATH] Skipping - backfill in progress');
-      return;
-    }
-    
-    if (progress.status !== 'complete') {
-      // Backfill hasn't been run yet - log and skip
-      // (ATH enrichment job will handle signals without backfill)
-      logger.debug(`[Live ATH] Skipping - backfill not complete (status: ${progress.status})`);
-      return;
-    }
-    
-    await refreshLiveAth({
-      onlyNearAth: false, // Check all since Jupiter batch is fast
-      maxTokens: 1000 // Check up to 1000 tokens per cycle
-    });
-    
-    const duration = Date.now() - start;
-    if (duration > 5000) {
-      logger.info(`[Live ATH] Cycle complete in ${duration}ms (slow)`);
-    }
-  } catch (error) {
-    logger.error('[Live ATH] Error in refresh job:', error);
-  } finally {
-    liveAthRunning = false;
+const getQueue = (name: string) => {
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new Queue(name, { connection: getConnection(), prefix: PREFIX });
+    queues.set(name, queue);
   }
+  return queue;
 };
 
-export const startJobs = () => {
-  priceAlertJob.start();
-  samplingJob.start();
-  athEnrichmentJob.start();
-  historicalMetricsJob.start();
-  
-  // Start live ATH refresh (every 10 seconds)
-  if (liveAthInterval) clearInterval(liveAthInterval);
-  liveAthInterval = setInterval(runLiveAthRefresh, LIVE_ATH_INTERVAL_MS);
-  // Run immediately on startup
-  runLiveAthRefresh();
-  
-  logger.info('Background jobs started (Price Alerts: 1m, Sampling: 1m, ATH Enrichment: 10m, Historical Metrics: 30m, Live ATH: 10s)');
-};
+const jobOptions = (definition: Pick<JobDefinition<unknown>, 'attempts' | 'backoffMs'>) => ({
+  attempts: definition.attempts,
+  backoff: { type: 'exponential', delay: definition.backoffMs },
+  removeOnComplete: 100,
+  removeOnFail: 500,
+});
 
-export const stopJobs = () => {
-  priceAlertJob.stop();
-  samplingJob.stop();
-  athEnrichmentJob.stop();
-  historicalMetricsJob.stop();
-  
-  if (liveAthInterval) {
-    clearInterval(liveAthInterval);
-    liveAthInterval = null;
-  }
-  
-  logger.info('Background jobs stopped');
+/** Add a one-off run of `name`; a run that hasn't finished yet absorbs it. */
+export const enqueueJob = async (name: JobName) => {
+  await getQueue(name).add(name, {}, { ...jobOptions(JOBS[name]), deduplication: { id: `${name}-pending` } });
 };
 
+/** Queue backfill run `runId` for a worker; queuing a run that is already queued is a no-op. */
+export const enqueueBackfillRun = async (runId: number) => {
+  const name: JobName = 'ath-backfill';
+  const data: BackfillJobData = { runId };
+  await getQueue(name).add(name, data, { ...jobOptions(JOBS[name]), deduplication: { id: `${name}-${runId}` } });
+};
 
+/** Re-queue backfill runs that were still running when their worker stopped, so they continue. */
+export const resumeInterruptedBackfills = async () => {
+  const runs = await getInterruptedBackfillRuns();
+  for (const run of runs) {
+    logger.info(`[Jobs] Resuming ${run.kind} backfill run #${run.id} (${run.processedMints}/${run.totalMints} mints done)`);
+    await enqueueBackfillRun(run.id);
+  }
+};
 
+/** Create or update the repeat schedule of every interval job; safe to call from each worker. */
+export const scheduleJobs = async () => {
+  for (const name of JOB_NAMES) {
+    const definition = JOBS[name];
+    if (!definition.every) continue;
+    await getQueue(name).upsertJobScheduler(name, { every: definition.every }, { name, opts: jobOptions(definition) });
+  }
+};
 
+// Put an active job back in the queue without using up an attempt
+const retryLater = async (job: Job, token: string | undefined, delayMs: number) => {
+  await job.moveToDelayed(Date.now() + delayMs, token);
+  throw new DelayedError();
+};
 
+// Jobs out of retries are copied to the dead-letter queue with their failure for inspection and replay
+const deadLetter = async (job: Job, error: Error) => {
+  await getQueue(DEAD_LETTER_QUEUE).add(job.name, {
+    queue: job.queueName,
+    jobId: job.id,
+    data: job.data,
+    failedReason: error.message,
+    stacktrace: job.stacktrace,
+    attemptsMade: job.attemptsMade,
+    failedAt: new Date().toISOString(),
+  }, { removeOnComplete: true, removeOnFail: true });
+};
 
+/** Start a worker for each of `names`; each queue's jobs run at its configured concurrency. */
+export const startWorkers = (names: JobName[] = JOB_NAMES) => {
+  for (const name of names) {
+    const definition = JOBS[name];
+    const worker = new Worker(
+      name,
+      async (job, token) => {
+        const start = Date.now();
+        // Several workers may consume a queue; the lock keeps each job to one run at a time cluster-wide
+        const ran = await withJobLock(name, () => definition.run(job.data, shutdown.signal));
+        if (!ran) {
+          // An interval job is covered by its next tick; a one-off job waits its turn instead of being dropped
+          if (definition.every) {
+            logger.debug(`[Jobs] ${name} #${job.id} skipped - already running on another instance`);
+            return;
+          }
+          logger.debug(`[Jobs] ${name} #${job.id} delayed - already running on another instance`);
+          return retryLater(job, token, definition.backoffMs);
+        }
+        if (definition.interruptible && shutdown.signal.aborted) {
+          logger.info(`[Jobs] ${name} #${job.id} interrupted by shutdown, requeued`);
+          return retryLater(job, token, 0);
+        }
+        logger.debug(`[Jobs] ${name} #${job.id} done in ${Date.now() - start}ms`);
+      },
+      { connection: getConnection(), prefix: PREFIX, concurrency: definition.concurrency }
+    );
+
+    worker.on('failed', (job, error) => {
+      if (!job) return;
+      if (job.attemptsMade < (job.opts.attempts ?? 1)) {
+        logger.warn(`[Jobs] ${name} #${job.id} failed (attempt ${job.attemptsMade}), retrying:`, error);
+        return;
+      }
+      logger.error(`[Jobs] ${name} #${job.id} failed after ${job.attemptsMade} attempts:`, error);
+      deadLetter(job, error).catch(err => logger.error(`[Jobs] Failed to dead-letter ${name} #${job.id}:`, err));
+    });
+    worker.on('error', error => logger.error(`[Jobs] ${name} worker error:`, error));
+    workers.push(worker);
+  }
+  logger.info(`[Jobs] Workers started: ${names.join(', ')}`);
+};
 
+/**
+ * Let running jobs finish (interruptible ones stop early and are requeued) and release their locks,
+ * then close workers, queues and the lock connection.
+ */
+export const stopWorkers = async () => {
+  shutdown.abort();
+  await Promise.all(workers.splice(0).map(worker => worker.close()));
+  await Promise.all([...queues.values()].map(queue => queue.close()));
+  queues.clear();
+  await closeJobLocks();
+  logger.info('[Jobs] Workers stopped');
+};
 
+export interface JobStatus {
+  name: JobName;
+  every?: number;
+  lock: JobLockInfo;
+  counts: Record<string, number>;
+}
+
+/** Queue depth and lock owner of every job, plus the dead-letter backlog. */
+export const getJobStatus = async (): Promise<{ jobs: JobStatus[]; deadLetters: number }> => {
+  const locks = await getJobLocks(JOB_NAMES);
+  const jobs = await Promise.all(
+    JOB_NAMES.map(async (name, i) => ({
+      name,
+      every: JOBS[name].every,
+      lock: locks[i],
+      counts: await getQueue(name).getJobCounts('active', 'waiting', 'delayed', 'failed'),
+    }))
+  );
+  const deadLetters = await getQueue(DEAD_LETTER_QUEUE).count();
+  return { jobs, deadLetters };
+};
@@ -0,0 +1,77 @@
+import os from 'os';
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+
+const LOCK_TTL_MS = Number(process.env.JOB_LOCK_TTL_MS ?? 30 * 1000);
+const PREFIX = `${process.env.JOB_QUEUE_PREFIX || 'serfu'}:lock:`;
+
+/** Identifies this process as a lock owner: host, pid and start time (a restarted pid is a new owner). */
+export const LOCK_OWNER = `${os.hostname()}:${process.pid}:${Date.now().toString(36)}`;
+
+export interface JobLockInfo {
+  name: string;
+  owner: string | null;
+  expiresInMs: number | null;
+}
+
+// Only the owner may extend or drop a lock; a lock that expired and was taken over stays with the new owner
+const RENEW = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+let redis: Redis | null = null;
+
+const getRedis = () => {
+  if (!redis) {
+    if (!process.env.REDIS_URL) throw new Error('REDIS_URL is required for job locks');
+    redis = new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 1 });
+  }
+  return redis;
+};
+
+/**
+ * Run `fn` only if no other process in the cluster is running the job `name`. The lock expires
+ * after JOB_LOCK_TTL_MS unless renewed, so a crashed owner hands over within one TTL; it is
+ * renewed every third of that while `fn` runs and released as soon as it ends.
+ * Returns false (without running) when another owner holds the lock.
+ */
+export const withJobLock = async (name: string, fn: () => Promise<unknown>): Promise<boolean> => {
+  const key = PREFIX + name;
+  const acquired = await getRedis().set(key, LOCK_OWNER, 'PX', LOCK_TTL_MS, 'NX');
+  if (acquired !== 'OK') return false;
+
+  const renewal = setInterval(() => {
+    getRedis()
+      .eval(RENEW, 1, key, LOCK_OWNER, LOCK_TTL_MS)
+      .then(renewed => {
+        if (!renewed) logger.warn(`[Jobs] Lost lock for ${name} while running; another instance may start it`);
+      })
+      .catch(error => logger.warn(`[Jobs] Failed to renew lock for ${name}:`, error));
+  }, LOCK_TTL_MS / 3);
+
+  try {
+    await fn();
+    return true;
+  } finally {
+    clearInterval(renewal);
+    await getRedis()
+      .eval(RELEASE, 1, key, LOCK_OWNER)
+      .catch(error => logger.warn(`[Jobs] Failed to release lock for ${name}, it expires in ${LOCK_TTL_MS}ms:`, error));
+  }
+};
+
+/** Current owner of each job lock, for debugging. */
+export const getJobLocks = async (names: string[]): Promise<JobLockInfo[]> => {
+  const client = getRedis();
+  return Promise.all(
+    names.map(async name => {
+      const [owner, ttl] = await Promise.all([client.get(PREFIX + name), client.pttl(PREFIX + name)]);
+      return { name, owner, expiresInMs: owner && ttl >= 0 ? ttl : null };
+    })
+  );
+};
+
+/** Close the lock connection; call after running jobs have finished (they release their locks). */
+export const closeJobLocks = async () => {
+  await redis?.quit();
+  redis = null;
+};
@@ -1,19 +1,33 @@
 import { prisma } from '../db';
 import { provider } from '../providers';
 import { logger } from '../utils/logger';
+import { withPriority } from '../providers/rateLimiter';
 import { getBotInstance } from '../bot/instance';
 import { scheduleAutoDelete } from '../utils/messageCleanup';
 import { getChatPreferences } from '../db/groups';
+import { checkQuotes, PRICE_SANITY } from '../analytics/priceSanity';
+import {
+  AlertBasis,
+  AlertRecipient,
+  claimAlertDelivery,
+  getDueAlertDeliveries,
+  getThresholdEventKeys,
+  markAlertDelivered,
+  markAlertFailed,
+  recordThresholdEvent,
+  thresholdKey,
+} from '../db/alerts';
+import { AlertDelivery } from '../generated/client';
 
 // Multipliers to check
 const PRICE_MULTIPLIERS = [2, 3, 4, 5, 10, 15, 20, 30, 50, 100];
 const MC_MULTIPLIERS = [2, 3, 4, 5, 10, 15, 20, 30, 50, 100];
 
-// Track which alerts have been sent (price and MC) to avoid duplicates
-// Keys are strings like "price_2" or "mc_5"
-const sentAlerts = new Map<number, Set<string>>(); // signalId -> Set of alert keys
+// Failed Telegram sends are retried with exponential backoff, up to ALERT_MAX_ATTEMPTS sends in total
+const ALERT_MAX_ATTEMPTS = Number(process.env.ALERT_MAX_ATTEMPTS ?? 5);
+const ALERT_RETRY_BASE_MS = Number(process.env.ALERT_RETRY_BASE_MS ?? 60 * 1000);
 
-export const checkPriceAlerts = async () => {
+export const checkPriceAlerts = () => withPriority('live', async () => {
   try {
     // Get all active signals with entry prices
     // Optimized to fetch related data once
@@ -43,12 +57,24 @@ export const checkPriceAlerts = async () => {
 
     logger.info(`Checking price alerts for ${activeSignals.length} active signals`);
 
+    const quotes = await provider.getQuotes(activeSignals.map(s => s.mint));
+    const checks = await checkQuotes(quotes);
+    // Thresholds alerted on before (by any run or instance) are not alerted again
+    const recorded = await getThresholdEventKeys(activeSignals.map(s => s.id));
+
     for (const signal of activeSignals) {
       if (!signal.entryPrice) continue;
 
       try {
         // Get current price
-        const quote = await provider.getQuote(signal.mint);
+        const quote = quotes[signal.mint];
+        if (!quote) continue;
+        // Unconfirmed spikes must not set an ATH or fire an alert
+        const check = checks[signal.mint];
+        if (!check.accepted || check.confidence < PRICE_SANITY.minConfidence) {
+          logger.debug(`Skipping alerts for ${signal.mint}: ${check.reason || `confidence ${check.confidence.toFixed(2)}`}`);
+          continue;
+        }
         const currentPrice = quote.price;
         const multiplier = currentPrice / signal.entryPrice;
 
@@ -90,67 +116,72 @@ export const checkPriceAlerts = async () => {
           }
         });
 
-        // Get notification settings (prefer user's, fallback to group owner's)
-        const settings = signal.user?.notificationSettings || 
-                        signal.group?.owner?.notificationSettings;
+        // Get notification settings (prefer user's, fallback to group owner's). Historical
+        // signals (imported or reprocessed past calls) record their thresholds but never alert
+        const settings = signal.historical
+          ? null
+          : signal.user?.notificationSettings || signal.group?.owner?.notificationSettings;
 
-        if (!settings) continue; // No settings, skip alerts but metrics updated
+        // Recipients are resolved before an event is recorded, once per basis and only if needed
+        const recipients = new Map<AlertBasis, Promise<AlertRecipient[]>>();
+        const recipientsFor = (basis: AlertBasis) => {
+          if (!recipients.has(basis)) recipients.set(basis, getAlertRecipients(signal, settings, basis));
+          return recipients.get(basis)!;
+        };
 
-        // Ensure alert set
-        if (!sentAlerts.has(signal.id)) {
-          sentAlerts.set(signal.id, new Set());
-        }
-        const sentKeys = sentAlerts.get(signal.id)!;
+        const entryMc = signal.entryMarketCap ?? (signal.entryPrice && signal.entrySupply ? signal.entryPrice * signal.entrySupply : null);
+        const currentMc = signal.entrySupply ? currentPrice * signal.entrySupply : null;
 
         // Price thresholds
         for (const threshold of PRICE_MULTIPLIERS) {
-          const key = `price_${threshold}`;
-          // Check if multiplier >= threshold AND we haven't sent this alert yet
-          if (multiplier >= threshold && !sentKeys.has(key)) {
-            const alertEnabled = getAlertEnabled(settings, threshold, 'price');
-            if (alertEnabled) {
-              await sendPriceAlert(signal, threshold, currentPrice, multiplier);
-            }
-            // Mark as sent regardless of enabled status to avoid re-checking logic
-            sentKeys.add(key);
-          }
+          if (multiplier < threshold || recorded.has(thresholdKey(signal.id, 'price', threshold))) continue;
+          const alert = settings && getAlertEnabled(settings, threshold, 'price')
+            ? { text: buildPriceAlertText(signal, threshold, currentPrice, multiplier), recipients: await recipientsFor('price') }
+            : undefined;
+          // Recorded regardless of alert settings: thresholds are hit-rate facts too
+          await recordThresholdEvent({
+            signalId: signal.id,
+            threshold,
+            basis: 'price',
+            hitPrice: currentPrice,
+            hitMarketCap: currentMc,
+            provider: quote.provider,
+          }, alert);
         }
 
         // MC thresholds (requires entry MC and a supply estimate)
-        const entryMc = signal.entryMarketCap ?? (signal.entryPrice && signal.entrySupply ? signal.entryPrice * signal.entrySupply : null);
-        if (entryMc && signal.entrySupply) {
-          const currentMc = currentPrice * signal.entrySupply;
+        if (entryMc && currentMc) {
           const mcMultiple = currentMc / entryMc;
           for (const threshold of MC_MULTIPLIERS) {
-            const key = `mc_${threshold}`;
-            if (mcMultiple >= threshold && !sentKeys.has(key)) {
-              const alertEnabled = getAlertEnabled(settings, threshold, 'mc');
-              if (alertEnabled) {
-                await sendMcAlert(signal, threshold, {
-                  currentPrice,
-                  currentMc,
-                  multiplier: mcMultiple,
-                  entryMc,
-                });
-              }
-              sentKeys.add(key);
-            }
+            if (mcMultiple < threshold || recorded.has(thresholdKey(signal.id, 'mc', threshold))) continue;
+            const alert = settings && getAlertEnabled(settings, threshold, 'mc')
+              ? {
+                  text: buildMcAlertText(signal, threshold, { currentPrice, currentMc, multiplier: mcMultiple, entryMc }),
+                  recipients: await recipientsFor('mc'),
+                }
+              : undefined;
+            await recordThresholdEvent({
+              signalId: signal.id,
+              threshold,
+              basis: 'mc',
+              hitPrice: currentPrice,
+              hitMarketCap: currentMc,
+              provider: quote.provider,
+            }, alert);
           }
         }
-
-        // Clean up old alerts (keep last 1000 signals)
-        if (sentAlerts.size > 1000) {
-          const oldestKeys = Array.from(sentAlerts.keys()).slice(0, 100);
-          oldestKeys.forEach(key => sentAlerts.delete(key));
-        }
       } catch (error) {
         logger.error(`Error checking price alert for signal ${signal.id}:`, error);
       }
     }
+
+    // New alerts and retries that are due
+    await deliverDueAlerts();
   } catch (error) {
     logger.error('Error in checkPriceAlerts:', error);
+    throw error;
   }
-};
+});
 
 const getAlertEnabled = (settings: any, multiplier: number, type: 'price' | 'mc'): boolean => {
   if (type === 'mc') {
@@ -184,20 +215,7 @@ const getAlertEnabled = (settings: any, multiplier: number, type: 'price' | 'mc'
   }
 };
 
-const sendPriceAlert = async (
-  signal: any,
-  threshold: number,
-  currentPrice: number,
-  multiplier: number
-) => {
-  try {
-    const bot = getBotInstance();
-    const settings = signal.user?.notificationSettings || 
-                    signal.group?.owner?.notificationSettings;
-
-    if (!settings) return;
-
-    const message = `
+const buildPriceAlertText = (signal: any, threshold: number, currentPrice: number, multiplier: number) => `
 🚨 *PRICE ALERT: ${threshold}x REACHED*
 
 *Token:* ${signal.name || 'Unknown'} (${signal.symbol || 'N/A'})
@@ -207,60 +225,13 @@ const sendPriceAlert = async (
 *Multiplier:* ${multiplier.toFixed(2)}x
 
 [View on Solscan](https://solscan.io/token/${signal.mint})
-    `.trim();
-
-    // Send to destination groups if enabled
-    if (settings.notifyDestination && signal.group?.owner?.userId) {
-      const { getDestinationGroups } = await import('../db/groups');
-      const ownerTelegramId = signal.group.owner.userId;
-      const destinations = await getDestinationGroups(ownerTelegramId);
-      for (const dest of destinations) {
-        const prefs = await getChatPreferences(dest.chatId);
-        const sent = await bot.telegram.sendMessage(Number(dest.chatId), message, {
-          parse_mode: 'Markdown',
-          reply_markup: prefs.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
-        });
-        scheduleAutoDelete(bot, dest.chatId, sent.message_id, prefs.autoDeleteSeconds ?? dest.autoDeleteSeconds ?? null);
-      }
-    }
-
-    // Send DM if enabled
-    if (settings.notifyInDM && signal.user?.userId) {
-    const sent = await bot.telegram.sendMessage(Number(signal.user.userId), message, {
-        parse_mode: 'Markdown',
-      });
-    scheduleAutoDelete(bot, signal.user.userId, sent.message_id);
-    }
-
-    // Send in group if enabled
-    if (settings.notifyInGroup && signal.chatId) {
-    const prefs = await getChatPreferences(BigInt(signal.chatId));
-    const sent = await bot.telegram.sendMessage(Number(signal.chatId), message, {
-        parse_mode: 'Markdown',
-        reply_markup: prefs.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
-      });
-    scheduleAutoDelete(bot, signal.chatId, sent.message_id, prefs.autoDeleteSeconds ?? null);
-    }
-
-    logger.info(`Sent ${threshold}x alert for signal ${signal.id}`);
-  } catch (error) {
-    logger.error(`Error sending price alert:`, error);
-  }
-};
+`.trim();
 
-const sendMcAlert = async (
+const buildMcAlertText = (
   signal: any,
   threshold: number,
   info: { currentPrice: number; currentMc: number; multiplier: number; entryMc: number }
-) => {
-  try {
-    const bot = getBotInstance();
-    const settings = signal.user?.notificationSettings || 
-                    signal.group?.owner?.notificationSettings;
-
-    if (!settings) return;
-
-    const message = `
+) => `
 🚨 *MC ALERT: ${threshold}x REACHED*
 
 *Token:* ${signal.name || 'Unknown'} (${signal.symbol || 'N/A'})
@@ -271,56 +242,104 @@ const sendMcAlert = async (
 *Multiplier:* ${info.multiplier.toFixed(2)}x
 
 [View on Solscan](https://solscan.io/token/${signal.mint})
-    `.trim();
-
-    // Send to destination groups if enabled
-    if (settings.notifyDestination && signal.group?.owner?.userId) {
-      const { getDestinationGroups } = await import('../db/groups');
-      const ownerTelegramId = signal.group.owner.userId;
-      const destinations = await getDestinationGroups(ownerTelegramId);
-      for (const dest of destinations) {
-        const prefs = await getChatPreferences(dest.chatId);
-        const sent = await bot.telegram.sendMessage(Number(dest.chatId), message, {
-          parse_mode: 'Markdown',
-          reply_markup: prefs.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
-        });
-        scheduleAutoDelete(bot, dest.chatId, sent.message_id, prefs.autoDeleteSeconds ?? dest.autoDeleteSeconds ?? null);
-      }
-    }
-
-    // Send DM if enabled
-    if (settings.notifyInDM && signal.user?.userId) {
-      const sent = await bot.telegram.sendMessage(Number(signal.user.userId), message, {
-        parse_mode: 'Markdown',
+`.trim();
+
+// Chats an alert goes to under the signal's notification settings; MC alerts also go to the home chat
+const getAlertRecipients = async (signal: any, settings: any, basis: AlertBasis): Promise<AlertRecipient[]> => {
+  const recipients: AlertRecipient[] = [];
+
+  // Destination groups if enabled
+  if (settings.notifyDestination && signal.group?.owner?.userId) {
+    const { getDestinationGroups } = await import('../db/groups');
+    const destinations = await getDestinationGroups(signal.group.owner.userId);
+    for (const dest of destinations) {
+      const prefs = await getChatPreferences(dest.chatId);
+      recipients.push({
+        chatId: dest.chatId,
+        channel: 'destination',
+        showHideButton: prefs.showHideButton,
+        autoDeleteSeconds: prefs.autoDeleteSeconds ?? dest.autoDeleteSeconds ?? null,
       });
-      scheduleAutoDelete(bot, signal.user.userId, sent.message_id);
     }
+  }
+
+  // DM if enabled
+  if (settings.notifyInDM && signal.user?.userId) {
+    recipients.push({ chatId: BigInt(signal.user.userId), channel: 'dm', showHideButton: false, autoDeleteSeconds: null });
+  }
+
+  // Source group if enabled
+  if (settings.notifyInGroup && signal.chatId) {
+    const prefs = await getChatPreferences(BigInt(signal.chatId));
+    recipients.push({
+      chatId: BigInt(signal.chatId),
+      channel: 'group',
+      showHideButton: prefs.showHideButton,
+      autoDeleteSeconds: prefs.autoDeleteSeconds ?? null,
+    });
+  }
 
-    // Send in group if enabled
-    if (settings.notifyInGroup && signal.chatId) {
-      const prefs = await getChatPreferences(BigInt(signal.chatId));
-      const sent = await bot.telegram.sendMessage(Number(signal.chatId), message, {
-        parse_mode: 'Markdown',
-        reply_markup: prefs.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
+  // Home chat if configured and allowed (reuse repost toggle)
+  if (basis === 'mc' && settings.homeChatId) {
+    const allowHome = settings.notifyHomeOnRepost || settings.notifyHomeOnFirstCa;
+    if (allowHome && settings.homeChatId !== signal.chatId) {
+      const prefs = await getChatPreferences(BigInt(settings.homeChatId));
+      recipients.push({
+        chatId: BigInt(settings.homeChatId),
+        channel: 'home',
+        showHideButton: prefs.showHideButton,
+        autoDeleteSeconds: prefs.autoDeleteSeconds ?? null,
       });
-      scheduleAutoDelete(bot, signal.chatId, sent.message_id, prefs.autoDeleteSeconds ?? null);
     }
+  }
 
-    // Send to home chat if configured and allowed (reuse repost toggle)
-    if (settings.homeChatId) {
-      const allowHome = settings.notifyHomeOnRepost || settings.notifyHomeOnFirstCa;
-      if (allowHome && settings.homeChatId !== signal.chatId) {
-        const prefs = await getChatPreferences(BigInt(settings.homeChatId));
-        const sent = await bot.telegram.sendMessage(Number(settings.homeChatId), message, {
-          parse_mode: 'Markdown',
-          reply_markup: prefs.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
-        });
-        scheduleAutoDelete(bot, settings.homeChatId, sent.message_id, prefs.autoDeleteSeconds ?? null);
-      }
+  return recipients;
+};
+
+/**
+ * When to retry a failed send after `attempts` attempts, or null to give up. Telegram's 400/403
+ * (chat not found, bot blocked or removed) won't succeed later; a 429 asks to wait `retry_after`.
+ */
+export const alertRetryAt = (attempts: number, error: any, now = Date.now()): Date | null => {
+  const code = error?.response?.error_code ?? error?.code;
+  if (code === 400 || code === 403) return null;
+  if (attempts >= ALERT_MAX_ATTEMPTS) return null;
+  const backoffMs = ALERT_RETRY_BASE_MS * 2 ** (attempts - 1);
+  const retryAfterMs = (error?.response?.parameters?.retry_after ?? 0) * 1000;
+  return new Date(now + Math.max(backoffMs, retryAfterMs));
+};
+
+const deliverAlert = async (delivery: AlertDelivery) => {
+  if (!(await claimAlertDelivery(delivery.id))) return;
+  const attempts = delivery.attempts + 1;
+  try {
+    const bot = getBotInstance();
+    const sent = await bot.telegram.sendMessage(Number(delivery.chatId), delivery.text, {
+      parse_mode: 'Markdown',
+      reply_markup: delivery.showHideButton ? { inline_keyboard: [[{ text: '🙈 Hide', callback_data: 'hide' }]] } : undefined,
+    });
+    await markAlertDelivered(delivery.id, sent.message_id);
+    scheduleAutoDelete(bot, delivery.chatId, sent.message_id, delivery.autoDeleteSeconds);
+    logger.info(`Sent alert #${delivery.thresholdEventId} to ${delivery.channel} ${delivery.chatId}`);
+  } catch (error: any) {
+    const retryAt = alertRetryAt(attempts, error);
+    await markAlertFailed(delivery.id, error?.message || String(error), retryAt);
+    if (retryAt) {
+      logger.warn(`Alert #${delivery.thresholdEventId} to ${delivery.chatId} failed (attempt ${attempts}), retrying at ${retryAt.toISOString()}:`, error?.message);
+    } else {
+      logger.error(`Alert #${delivery.thresholdEventId} to ${delivery.chatId} failed after ${attempts} attempts:`, error?.message);
     }
+  }
+};
 
-    logger.info(`Sent MC ${threshold}x alert for signal ${signal.id}`);
-  } catch (error) {
-    logger.error(`Error sending MC alert:`, error);
+/** Send pending alert deliveries that are due, first attempts and retries alike. */
+export const deliverDueAlerts = async () => {
+  const due = await getDueAlertDeliveries();
+  for (const delivery of due) {
+    try {
+      await deliverAlert(delivery);
+    } catch (error) {
+      logger.error(`Error delivering alert ${delivery.id}:`, error);
+    }
   }
 };
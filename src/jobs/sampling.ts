@@ -1,115 +1,172 @@
 import { prisma } from '../db';
 import { provider } from '../providers';
-import { addPriceSample, getLatestSample } from '../db/samples';
+import { addPriceSample, getLatestSamples, quarantinePrice, seriesKey } from '../db/samples';
 import { logger } from '../utils/logger';
-import { differenceInMinutes, differenceInHours } from 'date-fns';
+import { withPriority } from '../providers/rateLimiter';
+import { differenceInMinutes } from 'date-fns';
 import { notifySignal } from '../bot/notifier'; // For alerts later
 import { updateSignalMetrics } from '../analytics/metrics';
-import { checkPriceAlerts } from './priceAlerts';
+import { checkQuotes } from '../analytics/priceSanity';
+import { recordTokenMetas } from '../db/tokens';
 
-// Determine if signal is due for sampling
-const isDueForSampling = (signal: any, lastSampleAt: Date | null): boolean => {
-  const now = new Date();
-  const ageMinutes = differenceInMinutes(now, signal.detectedAt);
-  
-  // If never sampled, it's due
+// Minutes between samples a signal of this age needs
+const samplingIntervalMinutes = (detectedAt: Date): number => {
+  const ageMinutes = differenceInMinutes(new Date(), detectedAt);
+  if (ageMinutes < 120) return 1; // 0-2h: 1m
+  if (ageMinutes < 720) return 5; // 2-12h: 5m
+  if (ageMinutes < 4320) return 15; // 12-72h (3d): 15m
+  if (ageMinutes < 20160) return 60; // 3-14d: 60m
+  if (ageMinutes < 86400) return 360; // 14-60d: 6h
+  return 1440; // 60d+: 24h
+};
+
+// A series is sampled at the fastest cadence any of its signals needs
+export const isMintDue = (signals: { detectedAt: Date }[], lastSampleAt: Date | null): boolean => {
   if (!lastSampleAt) return true;
-  
-  const minutesSinceSample = differenceInMinutes(now, lastSampleAt);
-  
-  // Schedule
-  if (ageMinutes < 120) return minutesSinceSample >= 1; // 0-2h: 1m
-  if (ageMinutes < 720) return minutesSinceSample >= 5; // 2-12h: 5m
-  if (ageMinutes < 4320) return minutesSinceSample >= 15; // 12-72h (3d): 15m
-  if (ageMinutes < 20160) return minutesSinceSample >= 60; // 3-14d: 60m
-  if (ageMinutes < 86400) return minutesSinceSample >= 360; // 14-60d: 6h
-  return minutesSinceSample >= 1440; // 60d+: 24h
+  const interval = Math.min(...signals.map(s => samplingIntervalMinutes(s.detectedAt)));
+  return differenceInMinutes(new Date(), lastSampleAt) >= interval;
 };
 
-export const runSamplingCycle = async () => {
+export const runSamplingCycle = () => withPriority('live', async () => {
   logger.info('Starting sampling cycle...');
   
   try {
     const signals = await prisma.signal.findMany({
       where: { trackingStatus: { in: ['ACTIVE', 'ENTRY_PENDING'] } },
       include: {
-        priceSamples: {
-          orderBy: { sampledAt: 'desc' },
-          take: 1
-        }
+        // Whether the signal has its entry sample yet
+        priceSamples: { select: { id: true }, take: 1 }
       }
     });
 
-            const dueSignals = signals.filter((s: any) => {
-      const lastSample = s.priceSamples[0]?.sampledAt || null;
-      return isDueForSampling(s, lastSample);
-    });
+    // One series per (chain, mint), shared by every signal on it
+    const signalsBySeries = new Map<string, typeof signals>();
+    for (const signal of signals) {
+      const key = seriesKey(signal.chain, signal.mint);
+      signalsBySeries.set(key, [...(signalsBySeries.get(key) || []), signal]);
+    }
+    const latest = await getLatestSamples(signals);
+    const due = [...signalsBySeries.entries()]
+      .filter(([key, seriesSignals]) => isMintDue(seriesSignals, latest[key]?.sampledAt || null))
+      .map(([, seriesSignals]) => seriesSignals);
 
-    if (dueSignals.length === 0) {
-      logger.info('No signals due for sampling.');
+    if (due.length === 0) {
+      logger.info('No mints due for sampling.');
       return;
     }
 
-    logger.info(`Sampling ${dueSignals.length} signals...`);
+    logger.info(`Sampling ${due.length} mints for ${signals.length} signals...`);
+
+    // One batched lookup per cycle and one sample per series
+    const mints = [...new Set(due.map(seriesSignals => seriesSignals[0].mint))];
+    const [quotes, metas] = await Promise.all([provider.getQuotes(mints), provider.getTokenMetas(mints)]);
+    const checks = await checkQuotes(quotes);
+    const mintsByChain = new Map<string, string[]>();
+    for (const [{ chain, mint }] of due) {
+      mintsByChain.set(chain, [...(mintsByChain.get(chain) || []), mint]);
+    }
+    for (const [chain, chainMints] of mintsByChain) {
+      await recordTokenMetas(Object.fromEntries(chainMints.map(mint => [mint, metas[mint]])), chain);
+    }
+
+    // Outliers are quarantined once per series, against the first signal sampling it
+    for (const [signal] of due) {
+      const mint = signal.mint;
+      const check = checks[mint];
+      if (!check || check.accepted) continue;
+      logger.warn(
+        `Quarantined ${quotes[mint]!.source} price ${quotes[mint]!.price} for ${mint}: ${check.reason}` +
+          (check.referencePrice ? ` (recent ${check.referencePrice})` : '') +
+          (check.secondaryPrice ? ` (${check.secondaryProvider} ${check.secondaryPrice})` : '')
+      );
+      await quarantinePrice(signal.id, mint, quotes[mint]!.price, quotes[mint]!.source, check).catch(error =>
+        logger.error(`Failed to quarantine price for ${mint}:`, error)
+      );
+    }
+
+    for (const mintSignals of due) {
+      const { chain, mint } = mintSignals[0];
+      const quote = quotes[mint];
+      const meta = metas[mint];
+      if (!quote) {
+        logger.warn(`No price data for ${mint}, skipping sample`);
+        continue;
+      }
+      const check = checks[mint];
+      if (!check.accepted) continue;
+
+      // Calculate market cap: prefer liveMarketCap, then marketCap, then calculate from price * supply
+      let marketCap: number | null = null;
+      if (meta?.liveMarketCap) {
+        marketCap = meta.liveMarketCap;
+      } else if (meta?.marketCap) {
+        marketCap = meta.marketCap;
+      } else if (quote.price && meta?.supply) {
+        marketCap = quote.price * meta.supply;
+      }
 
-    // Group by mint to batch (if provider supported batching, which we simulated individually for now)
-    // We will run them in parallel with concurrency limit
-    // For now, simple loop
-    
-    for (const signal of dueSignals) {
       try {
-        const quote = await provider.getQuote(signal.mint);
-        const meta = await provider.getTokenMeta(signal.mint);
-        
-        // Calculate market cap: prefer liveMarketCap, then marketCap, then calculate from price * supply
-        let marketCap: number | null = null;
-        if (meta.liveMarketCap) {
-          marketCap = meta.liveMarketCap;
-        } else if (meta.marketCap) {
-          marketCap = meta.marketCap;
-        } else if (quote.price && meta.supply) {
-          marketCap = quote.price * meta.supply;
+        // The sample is the entry sample of signals that have none yet; a second new signal on
+        // the same mint in one cycle (rare) gets its own copy so each keeps its entry row
+        const [first, ...others] = mintSignals.filter(s => s.priceSamples.length === 0);
+        for (const signalId of [first?.id ?? null, ...others.map(s => s.id)]) {
+          await addPriceSample(
+            signalId,
+            mint,
+            quote.price,
+            quote.source,
+            marketCap,
+            meta?.volume24h || null,
+            meta?.liquidity || null,
+            check.confidence,
+            chain
+          );
         }
-        
-        await addPriceSample(
-          signal.id,
-          signal.mint,
-          quote.price,
-          quote.source,
-          marketCap,
-          meta.volume24h || null,
-          meta.liquidity || null
-        );
+      } catch (error) {
+        logger.error(`Failed to sample ${mint}:`, error);
+        continue;
+      }
 
-        if (!signal.entryMarketCap && marketCap) {
-          await prisma.signal.update({
-            where: { id: signal.id },
-            data: {
-              entryMarketCap: marketCap,
-              entryPrice: quote.price || signal.entryPrice,
-              entryPriceAt: signal.entryPriceAt || new Date(),
-              entryPriceProvider: quote.source || signal.entryPriceProvider,
-              entrySupply: signal.entrySupply || meta.supply || null,
-              trackingStatus: 'ACTIVE',
-            },
-          });
-        }
+      for (const signal of mintSignals) {
+        try {
+          if (!signal.entryMarketCap && signal.entryPrice && meta?.supply) {
+            // Priced entry (e.g. historical import) only lacked supply: keep the entry, derive its MC
+            await prisma.signal.update({
+              where: { id: signal.id },
+              data: {
+                entryMarketCap: signal.entryPrice * meta.supply,
+                entrySupply: signal.entrySupply || meta.supply,
+                trackingStatus: 'ACTIVE',
+              },
+            });
+          } else if (!signal.entryMarketCap && marketCap && !signal.historical) {
+            await prisma.signal.update({
+              where: { id: signal.id },
+              data: {
+                entryMarketCap: marketCap,
+                entryPrice: quote.price || signal.entryPrice,
+                entryPriceAt: signal.entryPriceAt || new Date(),
+                entryPriceProvider: quote.source || signal.entryPriceProvider,
+                entrySupply: signal.entrySupply || meta?.supply || null,
+                trackingStatus: 'ACTIVE',
+              },
+            });
+          }
         
-        // Update Metrics & Check Thresholds (use market cap when available)
-        // updateSignalMetrics only takes ID now, enrichment handles fetching/calc
-        await updateSignalMetrics(signal.id);
+          // Update Metrics & Check Thresholds (use market cap when available)
+          // updateSignalMetrics only takes ID now, enrichment handles fetching/calc
+          await updateSignalMetrics(signal.id);
         
-      } catch (error) {
-        logger.error(`Failed to sample ${signal.mint}:`, error);
+        } catch (error) {
+          logger.error(`Failed to update signal ${signal.id} after sampling ${mint}:`, error);
+        }
       }
     }
     
     logger.info('Sampling cycle complete.');
-    
-    // Check price alerts after sampling
-    await checkPriceAlerts();
   } catch (error) {
     logger.error('Error in sampling cycle:', error);
+    throw error;
   }
-};
+});
 
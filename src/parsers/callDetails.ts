@@ -0,0 +1,149 @@
+// Structured call parsing: pulls the caller's claimed MC / entry price, stated targets
+// and a category/narrative out of free-form call text.
+
+export interface CallTarget {
+  kind: 'multiple' | 'mcap' | 'price';
+  value: number;
+}
+
+export interface ParsedCallDetails {
+  reportedMcapText?: string;
+  reportedMcap?: number;
+  reportedPriceText?: string;
+  reportedPrice?: number;
+  targets: CallTarget[];
+  category?: string;
+}
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Normalize "1,200", "1.2", "45" + optional k/m/b suffix into a number.
+ * A comma followed by exactly three digits is a thousands separator, otherwise a decimal point.
+ */
+export const parseAmount = (raw: string, suffix?: string): number | null => {
+  let cleaned = raw.trim();
+  if (/,\d{3}(?!\d)/.test(cleaned)) {
+    cleaned = cleaned.replace(/,/g, '');
+  } else {
+    cleaned = cleaned.replace(',', '.');
+  }
+  const value = parseFloat(cleaned);
+  if (!Number.isFinite(value) || value <= 0) return null;
+  const mult = suffix ? SUFFIX_MULTIPLIERS[suffix.toLowerCase()] || 1 : 1;
+  return value * mult;
+};
+
+const NUM = '(\\d[\\d,]*(?:\\.\\d+)?)';
+const SUFFIX = '([kmb])?(?![a-z])';
+
+// "MC: 120k", "mcap $1.2M", "market cap - 45K"
+const MC_PREFIX_REGEX = new RegExp(`\\b(?:mc|mcap|market\\s*cap|m\\.c\\.)\\s*[:=@\\-]?\\s*(?:at\\s*)?\\$?\\s*${NUM}\\s*${SUFFIX}`, 'i');
+// "120k mc", "$45K mcap"
+const MC_SUFFIX_REGEX = new RegExp(`\\$?${NUM}\\s*([kmb])\\s*(?:mc|mcap|market\\s*cap)\\b`, 'i');
+// "entry: 30k", "entry @ $0.00012", "entered at 50k"
+const ENTRY_REGEX = new RegExp(`\\b(?:entry|entered|entering|buy(?:ing)?\\s+(?:at|@)|in\\s+at)\\s*[:=@\\-]?\\s*(?:at\\s*)?\\$?\\s*${NUM}\\s*${SUFFIX}`, 'i');
+// "price: $0.00045", "@ $0.0012"
+const PRICE_REGEX = /(?:\bprice\s*[:=@-]?\s*|@\s*)\$\s*(\d*\.\d+|\d+)/i;
+// "TP: 2x, 5x, 10x", "targets 200k / 500k / 1m"
+const TARGETS_REGEX = /\b(?:tps?|targets?|tgts?)\b\s*[:=\-]?\s*((?:\$?\d[\d,]*(?:\.\d+)?\s*[xkmb]?\s*(?:mc)?\s*(?:[,/|&]|\band\b|\s|->|→)*\s*)+)/i;
+const TARGET_ITEM_REGEX = /\$?(\d[\d,]*(?:\.\d+)?)\s*([xkmb])?/gi;
+
+// Ordered: first matching narrative wins
+const CATEGORY_KEYWORDS: Array<{ category: string; keywords: RegExp }> = [
+  { category: 'AI', keywords: /\b(ai|agent|agents|gpt|llm|agi|neural)\b|#ai\b/i },
+  { category: 'Political', keywords: /\b(trump|maga|biden|political|politics|election|president)\b/i },
+  { category: 'Celebrity', keywords: /\b(celeb|celebrity|influencer|elon|kanye|drake|rapper)\b/i },
+  { category: 'Gaming', keywords: /\b(game|gaming|gamefi|play\s*to\s*earn|p2e)\b/i },
+  { category: 'DeFi', keywords: /\b(defi|yield|staking|lending|perps?)\b/i },
+  { category: 'Utility', keywords: /\b(utility|tool|platform|infrastructure)\b/i },
+  { category: 'CTO', keywords: /\b(cto|community\s*take\s*over|community\s*takeover)\b/i },
+  { category: 'Animal', keywords: /\b(dog|doge|shib|inu|cat|kitty|frog|pepe|monkey|ape\s*coin|penguin|hamster)\b/i },
+  { category: 'Meme', keywords: /\b(meme|memecoin|degen|moon\s*shot|pump\.fun)\b|#meme\b/i },
+];
+
+// Explicit "category: X" / "narrative: X" labels win over keyword matching when we know the label
+const CATEGORY_TAG_REGEX = /(?:category|narrative|sector)\s*[:=\-]\s*([a-z][a-z\s]{1,20})/i;
+
+const detectCategory = (text: string): string | undefined => {
+  const tagged = text.match(CATEGORY_TAG_REGEX);
+  if (tagged) {
+    const label = tagged[1].trim().split(/\s+/)[0];
+    const known = CATEGORY_KEYWORDS.find(c => c.category.toLowerCase() === label.toLowerCase());
+    if (known) return known.category;
+  }
+  return CATEGORY_KEYWORDS.find(c => c.keywords.test(text))?.category;
+};
+
+const parseTargets = (text: string): CallTarget[] => {
+  const match = text.match(TARGETS_REGEX);
+  if (!match) return [];
+  const targets: CallTarget[] = [];
+  for (const item of match[1].matchAll(TARGET_ITEM_REGEX)) {
+    const suffix = item[2]?.toLowerCase();
+    if (suffix === 'x') {
+      const value = parseAmount(item[1]);
+      if (value && value > 1) targets.push({ kind: 'multiple', value });
+    } else {
+      const value = parseAmount(item[1], suffix);
+      if (!value) continue;
+      // Bare small numbers ("TP 2 5 10") are multiples; suffixed/large numbers are MC levels
+      if (!suffix && value < 1) targets.push({ kind: 'price', value });
+      else if (!suffix && value <= 100) targets.push({ kind: 'multiple', value });
+      else targets.push({ kind: 'mcap', value });
+    }
+  }
+  return targets;
+};
+
+export const parseCallDetails = (text: string): ParsedCallDetails => {
+  const result: ParsedCallDetails = { targets: [] };
+  if (!text) return result;
+
+  // Strip addresses/links so their digits are never read as numbers
+  const cleaned = text
+    .replace(/https?:\/\/\S+/gi, ' ')
+    .replace(/\b0x[a-fA-F0-9]{40}\b/g, ' ')
+    .replace(/[1-9A-HJ-NP-Za-km-z]{32,44}/g, ' ');
+
+  const mc = cleaned.match(MC_PREFIX_REGEX) || cleaned.match(MC_SUFFIX_REGEX);
+  if (mc) {
+    const value = parseAmount(mc[1], mc[2]);
+    if (value && value >= 1000) {
+      result.reportedMcapText = mc[0].trim();
+      result.reportedMcap = value;
+    }
+  }
+
+  const entry = cleaned.match(ENTRY_REGEX);
+  if (entry) {
+    const value = parseAmount(entry[1], entry[2]);
+    if (value) {
+      // Entries with a k/m/b suffix or large values are MC levels; small values are token prices
+      if (entry[2] || value >= 1000) {
+        if (!result.reportedMcap) {
+          result.reportedMcapText = entry[0].trim();
+          result.reportedMcap = value;
+        }
+      } else if (value < 1) {
+        result.reportedPriceText = entry[0].trim();
+        result.reportedPrice = value;
+      }
+    }
+  }
+
+  if (!result.reportedPrice) {
+    const price = cleaned.match(PRICE_REGEX);
+    if (price) {
+      const value = parseAmount(price[1]);
+      if (value && value < 1000) {
+        result.reportedPriceText = price[0].trim();
+        result.reportedPrice = value;
+      }
+    }
+  }
+
+  result.targets = parseTargets(cleaned);
+  result.category = detectCategory(cleaned);
+  return result;
+};
@@ -0,0 +1,98 @@
+// Forward origin of a Telegram message. Bot API 7.0+ sends `forward_origin`;
+// older payloads (and some clients) still carry the legacy forward_* fields.
+
+export type ForwardOriginType = 'user' | 'hidden_user' | 'chat' | 'channel';
+
+export interface ForwardOrigin {
+  forwardOriginType: ForwardOriginType;
+  forwardFromChatId: bigint | null;
+  forwardFromChatTitle: string | null;
+  forwardFromMessageId: number | null;
+  forwardFromUserId: bigint | null;
+  forwardAuthor: string | null;
+  forwardDate: Date;
+}
+
+const chatTitle = (chat: any): string | null =>
+  chat?.title || (chat?.username ? `@${chat.username}` : null);
+
+const userName = (user: any): string | null => {
+  if (!user) return null;
+  if (user.username) return `@${user.username}`;
+  const full = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return full || null;
+};
+
+/**
+ * Read the forward origin from a message or channel post. Returns null for messages
+ * that were not forwarded.
+ */
+export const extractForwardOrigin = (message: any): ForwardOrigin | null => {
+  if (!message) return null;
+
+  const origin = message.forward_origin;
+  if (origin && origin.type && origin.date) {
+    const base: ForwardOrigin = {
+      forwardOriginType: origin.type,
+      forwardFromChatId: null,
+      forwardFromChatTitle: null,
+      forwardFromMessageId: null,
+      forwardFromUserId: null,
+      forwardAuthor: null,
+      forwardDate: new Date(origin.date * 1000),
+    };
+    switch (origin.type) {
+      case 'channel':
+        return {
+          ...base,
+          forwardFromChatId: origin.chat?.id ? BigInt(origin.chat.id) : null,
+          forwardFromChatTitle: chatTitle(origin.chat),
+          forwardFromMessageId: origin.message_id ?? null,
+          forwardAuthor: origin.author_signature || null,
+        };
+      case 'chat':
+        return {
+          ...base,
+          forwardFromChatId: origin.sender_chat?.id ? BigInt(origin.sender_chat.id) : null,
+          forwardFromChatTitle: chatTitle(origin.sender_chat),
+          forwardAuthor: origin.author_signature || null,
+        };
+      case 'user':
+        return {
+          ...base,
+          forwardFromUserId: origin.sender_user?.id ? BigInt(origin.sender_user.id) : null,
+          forwardAuthor: userName(origin.sender_user),
+        };
+      case 'hidden_user':
+        return { ...base, forwardAuthor: origin.sender_user_name || null };
+      default:
+        return base;
+    }
+  }
+
+  // Legacy fields
+  if (!message.forward_date) return null;
+  const fwdChat = message.forward_from_chat;
+  const fwdUser = message.forward_from;
+  return {
+    forwardOriginType: fwdChat ? (fwdChat.type === 'channel' ? 'channel' : 'chat') : fwdUser ? 'user' : 'hidden_user',
+    forwardFromChatId: fwdChat?.id ? BigInt(fwdChat.id) : null,
+    forwardFromChatTitle: chatTitle(fwdChat),
+    forwardFromMessageId: message.forward_from_message_id ?? null,
+    forwardFromUserId: fwdUser?.id ? BigInt(fwdUser.id) : null,
+    forwardAuthor: message.forward_signature || userName(fwdUser) || message.forward_sender_name || null,
+    forwardDate: new Date(message.forward_date * 1000),
+  };
+};
+
+/** Human label for a forward origin ("Alpha Calls · dev"). */
+export const formatForwardOrigin = (origin: {
+  forwardFromChatTitle?: string | null;
+  forwardAuthor?: string | null;
+}): string => {
+  const source = origin.forwardFromChatTitle || origin.forwardAuthor || 'Forwarded source';
+  if (origin.forwardFromChatTitle && origin.forwardAuthor) {
+    return `${source} · ${origin.forwardAuthor}`;
+  }
+  return source;
+};
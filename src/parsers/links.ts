@@ -0,0 +1,222 @@
+import { ChainId, ExtractedAddress, extractAddresses } from './mint';
+import { fetchDexScreenerToken, getDexScreenerPair } from '../providers/dexscreener';
+import { logger } from '../utils/logger';
+
+export type LinkType =
+  | 'dexscreener'
+  | 'pumpfun'
+  | 'birdeye'
+  | 'photon'
+  | 'gmgn'
+  | 'solscan'
+  | 'bscscan'
+  | 'basescan';
+
+export interface LinkMatch {
+  linkType: LinkType;
+  url: string;
+  address: string; // Raw address found in the URL (mint or pool)
+  chain: ChainId;
+  isPool: boolean; // true = pool/pair address that must be resolved to the base mint
+  maybePool: boolean; // true = URL may hold either a pool or a token (DexScreener)
+}
+
+export interface LinkedAddress extends ExtractedAddress {
+  linkType: LinkType;
+}
+
+interface LinkPattern {
+  linkType: LinkType;
+  regex: RegExp;
+  // Maps a regex match to chain + address; return null to ignore the match
+  map: (m: RegExpMatchArray) => { chain: ChainId; address: string; isPool?: boolean; maybePool?: boolean } | null;
+}
+
+const ADDR = '(0x[a-fA-F0-9]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})';
+
+const CHAIN_ALIASES: Record<string, ChainId> = {
+  solana: 'solana',
+  sol: 'solana',
+  bsc: 'bsc',
+  bnb: 'bsc',
+  base: 'base',
+};
+
+const toChain = (value?: string): ChainId | null => {
+  if (!value) return 'solana';
+  return CHAIN_ALIASES[value.toLowerCase()] || null;
+};
+
+const LINK_PATTERNS: LinkPattern[] = [
+  {
+    // dexscreener.com/solana/<pair|token>
+    linkType: 'dexscreener',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?dexscreener\\.com/([a-z]+)/${ADDR}`, 'gi'),
+    map: (m) => {
+      const chain = toChain(m[1]);
+      return chain ? { chain, address: m[2], maybePool: true } : null;
+    },
+  },
+  {
+    // pump.fun/coin/<mint>, pump.fun/<mint>
+    linkType: 'pumpfun',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?pump\\.fun/(?:coin/)?${ADDR}`, 'gi'),
+    map: (m) => ({ chain: 'solana', address: m[1] }),
+  },
+  {
+    // birdeye.so/token/<mint>?chain=solana, birdeye.so/solana/token/<mint>
+    linkType: 'birdeye',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?birdeye\\.so/(?:([a-z]+)/)?token/${ADDR}(?:\\?[^\\s]*?chain=([a-z]+))?`, 'gi'),
+    map: (m) => {
+      const chain = toChain(m[1] || m[3]);
+      return chain ? { chain, address: m[2] } : null;
+    },
+  },
+  {
+    // photon-sol.tinyastro.io/en/lp/<pool>
+    linkType: 'photon',
+    regex: new RegExp(`(?:https?://)?photon-sol\\.tinyastro\\.io/(?:[a-z]{2}/)?lp/${ADDR}`, 'gi'),
+    map: (m) => ({ chain: 'solana', address: m[1], isPool: true }),
+  },
+  {
+    // gmgn.ai/sol/token/<mint>, gmgn.ai/sol/token/<ref>_<mint>
+    linkType: 'gmgn',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?gmgn\\.ai/([a-z]+)/token/(?:[A-Za-z0-9]+_)?${ADDR}`, 'gi'),
+    map: (m) => {
+      const chain = toChain(m[1]);
+      return chain ? { chain, address: m[2] } : null;
+    },
+  },
+  {
+    linkType: 'solscan',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?solscan\\.io/token/${ADDR}`, 'gi'),
+    map: (m) => ({ chain: 'solana', address: m[1] }),
+  },
+  {
+    linkType: 'bscscan',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?bscscan\\.com/token/${ADDR}`, 'gi'),
+    map: (m) => ({ chain: 'bsc', address: m[1] }),
+  },
+  {
+    linkType: 'basescan',
+    regex: new RegExp(`(?:https?://)?(?:www\\.)?basescan\\.org/token/${ADDR}`, 'gi'),
+    map: (m) => ({ chain: 'base', address: m[1] }),
+  },
+];
+
+// Quote-side tokens: if a pair's base is one of these, the called token is the quote side
+const QUOTE_MINTS = new Set([
+  'So11111111111111111111111111111111111111112', // WSOL
+  'EPjFWdd5AufqSSqeM2qJxgLWwzR7DqsZJcZf5ZCU3Xo', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+  '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c', // WBNB
+  '0x55d398326f99059ff775485246999027b3197955', // BSC-USD
+  '0x4200000000000000000000000000000000000006', // WETH (Base)
+  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', // USDC (Base)
+]);
+
+const DEXSCREENER_CHAIN_IDS: Record<ChainId, string> = {
+  solana: 'solana',
+  bsc: 'bsc',
+  base: 'base',
+};
+
+// Pool -> base mint never changes, so resolutions are cached for the process lifetime
+const poolCache = new Map<string, string | null>();
+const POOL_CACHE_MAX = 5000;
+
+/**
+ * Recognise DEX/launchpad/explorer links in text. Pure (no network).
+ * Links are returned in order of appearance; each URL yields at most one match.
+ */
+export const parseLinks = (text: string): LinkMatch[] => {
+  if (!text) return [];
+  const matches: Array<LinkMatch & { index: number }> = [];
+
+  for (const pattern of LINK_PATTERNS) {
+    for (const m of text.matchAll(pattern.regex)) {
+      const mapped = pattern.map(m);
+      if (!mapped) continue;
+      matches.push({
+        linkType: pattern.linkType,
+        url: m[0],
+        address: mapped.address,
+        chain: mapped.chain,
+        isPool: mapped.isPool ?? false,
+        maybePool: mapped.maybePool ?? false,
+        index: m.index ?? 0,
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, ...rest }) => rest);
+};
+
+/**
+ * Remove recognised links from text so the bare-address stage does not pick up
+ * pool addresses (or the same mint twice).
+ */
+export const stripLinks = (text: string): string => {
+  if (!text) return text;
+  return LINK_PATTERNS.reduce((acc, pattern) => acc.replace(pattern.regex, ' '), text);
+};
+
+const resolvePool = async (link: LinkMatch): Promise<string | null> => {
+  const cacheKey = `${link.chain}:${link.address}`;
+  if (poolCache.has(cacheKey)) return poolCache.get(cacheKey)!;
+
+  // A failed lookup (null) drops the link rather than taking a possible pool address as the mint
+  const pair = await getDexScreenerPair(DEXSCREENER_CHAIN_IDS[link.chain], link.address);
+  if (pair === null) return null;
+
+  let resolved: string | null;
+  if (pair === undefined) {
+    // Not a known pair: DexScreener links also accept token addresses, but only a token with
+    // listed pairs is taken; a pool DexScreener has not indexed yet must not become a mint
+    if (!link.maybePool || !(await fetchDexScreenerToken(link.address))) return null;
+    resolved = link.address;
+  } else {
+    const base = link.chain === 'solana' ? pair.baseToken : pair.baseToken.toLowerCase();
+    const quote = link.chain === 'solana' ? pair.quoteToken : pair.quoteToken?.toLowerCase();
+    resolved = QUOTE_MINTS.has(base) && quote ? quote : base;
+  }
+
+  if (poolCache.size >= POOL_CACHE_MAX) poolCache.clear();
+  poolCache.set(cacheKey, resolved);
+  return resolved;
+};
+
+/**
+ * Link-aware extraction stage: recognised links -> validated mints.
+ * Pool/pair URLs are resolved to the token mint via DexScreener.
+ */
+export const extractLinkedMints = async (text: string): Promise<LinkedAddress[]> => {
+  const links = parseLinks(text);
+  if (links.length === 0) return [];
+
+  const results: LinkedAddress[] = [];
+  const seen = new Set<string>();
+
+  for (const link of links) {
+    let address: string | null = link.address;
+    if (link.isPool || link.maybePool) {
+      try {
+        address = await resolvePool(link);
+      } catch (err) {
+        logger.debug(`Failed to resolve ${link.linkType} pool ${link.address}:`, err);
+        address = null;
+      }
+    }
+    if (!address) continue;
+
+    // Validate the address itself (base58 length / EVM checksum)
+    const [valid] = await extractAddresses(address);
+    if (!valid || seen.has(valid.address)) continue;
+    seen.add(valid.address);
+    results.push({ address: valid.address, chain: link.chain, linkType: link.linkType });
+  }
+
+  return results;
+};
@@ -1,3 +1,6 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+
 // Dynamic import for ESM module
 let bs58: any;
 
@@ -8,27 +11,100 @@ const getBs58 = async () => {
   return bs58.default || bs58;
 };
 
+export type ChainId = 'solana' | 'bsc' | 'base';
+
+export interface ExtractedAddress {
+  address: string;
+  chain: ChainId;
+}
+
 // Basic regex for Base58 string of correct length
 const BASE58_REGEX = /[1-9A-HJ-NP-Za-km-z]{32,44}/g;
 
-export const extractMints = async (text: string): Promise<string[]> => {
+// EVM contract address (20 bytes hex, 0x-prefixed)
+const EVM_REGEX = /\b0x[a-fA-F0-9]{40}\b/g;
+const EVM_ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Chain hints for EVM addresses. The address itself is identical on every EVM chain,
+// so we rely on explorer/DEX links and explicit mentions. BSC is the default.
+const BASE_HINTS = /basescan\.org|dexscreener\.com\/base\/|geckoterminal\.com\/base\/|#base\b|\bon base\b|\bbase chain\b|\(base\)/i;
+const BSC_HINTS = /bscscan\.com|dexscreener\.com\/bsc\/|four\.meme|pancakeswap|\bbsc\b|\bbnb\b/i;
+
+/**
+ * EIP-55 checksum validation.
+ * All-lowercase / all-uppercase addresses carry no checksum and are accepted as-is.
+ */
+export const isValidEvmAddress = (address: string): boolean => {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) return false;
+  const body = address.slice(2);
+  if (body === body.toLowerCase() || body === body.toUpperCase()) return true;
+
+  const hash = bytesToHex(keccak_256(body.toLowerCase()));
+  for (let i = 0; i < 40; i++) {
+    const char = body[i];
+    if (!/[a-fA-F]/.test(char)) continue;
+    const shouldBeUpper = parseInt(hash[i], 16) >= 8;
+    if (shouldBeUpper !== (char === char.toUpperCase())) return false;
+  }
+  return true;
+};
+
+export const detectEvmChain = (text: string): ChainId => {
+  const isBase = BASE_HINTS.test(text);
+  const isBsc = BSC_HINTS.test(text);
+  if (isBase && !isBsc) return 'base';
+  return 'bsc';
+};
+
+/**
+ * Extract contract addresses from text, tagged with their chain, in order of appearance.
+ * EVM addresses are normalized to lowercase so differently-cased pastes dedupe.
+ */
+export const extractAddresses = async (text: string): Promise<ExtractedAddress[]> => {
   if (!text) return [];
-  
-  const matches = text.match(BASE58_REGEX);
-  if (!matches) return [];
-
-  const bs58Module = await getBs58();
-  
-  // Filter for valid Solana public keys (32 bytes decoded)
-  const validMints = matches.filter(candidate => {
-    try {
-      const decoded = bs58Module.decode(candidate);
-      return decoded.length === 32;
-    } catch {
-      return false;
+
+  const found: Array<ExtractedAddress & { index: number }> = [];
+  const seen = new Set<string>();
+
+  const evmMatches = [...text.matchAll(EVM_REGEX)];
+  if (evmMatches.length > 0) {
+    const evmChain = detectEvmChain(text);
+    for (const match of evmMatches) {
+      if (!isValidEvmAddress(match[0])) continue;
+      const address = match[0].toLowerCase();
+      if (address === EVM_ZERO_ADDRESS || seen.has(address)) continue;
+      seen.add(address);
+      found.push({ address, chain: evmChain, index: match.index ?? 0 });
     }
-  });
+  }
+
+  // Blank out EVM addresses (keeping offsets) so their hex bodies are never scanned as base58
+  const solanaText = evmMatches.length > 0 ? text.replace(EVM_REGEX, m => ' '.repeat(m.length)) : text;
+  const base58Matches = [...solanaText.matchAll(BASE58_REGEX)];
+  if (base58Matches.length > 0) {
+    const bs58Module = await getBs58();
 
-  // Deduplicate
-  return [...new Set(validMints)];
+    // Filter for valid Solana public keys (32 bytes decoded)
+    for (const match of base58Matches) {
+      const candidate = match[0];
+      if (seen.has(candidate)) continue;
+      try {
+        const decoded = bs58Module.decode(candidate);
+        if (decoded.length !== 32) continue;
+      } catch {
+        continue;
+      }
+      seen.add(candidate);
+      found.push({ address: candidate, chain: 'solana', index: match.index ?? 0 });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ address, chain }) => ({ address, chain }));
+};
+
+export const extractMints = async (text: string): Promise<string[]> => {
+  const addresses = await extractAddresses(text);
+  return addresses.map(a => a.address);
 };
@@ -0,0 +1,98 @@
+// Telegram Desktop "Export chat history" (JSON) parsing. Pure: turns result.json into
+// message records shaped like what the live middleware sees.
+
+export interface TelegramExportTextPart {
+  type: string;
+  text: string;
+  href?: string;
+}
+
+export interface TelegramExportMessage {
+  id: number;
+  type: string; // 'message' | 'service'
+  date: string; // Local time, no zone ("2025-01-02T13:45:00")
+  date_unixtime?: string;
+  edited_unixtime?: string;
+  from?: string | null;
+  from_id?: string; // "user123" | "channel123"
+  forwarded_from?: string | null;
+  text: string | Array<string | TelegramExportTextPart>;
+  caption?: string;
+}
+
+export interface TelegramExport {
+  name?: string;
+  type?: string; // 'public_channel' | 'private_supergroup' | 'private_group' | ...
+  id?: number;
+  messages: TelegramExportMessage[];
+}
+
+export interface ExportedMessage {
+  messageId: number;
+  sentAt: Date;
+  editedAt: Date | null;
+  senderId: bigint | null; // Null for posts signed by a channel
+  senderName: string | null;
+  forwardedFrom: string | null;
+  text: string;
+}
+
+/**
+ * Flatten export text (plain string or entity array) into the text the bot would have seen.
+ * Hidden link targets (text_link) are appended so DEX/launchpad links still resolve.
+ */
+export const flattenExportText = (text: TelegramExportMessage['text'] | undefined): string => {
+  if (!text) return '';
+  if (typeof text === 'string') return text;
+  return text
+    .map(part => {
+      if (typeof part === 'string') return part;
+      if (part.href && part.href !== part.text) return `${part.text} ${part.href}`;
+      return part.text;
+    })
+    .join('');
+};
+
+/** Bot API chat id for an export: channels/supergroups get the -100 prefix, basic groups are negated. */
+export const resolveExportChatId = (data: TelegramExport): bigint | null => {
+  if (!data.id) return null;
+  const type = data.type || '';
+  if (type.includes('channel') || type.includes('supergroup')) return BigInt(`-100${data.id}`);
+  if (type.includes('group')) return BigInt(-data.id);
+  return BigInt(data.id);
+};
+
+const parseUnix = (value?: string): Date | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : null;
+};
+
+/** Chronological, non-service messages with text. */
+export const parseTelegramExport = (data: TelegramExport): ExportedMessage[] => {
+  if (!data || !Array.isArray(data.messages)) {
+    throw new Error('Not a Telegram Desktop JSON export (missing "messages")');
+  }
+
+  const messages: ExportedMessage[] = [];
+  for (const msg of data.messages) {
+    if (msg.type !== 'message') continue;
+    const text = flattenExportText(msg.text) || msg.caption || '';
+    if (!text.trim()) continue;
+
+    const sentAt = parseUnix(msg.date_unixtime) || new Date(msg.date);
+    if (Number.isNaN(sentAt.getTime())) continue;
+
+    const userMatch = msg.from_id?.match(/^user(\d+)$/);
+    messages.push({
+      messageId: msg.id,
+      sentAt,
+      editedAt: parseUnix(msg.edited_unixtime),
+      senderId: userMatch ? BigInt(userMatch[1]) : null,
+      senderName: msg.from || null,
+      forwardedFrom: msg.forwarded_from || null,
+      text,
+    });
+  }
+  return messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+};
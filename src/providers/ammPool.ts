@@ -0,0 +1,261 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { getSolUsdPrice } from './jupiter';
+import { PUMP_FUN_PROGRAM_ID } from './pumpFun';
+import { solana } from './solana';
+
+const PUMP_SWAP_PROGRAM_ID = new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
+const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+const RAYDIUM_CPMM_PROGRAM_ID = new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP8');
+// Anchor account discriminator of the PumpSwap Pool (sha256("account:Pool")[0..8])
+const PUMP_SWAP_POOL_DISCRIMINATOR = Buffer.from([0xf1, 0x9a, 0x6d, 0x04, 0x11, 0xb1, 0x6d, 0xbc]);
+const RAYDIUM_AMM_V4_SIZE = 752;
+const RAYDIUM_CPMM_POOL_SIZE = 637;
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+const MAX_ACCOUNTS_PER_CALL = 100; // getMultipleAccountsInfo limit
+// Below this the reserves are too thin for the price to mean anything
+const MIN_LIQUIDITY_USD = Number(process.env.AMM_MIN_LIQUIDITY_USD ?? 1000);
+
+// Pools are only priced against these; anything else would need a second hop
+const QUOTE_TOKENS: Record<string, { decimals: number; usd: () => Promise<number> }> = {
+  [WSOL_MINT]: { decimals: 9, usd: getSolUsdPrice },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { decimals: 6, usd: async () => 1 }, // USDC
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { decimals: 6, usd: async () => 1 }, // USDT
+};
+
+export type AmmDex = 'pumpswap' | 'raydium_amm_v4' | 'raydium_cpmm';
+
+export interface PoolLayout {
+  dex: AmmDex;
+  baseMint: string;
+  quoteMint: string;
+  baseVault: PublicKey;
+  quoteVault: PublicKey;
+  // Raw vault amounts that are owed fees/PnL rather than tradable reserves
+  baseExcluded: bigint;
+  quoteExcluded: bigint;
+}
+
+export interface PoolPrice {
+  mint: string;
+  pool: string;
+  dex: AmmDex;
+  quoteMint: string;
+  priceQuote: number; // In quote tokens (SOL for most launchpad pools)
+  priceUsd: number;
+  liquidityUsd: number; // Both sides of the pool
+  marketCapUsd: number;
+  tokenReserve: number;
+  quoteReserve: number;
+}
+
+const readKey = (data: Buffer, offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+
+// The side of the pool `mint` trades against; null when the pool doesn't hold the mint
+const pairedMint = (layout: PoolLayout, mint: string) =>
+  layout.baseMint === mint ? layout.quoteMint : layout.quoteMint === mint ? layout.baseMint : null;
+
+/** Decode a supported AMM pool account by its owner program; null for anything else. */
+export const decodePool = (owner: PublicKey, data: Buffer): PoolLayout | null => {
+  if (owner.equals(PUMP_SWAP_PROGRAM_ID)) {
+    if (data.length < 203 || !data.subarray(0, 8).equals(PUMP_SWAP_POOL_DISCRIMINATOR)) return null;
+    return {
+      dex: 'pumpswap',
+      baseMint: readKey(data, 43).toBase58(),
+      quoteMint: readKey(data, 75).toBase58(),
+      baseVault: readKey(data, 139),
+      quoteVault: readKey(data, 171),
+      baseExcluded: 0n, // Fees are paid out to separate accounts
+      quoteExcluded: 0n,
+    };
+  }
+  if (owner.equals(RAYDIUM_AMM_V4_PROGRAM_ID)) {
+    if (data.length !== RAYDIUM_AMM_V4_SIZE) return null;
+    return {
+      dex: 'raydium_amm_v4',
+      baseMint: readKey(data, 400).toBase58(),
+      quoteMint: readKey(data, 432).toBase58(),
+      baseVault: readKey(data, 336),
+      quoteVault: readKey(data, 368),
+      baseExcluded: data.readBigUInt64LE(192), // baseNeedTakePnl
+      quoteExcluded: data.readBigUInt64LE(200),
+    };
+  }
+  if (owner.equals(RAYDIUM_CPMM_PROGRAM_ID)) {
+    // The program also owns config and observation accounts; only PoolState has this size
+    if (data.length !== RAYDIUM_CPMM_POOL_SIZE) return null;
+    return {
+      dex: 'raydium_cpmm',
+      baseMint: readKey(data, 168).toBase58(),
+      quoteMint: readKey(data, 200).toBase58(),
+      baseVault: readKey(data, 72),
+      quoteVault: readKey(data, 104),
+      baseExcluded: data.readBigUInt64LE(341) + data.readBigUInt64LE(357), // Protocol + fund fees
+      quoteExcluded: data.readBigUInt64LE(349) + data.readBigUInt64LE(365),
+    };
+  }
+  return null;
+};
+
+/**
+ * Price implied by a pool's reserves. `mint` may sit on either side; the other side must be a
+ * supported quote token. Null when the pool doesn't hold the mint or has no tradable reserves.
+ */
+export const poolPrice = (
+  mint: string,
+  pool: string,
+  layout: PoolLayout,
+  vaults: { base: bigint; quote: bigint },
+  token: { decimals: number; supply: bigint },
+  quoteUsd: number
+): PoolPrice | null => {
+  const quoteMint = pairedMint(layout, mint);
+  const quoteToken = quoteMint ? QUOTE_TOKENS[quoteMint] : undefined;
+  if (!quoteMint || !quoteToken) return null;
+  const isBase = layout.baseMint === mint;
+
+  const base = vaults.base - layout.baseExcluded;
+  const quote = vaults.quote - layout.quoteExcluded;
+  const tokenReserve = Number(isBase ? base : quote) / 10 ** token.decimals;
+  const quoteReserve = Number(isBase ? quote : base) / 10 ** quoteToken.decimals;
+  if (!(tokenReserve > 0) || !(quoteReserve > 0)) return null;
+
+  const priceQuote = quoteReserve / tokenReserve;
+  const priceUsd = priceQuote * quoteUsd;
+  return {
+    mint,
+    pool,
+    dex: layout.dex,
+    quoteMint,
+    priceQuote,
+    priceUsd,
+    liquidityUsd: 2 * quoteReserve * quoteUsd,
+    marketCapUsd: priceUsd * (Number(token.supply) / 10 ** token.decimals),
+    tokenReserve,
+    quoteReserve,
+  };
+};
+
+/** PumpSwap pool pump.fun migrates a graduated curve into (index 0, owned by the mint's pool authority). */
+export const getCanonicalPumpSwapPool = (mint: string): PublicKey => {
+  const mintKey = new PublicKey(mint);
+  const [authority] = PublicKey.findProgramAddressSync([Buffer.from('pool-authority'), mintKey.toBuffer()], PUMP_FUN_PROGRAM_ID);
+  const index = Buffer.alloc(2); // u16 LE 0
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('pool'), index, authority.toBuffer(), mintKey.toBuffer(), new PublicKey(WSOL_MINT).toBuffer()],
+    PUMP_SWAP_PROGRAM_ID
+  )[0];
+};
+
+// Base58 check without throwing inside PublicKey
+const toPublicKey = (address: string): PublicKey | null => {
+  try {
+    return new PublicKey(address);
+  } catch {
+    return null;
+  }
+};
+
+// SPL token account amount / mint decimals and supply (same offsets under Token-2022)
+const readTokenAmount = (data: Buffer) => data.readBigUInt64LE(64);
+const readMintDecimals = (data: Buffer) => data[44];
+const readMintSupply = (data: Buffer) => data.readBigUInt64LE(36);
+
+/**
+ * Prices graduated tokens from their AMM pool's vault reserves over RPC, independent of the
+ * aggregators. A token's pool is either one learned from metadata (`rememberPool`) or the
+ * canonical PumpSwap pool of a pump.fun mint. Methods throw on RPC errors and return null for
+ * mints without a supported pool.
+ */
+export class AmmPoolProvider {
+  private hints = new Map<string, string>(); // mint -> pool address from metadata
+  private pools = new Map<string, { address: string; layout: PoolLayout }>(); // Resolved, vaults never move
+
+  constructor(private readonly connection: Connection) {}
+
+  /** Record a pool seen in token metadata (e.g. Jupiter's graduatedPool/firstPoolId). */
+  rememberPool(mint: string, pool?: string) {
+    if (!pool || this.hints.get(mint) === pool) return;
+    this.hints.set(mint, pool);
+    if (this.pools.get(mint)?.address !== pool) this.pools.delete(mint);
+  }
+
+  private async getAccounts(keys: PublicKey[]) {
+    const accounts = [];
+    for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_CALL) {
+      accounts.push(...(await this.connection.getMultipleAccountsInfo(keys.slice(i, i + MAX_ACCOUNTS_PER_CALL))));
+    }
+    return accounts;
+  }
+
+  private candidates(mint: string): PublicKey[] {
+    const hint = this.hints.get(mint);
+    const keys = [hint ? toPublicKey(hint) : null];
+    if (toPublicKey(mint)) keys.push(getCanonicalPumpSwapPool(mint));
+    return keys.filter((key, i): key is PublicKey => !!key && keys.findIndex(k => k?.equals(key)) === i);
+  }
+
+  // First candidate per mint that decodes to a pool pairing it with a supported quote token
+  private async resolvePools(mints: string[]) {
+    const lookups = mints
+      .filter(mint => !this.pools.has(mint))
+      .flatMap(mint => this.candidates(mint).map(address => ({ mint, address })));
+    if (lookups.length === 0) return;
+
+    const accounts = await this.getAccounts(lookups.map(l => l.address));
+    accounts.forEach((account, i) => {
+      const { mint, address } = lookups[i];
+      if (!account || this.pools.has(mint)) return;
+      const layout = decodePool(account.owner, account.data);
+      if (!layout) {
+        logger.debug(`[AmmPool] ${address.toBase58()} is not a supported pool for ${mint}`);
+        return;
+      }
+      const other = pairedMint(layout, mint);
+      if (other && QUOTE_TOKENS[other]) this.pools.set(mint, { address: address.toBase58(), layout });
+    });
+  }
+
+  async getPoolPrice(mint: string): Promise<PoolPrice | null> {
+    return (await this.getPoolPrices([mint]))[mint];
+  }
+
+  async getPoolPrices(mints: string[]): Promise<Record<string, PoolPrice | null>> {
+    const results: Record<string, PoolPrice | null> = Object.fromEntries(mints.map(mint => [mint, null]));
+    await this.resolvePools(mints);
+    const pooled = mints
+      .filter(mint => this.pools.has(mint))
+      .map(mint => ({ mint, ...this.pools.get(mint)!, quoteMint: pairedMint(this.pools.get(mint)!.layout, mint)! }));
+    if (pooled.length === 0) return results;
+
+    // Base vault, quote vault and the mint itself (decimals, supply) per pool
+    const accounts = await this.getAccounts(
+      pooled.flatMap(p => [p.layout.baseVault, p.layout.quoteVault, new PublicKey(p.mint)])
+    );
+    const quoteUsd = new Map<string, number>();
+    for (const quoteMint of new Set(pooled.map(p => p.quoteMint))) {
+      quoteUsd.set(quoteMint, await QUOTE_TOKENS[quoteMint].usd());
+    }
+
+    pooled.forEach((p, i) => {
+      const [baseVault, quoteVault, mintAccount] = accounts.slice(i * 3, i * 3 + 3);
+      if (!baseVault || !quoteVault || !mintAccount) {
+        // Closed pool: forget it so the next lookup re-resolves
+        this.pools.delete(p.mint);
+        return;
+      }
+      const price = poolPrice(
+        p.mint,
+        p.address,
+        p.layout,
+        { base: readTokenAmount(baseVault.data), quote: readTokenAmount(quoteVault.data) },
+        { decimals: readMintDecimals(mintAccount.data), supply: readMintSupply(mintAccount.data) },
+        quoteUsd.get(p.quoteMint)!
+      );
+      if (price && price.liquidityUsd >= MIN_LIQUIDITY_USD) results[p.mint] = price;
+    });
+    return results;
+  }
+}
+
+export const ammPools = new AmmPoolProvider(solana.connection);
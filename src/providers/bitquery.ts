@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
 import axios from 'axios';
+import { apiKeyId, rateLimiter } from './rateLimiter';
 
 const BITQUERY_ENDPOINT = 'https://streaming.bitquery.io/graphql'; // Bitquery streaming GraphQL endpoint
 
@@ -96,6 +97,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         {
@@ -188,6 +190,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         {
@@ -280,6 +283,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         {
@@ -383,6 +387,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         { query, variables: { token: mint } },
@@ -457,6 +462,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         { query, variables: { mint, since: since.toISOString() } },
@@ -529,6 +535,7 @@ export class BitqueryProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         { query, variables: { token: mint } },
@@ -0,0 +1,237 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { BatchResult, ProviderCapability } from './types';
+
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number; // Loaded from the providers
+  collapsed: number; // Joined an identical request already in flight
+  errors: number; // Backend read/write failures (treated as misses)
+  hitRate: number; // (hits + collapsed) / lookups
+}
+
+/** Per-process store; entries are returned by reference, so callers must not mutate them. */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size > this.maxEntries) this.prune();
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    // Still full: drop the oldest writes (Map iterates in insertion order)
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// JSON round-trip that keeps Dates (TokenMeta.createdAt etc.) as Dates
+function tagDates(this: any, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+const reviveDates = (_key: string, value: any) =>
+  value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+    ? new Date(value.$date)
+    : value;
+
+/** Shared across bot and worker processes. */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(private readonly redis: Redis, private readonly prefix = 'provider-cache:') {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.redis.get(this.prefix + key);
+    return raw === null ? undefined : (JSON.parse(raw, reviveDates) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.redis.set(this.prefix + key, JSON.stringify(value, tagDates), 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+}
+
+const emptyStats = () => ({ hits: 0, misses: 0, collapsed: 0, errors: 0 });
+
+/**
+ * TTL cache in front of the provider registry. Identical lookups already in flight are joined
+ * instead of hitting the providers again; only results with data are stored, so a miss is
+ * retried on the next call. A TTL of 0 disables caching for that capability.
+ */
+export class ProviderCache {
+  private inFlight = new Map<string, Promise<unknown>>();
+  private stats = new Map<ProviderCapability, ReturnType<typeof emptyStats>>();
+
+  constructor(
+    private readonly backend: CacheBackend,
+    private readonly ttls: Record<ProviderCapability, number>
+  ) {}
+
+  get backendName() {
+    return this.backend.name;
+  }
+
+  private statsFor(capability: ProviderCapability) {
+    if (!this.stats.has(capability)) this.stats.set(capability, emptyStats());
+    return this.stats.get(capability)!;
+  }
+
+  private async read<T>(capability: ProviderCapability, key: string): Promise<T | undefined> {
+    try {
+      return await this.backend.get<T>(key);
+    } catch (error: any) {
+      this.statsFor(capability).errors++;
+      logger.debug(`[Cache] ${this.backend.name} read failed for ${key}: ${error?.message || error}`);
+      return undefined;
+    }
+  }
+
+  private async write<T>(capability: ProviderCapability, key: string, value: T) {
+    try {
+      await this.backend.set(key, value, this.ttls[capability]);
+    } catch (error: any) {
+      this.statsFor(capability).errors++;
+      logger.debug(`[Cache] ${this.backend.name} write failed for ${key}: ${error?.message || error}`);
+    }
+  }
+
+  private track<T>(key: string, promise: Promise<T>): Promise<T> {
+    const tracked = promise.finally(() => {
+      if (this.inFlight.get(key) === tracked) this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, tracked);
+    return tracked;
+  }
+
+  async wrap<T>(
+    capability: ProviderCapability,
+    key: string,
+    load: () => Promise<T>,
+    hasData: (value: T) => boolean
+  ): Promise<T> {
+    if (!this.ttls[capability]) return load();
+    const fullKey = `${capability}:${key}`;
+    const stats = this.statsFor(capability);
+
+    const pending = this.inFlight.get(fullKey);
+    if (pending) {
+      stats.collapsed++;
+      return pending as Promise<T>;
+    }
+
+    return this.track(
+      fullKey,
+      (async () => {
+        const cached = await this.read<T>(capability, fullKey);
+        if (cached !== undefined) {
+          stats.hits++;
+          return cached;
+        }
+        stats.misses++;
+        const value = await load();
+        if (hasData(value)) await this.write(capability, fullKey, value);
+        return value;
+      })()
+    );
+  }
+
+  /**
+   * Batch variant of wrap sharing the same keys, so a batch lookup reuses single-mint entries
+   * and vice versa. Only mints neither cached nor in flight are passed to `load`, in one call.
+   */
+  async wrapMany<T>(
+    capability: ProviderCapability,
+    mints: string[],
+    load: (mints: string[]) => Promise<BatchResult<T>>,
+    hasData: (value: T | null | undefined) => boolean
+  ): Promise<BatchResult<T>> {
+    const unique = [...new Set(mints)];
+    if (!this.ttls[capability]) return load(unique);
+    const stats = this.statsFor(capability);
+
+    const results: BatchResult<T> = {};
+    const joined: Promise<void>[] = [];
+    const toLoad: string[] = [];
+    for (const mint of unique) {
+      const pending = this.inFlight.get(`${capability}:${mint}`);
+      if (pending) {
+        stats.collapsed++;
+        joined.push(pending.then(value => {
+          results[mint] = (value as T | null) ?? null;
+        }));
+      } else {
+        toLoad.push(mint);
+      }
+    }
+
+    if (toLoad.length > 0) {
+      const batch = (async () => {
+        const found: BatchResult<T> = {};
+        const cached = await Promise.all(toLoad.map(mint => this.read<T>(capability, `${capability}:${mint}`)));
+        const missing = toLoad.filter((mint, i) => {
+          if (cached[i] === undefined) return true;
+          found[mint] = cached[i]!;
+          return false;
+        });
+        stats.hits += toLoad.length - missing.length;
+        stats.misses += missing.length;
+
+        if (missing.length > 0) {
+          const loaded = await load(missing);
+          await Promise.all(missing.map(async mint => {
+            const value = loaded[mint] ?? null;
+            found[mint] = value;
+            if (hasData(value)) await this.write(capability, `${capability}:${mint}`, value);
+          }));
+        }
+        return found;
+      })();
+      // Register every mint before awaiting so concurrent lookups join this batch
+      for (const mint of toLoad) {
+        joined.push(this.track(`${capability}:${mint}`, batch.then(found => found[mint] ?? null)).then(value => {
+          results[mint] = value;
+        }));
+      }
+    }
+
+    await Promise.all(joined);
+    return Object.fromEntries(unique.map(mint => [mint, results[mint] ?? null]));
+  }
+
+  getStats(): Partial<Record<ProviderCapability, CacheStats>> {
+    const out: Partial<Record<ProviderCapability, CacheStats>> = {};
+    for (const [capability, s] of this.stats) {
+      const lookups = s.hits + s.misses + s.collapsed;
+      out[capability] = { ...s, hitRate: lookups > 0 ? (s.hits + s.collapsed) / lookups : 0 };
+    }
+    return out;
+  }
+}
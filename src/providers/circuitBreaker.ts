@@ -0,0 +1,56 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Per-provider circuit breaker: opens after `failureThreshold` consecutive failures and
+ * rejects calls for `cooldownMs`, then lets a single trial call through (half-open).
+ * A successful trial closes it again; a failed one re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  /** Whether a call may go through now. In half-open state only one trial call is allowed. */
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') return true;
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** Milliseconds until an open breaker allows a trial call (0 when not open). */
+  retryInMs(): number {
+    return this.getState() === 'open' ? Math.max(0, this.cooldownMs - (Date.now() - this.openedAt)) : 0;
+  }
+}
@@ -1,5 +1,14 @@
 import fetch from 'node-fetch';
 import { logger } from '../utils/logger';
+import { rateLimiter } from './rateLimiter';
+
+// Shared rate limit; a 429 pauses DexScreener for every caller
+const limitedFetch = async (url: string) => {
+  await rateLimiter.acquire('dexscreener');
+  const res = await fetch(url);
+  if (res.status === 429) rateLimiter.backoff('dexscreener', Number(res.headers.get('retry-after') || 10) * 1000);
+  return res;
+};
 
 export interface DexScreenerToken {
   priceUsd: number | null;
@@ -13,27 +22,94 @@ export interface DexScreenerToken {
 
 export const getDexScreenerToken = async (mint: string): Promise<DexScreenerToken | null> => {
   try {
-    const url = `https://api.dexscreener.com/latest/dex/tokens/${mint}`;
-    const res = await fetch(url);
+    return await fetchDexScreenerToken(mint);
+  } catch (err: any) {
+    logger.debug('DexScreener token fetch error:', err);
+    return null;
+  }
+};
+
+/** Like getDexScreenerToken, but throws on HTTP/network errors (null only when no pair exists). */
+export const fetchDexScreenerToken = async (mint: string): Promise<DexScreenerToken | null> => {
+  const url = `https://api.dexscreener.com/latest/dex/tokens/${mint}`;
+  const res = await limitedFetch(url);
+  if (!res.ok) {
+    throw new Error(`DexScreener token fetch failed status ${res.status}`);
+  }
+  const data: any = await res.json();
+  const pair = data?.pairs?.[0];
+  if (!pair) return null;
+  return toDexScreenerToken(pair);
+};
+
+// DexScreener accepts up to 30 comma-separated token addresses per request
+const DEXSCREENER_TOKENS_PER_REQUEST = 30;
+
+const toDexScreenerToken = (pair: any): DexScreenerToken => ({
+  priceUsd: pair.priceUsd ? Number(pair.priceUsd) : null,
+  marketCap: pair.marketCap ? Number(pair.marketCap) : null,
+  fdv: pair.fdv ? Number(pair.fdv) : null,
+  liquidityUsd: pair.liquidity?.usd ? Number(pair.liquidity.usd) : null,
+  volume24h: pair.volume?.h24 ? Number(pair.volume.h24) : null,
+  symbol: pair.baseToken?.symbol,
+  name: pair.baseToken?.name,
+});
+
+/**
+ * Batch token lookup (first listed pair per token), 30 addresses per request.
+ * Throws on HTTP/network errors; tokens without pairs map to null.
+ */
+export const fetchDexScreenerTokens = async (mints: string[]): Promise<Record<string, DexScreenerToken | null>> => {
+  const results: Record<string, DexScreenerToken | null> = {};
+  for (let i = 0; i < mints.length; i += DEXSCREENER_TOKENS_PER_REQUEST) {
+    const chunk = mints.slice(i, i + DEXSCREENER_TOKENS_PER_REQUEST);
+    const res = await limitedFetch(`https://api.dexscreener.com/latest/dex/tokens/${chunk.join(',')}`);
     if (!res.ok) {
-      logger.debug(`DexScreener token fetch failed status ${res.status}`);
+      throw new Error(`DexScreener tokens fetch failed status ${res.status}`);
+    }
+    const data: any = await res.json();
+    for (const mint of chunk) {
+      const pair = (data?.pairs || []).find((p: any) => p.baseToken?.address === mint);
+      results[mint] = pair ? toDexScreenerToken(pair) : null;
+    }
+  }
+  return results;
+};
+
+export interface DexScreenerPair {
+  pairAddress: string;
+  dexId?: string;
+  baseToken: string;
+  quoteToken: string;
+}
+
+/**
+ * Look up a pool/pair by address.
+ * Returns `undefined` when DexScreener knows no such pair (address is likely a token),
+ * and `null` when the lookup itself failed.
+ */
+export const getDexScreenerPair = async (
+  chainId: string,
+  pairAddress: string
+): Promise<DexScreenerPair | undefined | null> => {
+  try {
+    const url = `https://api.dexscreener.com/latest/dex/pairs/${chainId}/${pairAddress}`;
+    const res = await limitedFetch(url);
+    if (!res.ok) {
+      logger.debug(`DexScreener pair fetch failed status ${res.status}`);
       return null;
     }
     const data: any = await res.json();
-    const pair = data?.pairs?.[0];
-    if (!pair) return null;
+    const pair = data?.pair || data?.pairs?.[0];
+    if (!pair?.baseToken?.address) return undefined;
     return {
-      priceUsd: pair.priceUsd ? Number(pair.priceUsd) : null,
-      marketCap: pair.marketCap ? Number(pair.marketCap) : null,
-      fdv: pair.fdv ? Number(pair.fdv) : null,
-      liquidityUsd: pair.liquidity?.usd ? Number(pair.liquidity.usd) : null,
-      volume24h: pair.volume?.h24 ? Number(pair.volume.h24) : null,
-      symbol: pair.baseToken?.symbol,
-      name: pair.baseToken?.name,
+      pairAddress: pair.pairAddress,
+      dexId: pair.dexId,
+      baseToken: pair.baseToken.address,
+      quoteToken: pair.quoteToken?.address,
     };
   } catch (err: any) {
-    logger.debug('DexScreener token fetch error:', err);
+    logger.debug('DexScreener pair fetch error:', err);
     return null;
   }
 };
-
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { apiKeyId, rateLimiter } from './rateLimiter';
 import { logger } from '../utils/logger';
 
 const BITQUERY_ENDPOINT = 'https://streaming.bitquery.io/eap';
@@ -57,6 +58,7 @@ export class FourMemeProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         { query, variables: { network: 'bsc', dataset: 'combined', token: tokenAddress } },
@@ -91,6 +93,7 @@ export class FourMemeProvider {
     `;
 
     try {
+      await rateLimiter.acquire('bitquery', apiKeyId(this.apiKey));
       const response = await axios.post(
         BITQUERY_ENDPOINT,
         { query, variables: { network: 'bsc', token: tokenAddress } },
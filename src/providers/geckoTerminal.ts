@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { QuotaExceededError, rateLimiter } from './rateLimiter';
 
 const GECKO_BASE_URL = 'https://api.geckoterminal.com/api/v2';
 const DEXSCREENER_BASE_URL = 'https://api.dexscreener.com/latest/dex/tokens';
@@ -17,24 +18,18 @@ export class GeckoTerminalProvider {
   /**
    * Fetch OHLCV data for a token on Solana
    * Hybrid approach: GeckoTerminal lookup -> DexScreener lookup -> GeckoTerminal OHLCV
+   * Requests go through the shared rate limiter; a 429 pauses GeckoTerminal for every caller
    * @param mint Token mint address
    * @param timeframe 'day', 'hour', 'minute'
    * @param limit Number of candles (max 1000)
+   * @param beforeTimestamp Optional unix seconds; only candles before this time are returned
    */
-  async getOHLCV(mint: string, timeframe: 'day' | 'hour' | 'minute' = 'hour', limit = 100, retries = 3): Promise<OHLCV[]> {
+  async getOHLCV(mint: string, timeframe: 'day' | 'hour' | 'minute' = 'hour', limit = 100, retries = 3, beforeTimestamp?: number): Promise<OHLCV[]> {
     let lastError: any = null;
     const overallStart = Date.now();
     
     for (let attempt = 0; attempt < retries; attempt++) {
       try {
-        // Add delay between retries to avoid rate limits
-        if (attempt > 0) {
-          // Longer delays for rate limits: 10s, 20s, 30s (increased from 5s, 10s, 15s)
-          const delay = Math.min(10000 + (attempt - 1) * 10000, 30000);
-          logger.warn(`[GeckoTerminal] Rate limited for ${mint.slice(0, 8)}... (attempt ${attempt + 1}/${retries}), waiting ${delay/1000}s`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-        
         const poolStart = Date.now();
         let poolAddress = await this.getTopPool(mint);
         const poolDuration = Date.now() - poolStart;
@@ -53,10 +48,11 @@ export class GeckoTerminalProvider {
           return [];
         }
 
+        await rateLimiter.acquire('geckoterminal');
         const ohlcvStart = Date.now();
         const url = `${GECKO_BASE_URL}/networks/solana/pools/${poolAddress}/ohlcv/${timeframe}`;
         const response = await axios.get(url, {
-          params: { limit },
+          params: { limit, ...(beforeTimestamp ? { before_timestamp: beforeTimestamp } : {}) },
           timeout: 15000, // 15 second timeout (increased from 10s)
           headers: {
             'Accept': 'application/json',
@@ -65,18 +61,6 @@ export class GeckoTerminalProvider {
         });
         const ohlcvDuration = Date.now() - ohlcvStart;
 
-        // Check for rate limit response
-        if (response.status === 429) {
-          const retryAfter = parseInt(response.headers['retry-after'] || '10', 10);
-          const waitTime = Math.max(retryAfter, 10); // Minimum 10 seconds
-          logger.warn(`[GeckoTerminal] Rate limited for ${mint.slice(0, 8)}..., waiting ${waitTime}s`);
-          if (attempt < retries - 1) {
-            await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
-            continue; // Retry after rate limit delay
-          }
-          throw new Error(`Rate limited after ${retries} attempts`);
-        }
-
         // Response format: 
         // { data: { attributes: { ohlcv_list: [[timestamp, open, high, low, close, volume], ...] } } }
         const list = response.data?.data?.attributes?.ohlcv_list;
@@ -107,14 +91,17 @@ export class GeckoTerminalProvider {
 
       } catch (error: any) {
         lastError = error;
+        if (error instanceof QuotaExceededError) {
+          logger.debug(`[GeckoTerminal] ${error.message}, skipping ${mint.slice(0, 8)}...`);
+          return [];
+        }
         const isRateLimit = error.response?.status === 429 || error.message?.includes('rate limit');
         const isTimeout = error.code === 'ECONNABORTED' || error.message?.includes('timeout');
         
         if (isRateLimit && attempt < retries - 1) {
           const retryAfter = parseInt(error.response?.headers?.['retry-after'] || '15', 10); // Default to 15s if not specified
-          const backoffMs = Math.max(retryAfter * 1000, 15000); // Minimum 15s, use retry-after if longer
-          logger.warn(`[GeckoTerminal] Rate limited for ${mint.slice(0, 8)}... (attempt ${attempt + 1}/${retries}), waiting ${backoffMs/1000}s`);
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
+          // The next acquire waits out the pause
+          rateLimiter.backoff('geckoterminal', Math.max(retryAfter * 1000, 15000));
           continue; // Retry
         }
         
@@ -137,15 +124,33 @@ export class GeckoTerminalProvider {
     return [];
   }
 
+  /**
+   * Historical price at a point in time: open of the candle containing `at`, or the close of
+   * the last traded candle before it (minute candles first, hourly if minute history is gone)
+   */
+  async getPriceAt(mint: string, at: Date): Promise<number | null> {
+    const atMs = at.getTime();
+    const timeframes: Array<{ timeframe: 'minute' | 'hour'; stepMs: number }> = [
+      { timeframe: 'minute', stepMs: 60 * 1000 },
+      { timeframe: 'hour', stepMs: 60 * 60 * 1000 },
+    ];
+    for (const { timeframe, stepMs } of timeframes) {
+      const candles = await this.getOHLCV(mint, timeframe, 10, 2, Math.floor((atMs + stepMs) / 1000));
+      const candle = [...candles].reverse().find(c => c.timestamp <= atMs);
+      if (!candle) continue;
+      const price = atMs - candle.timestamp < stepMs ? candle.open : candle.close;
+      if (price > 0) return price;
+    }
+    return null;
+  }
+
   private async getTopPool(mint: string, retries = 2): Promise<string | null> {
     let lastError: any = null;
     const start = Date.now();
     
     for (let attempt = 0; attempt < retries; attempt++) {
       try {
-        if (attempt > 0) {
-          await new Promise(resolve => setTimeout(resolve, 500 * attempt)); // Small delay between retries
-        }
+        await rateLimiter.acquire('geckoterminal');
         
         // Endpoint to get pools for a token: /networks/solana/tokens/{token_address}/pools
         const url = `${GECKO_BASE_URL}/networks/solana/tokens/${mint}/pools`;
@@ -158,16 +163,6 @@ export class GeckoTerminalProvider {
           }
         });
 
-        // Handle rate limits
-        if (response.status === 429) {
-          const retryAfter = parseInt(response.headers['retry-after'] || '2', 10);
-          if (attempt < retries - 1) {
-            logger.debug(`[GeckoTerminal] Pool lookup rate limited for ${mint.slice(0, 8)}..., waiting ${retryAfter}s`);
-            await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-            continue;
-          }
-        }
-
         const pools = response.data?.data;
         const duration = Date.now() - start;
         if (pools && pools.length > 0) {
@@ -178,10 +173,10 @@ export class GeckoTerminalProvider {
         return null;
       } catch (error: any) {
         lastError = error;
+        if (error instanceof QuotaExceededError) return null;
         if (error.response?.status === 429 && attempt < retries - 1) {
           const retryAfter = parseInt(error.response?.headers?.['retry-after'] || '2', 10);
-          logger.debug(`[GeckoTerminal] Pool lookup rate limited for ${mint.slice(0, 8)}..., waiting ${retryAfter}s`);
-          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+          rateLimiter.backoff('geckoterminal', retryAfter * 1000);
           continue;
         }
         if (attempt === retries - 1) {
@@ -196,6 +191,7 @@ export class GeckoTerminalProvider {
   private async getPoolFromDexScreener(mint: string): Promise<string | null> {
     const start = Date.now();
     try {
+      await rateLimiter.acquire('dexscreener');
       const url = `${DEXSCREENER_BASE_URL}/${mint}`;
       const response = await axios.get(url, {
         timeout: 5000,
@@ -1,23 +1,98 @@
+import Redis from 'ioredis';
 import { HeliusProvider } from './helius';
+import { CacheBackend, MemoryCacheBackend, ProviderCache, RedisCacheBackend } from './cache';
+import { ProviderRegistry } from './registry';
+import { ProviderCapability } from './types';
+import { RedisBucketStore, rateLimiter } from './rateLimiter';
+import { logger } from '../utils/logger';
+import {
+  jupiterSource,
+  jupiterPriceSource,
+  createHeliusSource,
+  dexScreenerSource,
+  geckoTerminalSource,
+  bitquerySource,
+  solanaRpcSource,
+  pumpFunSource,
+  ammPoolSource,
+} from './sources';
 
 const API_KEY = process.env.HELIUS_API_KEY || '';
-
-export const provider = new HeliusProvider(API_KEY);
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+const CROSS_CHECK_PROVIDER = (process.env.PROVIDER_CROSS_CHECK ?? 'amm').trim();
+
+// Fallback order per capability, overridable with comma-separated provider names
+const DEFAULT_ORDER: Record<ProviderCapability, string> = {
+  quote: 'pumpfun,jupiter,amm,helius,jupiter_price,dexscreener',
+  meta: 'jupiter,helius,dexscreener,pumpfun',
+  ohlcv: 'geckoterminal,bitquery',
+  holders: 'solana_rpc',
+};
+
+const parseOrder = (capability: ProviderCapability) =>
+  (process.env[`PROVIDER_ORDER_${capability.toUpperCase()}`] || DEFAULT_ORDER[capability])
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+// Cache TTLs per capability (0 disables); quotes stay short so sampling still sees fresh prices
+const CACHE_TTL_MS: Record<ProviderCapability, number> = {
+  quote: Number(process.env.PROVIDER_CACHE_TTL_QUOTE_MS ?? 10000),
+  meta: Number(process.env.PROVIDER_CACHE_TTL_META_MS ?? 60000),
+  ohlcv: Number(process.env.PROVIDER_CACHE_TTL_OHLCV_MS ?? 300000),
+  holders: Number(process.env.PROVIDER_CACHE_TTL_HOLDERS_MS ?? 60000),
+};
+
+const createCacheBackend = (): CacheBackend => {
+  if (process.env.PROVIDER_CACHE_BACKEND !== 'redis') return new MemoryCacheBackend();
+  if (!process.env.REDIS_URL) {
+    logger.warn('[Providers] PROVIDER_CACHE_BACKEND=redis but REDIS_URL is not set, using in-memory cache');
+    return new MemoryCacheBackend();
+  }
+  // Fail fast while Redis is down: a cache error is just a miss
+  const redis = new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 1, enableOfflineQueue: false });
+  redis.on('error', error => logger.debug(`[Providers] Redis cache error: ${error.message}`));
+  return new RedisCacheBackend(redis);
+};
+
+// Wallet assets/history (not market data) still go straight to Helius
+export const helius = new HeliusProvider(API_KEY);
+
+export const provider = new ProviderRegistry({
+  timeoutMs: Number(process.env.PROVIDER_TIMEOUT_MS ?? 8000),
+  failureThreshold: Number(process.env.PROVIDER_BREAKER_FAILURES ?? 5),
+  cooldownMs: Number(process.env.PROVIDER_BREAKER_COOLDOWN_MS ?? 60000),
+  batchSize: Number(process.env.PROVIDER_BATCH_SIZE ?? 100),
+  batchTimeoutMs: Number(process.env.PROVIDER_BATCH_TIMEOUT_MS ?? 30000),
+  concurrency: Number(process.env.PROVIDER_CONCURRENCY ?? 5),
+  // Aggregator quotes are checked against on-chain pool reserves; set PROVIDER_CROSS_CHECK= to disable
+  crossCheck: CROSS_CHECK_PROVIDER
+    ? { provider: CROSS_CHECK_PROVIDER, maxDeviation: Number(process.env.PROVIDER_CROSS_CHECK_MAX_DEVIATION ?? 0.25) }
+    : undefined,
+}, new ProviderCache(createCacheBackend(), CACHE_TTL_MS))
+  .register(jupiterSource)
+  .register(createHeliusSource(helius))
+  .register(jupiterPriceSource)
+  .register(dexScreenerSource)
+  .register(geckoTerminalSource)
+  .register(bitquerySource)
+  .register(solanaRpcSource)
+  .register(pumpFunSource)
+  .register(ammPoolSource);
+
+for (const capability of Object.keys(DEFAULT_ORDER) as ProviderCapability[]) {
+  provider.setOrder(capability, parseOrder(capability));
+}
+
+/**
+ * Take provider rate-limit tokens and count quota in Redis, so the bot and every worker share one
+ * budget per API key. Call before rateLimiter.hydrate; without REDIS_URL each process limits itself.
+ */
+export const shareRateLimits = () => {
+  if (!process.env.REDIS_URL) {
+    logger.warn('[Providers] REDIS_URL is not set, provider rate limits are per process');
+    return;
+  }
+  const redis = new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 1 });
+  redis.on('error', error => logger.debug(`[Providers] Redis rate limit error: ${error.message}`));
+  rateLimiter.share(new RedisBucketStore(redis));
+};
@@ -195,6 +195,25 @@ export const getJupiterPrice = async (mint: string, decimals: number = 9): Promi
   }
 };
 
+const SOL_PRICE_TTL_MS = 30000;
+let solUsd: { price: number; at: number } | null = null;
+
+/**
+ * SOL/USD for pricing on-chain reserves, cached for 30s. Throws when Jupiter has no price and
+ * nothing was cached yet.
+ */
+export const getSolUsdPrice = async (): Promise<number> => {
+  if (solUsd && Date.now() - solUsd.at < SOL_PRICE_TTL_MS) return solUsd.price;
+  const { price, error } = await getJupiterPriceV3(SOL_MINT);
+  if (!price) {
+    // A slightly stale SOL price beats no on-chain price at all
+    if (solUsd) return solUsd.price;
+    throw new Error(`SOL/USD price unavailable${error ? `: ${error}` : ''}`);
+  }
+  solUsd = { price, at: Date.now() };
+  return price;
+};
+
 export interface JupiterTokenInfo {
   id: string;
   name?: string;
@@ -424,58 +443,62 @@ export const getMultipleTokenInfo = async (mints: string[]): Promise<Record<stri
 
 export const getJupiterTokenInfo = async (mint: string): Promise<JupiterTokenInfo | null> => {
   try {
-    const headers: Record<string, string> = {};
-    if (JUP_API_KEY) {
-      headers['x-api-key'] = JUP_API_KEY;
-    }
-    const url = `${JUP_SEARCH_URL}?query=${mint}`;
-    const res = await fetch(url, { headers });
-    if (!res.ok) {
-      const text = await res.text().catch(() => '');
-      logger.debug(`Jupiter search failed status ${res.status} body: ${text?.slice(0, 200)}`);
-      return null;
-    }
-    const data: any = await res.json();
-    if (!data || !data.length) return null;
-    const t = data[0];
-    // Verify mint matches
-    if (t.id !== mint) return null;
-    return {
-      id: t.id,
-      name: t.name,
-      symbol: t.symbol,
-      icon: t.icon,
-      decimals: t.decimals,
-      circSupply: t.circSupply,
-      totalSupply: t.totalSupply,
-      usdPrice: t.usdPrice,
-      mcap: t.mcap,
-      fdv: t.fdv,
-      liquidity: t.liquidity,
-      holderCount: t.holderCount,
-      priceBlockId: t.priceBlockId,
-      stats5m: t.stats5m,
-      stats1h: t.stats1h,
-      stats6h: t.stats6h,
-      stats24h: t.stats24h,
-      twitter: t.twitter,
-      telegram: t.telegram,
-      website: t.website,
-      launchpad: t.launchpad,
-      createdAt: t.createdAt,
-      firstPoolId: t?.firstPool?.id,
-      firstPoolCreatedAt: t?.firstPool?.createdAt,
-      audit: t.audit,
-      organicScore: t.organicScore,
-      organicScoreLabel: t.organicScoreLabel,
-      isVerified: t.isVerified,
-      cexes: t.cexes,
-      tags: t.tags,
-      graduatedPool: t.graduatedPool,
-      graduatedAt: t.graduatedAt,
-    };
+    return await fetchJupiterTokenInfo(mint);
   } catch (err: any) {
     logger.debug('Jupiter search error:', err);
     return null;
   }
 };
+
+/** Like getJupiterTokenInfo, but throws on HTTP/network errors (null only when the token is unknown). */
+export const fetchJupiterTokenInfo = async (mint: string): Promise<JupiterTokenInfo | null> => {
+  const headers: Record<string, string> = {};
+  if (JUP_API_KEY) {
+    headers['x-api-key'] = JUP_API_KEY;
+  }
+  const url = `${JUP_SEARCH_URL}?query=${mint}`;
+  const res = await fetch(url, { headers });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Jupiter search failed status ${res.status} body: ${text?.slice(0, 200)}`);
+  }
+  const data: any = await res.json();
+  if (!data || !data.length) return null;
+  const t = data[0];
+  // Verify mint matches
+  if (t.id !== mint) return null;
+  return {
+    id: t.id,
+    name: t.name,
+    symbol: t.symbol,
+    icon: t.icon,
+    decimals: t.decimals,
+    circSupply: t.circSupply,
+    totalSupply: t.totalSupply,
+    usdPrice: t.usdPrice,
+    mcap: t.mcap,
+    fdv: t.fdv,
+    liquidity: t.liquidity,
+    holderCount: t.holderCount,
+    priceBlockId: t.priceBlockId,
+    stats5m: t.stats5m,
+    stats1h: t.stats1h,
+    stats6h: t.stats6h,
+    stats24h: t.stats24h,
+    twitter: t.twitter,
+    telegram: t.telegram,
+    website: t.website,
+    launchpad: t.launchpad,
+    createdAt: t.createdAt,
+    firstPoolId: t?.firstPool?.id,
+    firstPoolCreatedAt: t?.firstPool?.createdAt,
+    audit: t.audit,
+    organicScore: t.organicScore,
+    organicScoreLabel: t.organicScoreLabel,
+    isVerified: t.isVerified,
+    cexes: t.cexes,
+    tags: t.tags,
+    graduatedPool: t.graduatedPool,
+    graduatedAt: t.graduatedAt,
+  };
+};
@@ -0,0 +1,126 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { getSolUsdPrice } from './jupiter';
+import { solana } from './solana';
+
+export const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+// Anchor account discriminator of BondingCurve (sha256("account:BondingCurve")[0..8])
+const BONDING_CURVE_DISCRIMINATOR = Buffer.from([0x17, 0xb7, 0xf8, 0x37, 0x60, 0xd8, 0xac, 0x60]);
+const TOKEN_DECIMALS = 6; // Every pump.fun mint
+const LAMPORTS_PER_SOL = 1e9;
+// Tokens sold on the curve before it completes (the other 206.9M of supply go to the migrated pool)
+const INITIAL_REAL_TOKEN_RESERVES = 793_100_000n * 10n ** BigInt(TOKEN_DECIMALS);
+const MAX_ACCOUNTS_PER_CALL = 100; // getMultipleAccountsInfo limit
+
+export interface BondingCurveState {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+  creator?: string; // Present on curves created after the creator-fee upgrade
+}
+
+export interface BondingCurveInfo {
+  mint: string;
+  priceSol: number;
+  priceUsd: number;
+  marketCapSol: number;
+  marketCapUsd: number;
+  liquiditySol: number; // SOL deposited into the curve by buyers
+  totalSupply: number;
+  bondingProgress: number; // 0-100, share of the curve's tokens sold
+  isGraduated: boolean; // Curve complete; trading moved to PumpSwap/Raydium
+  creator?: string;
+}
+
+/** Decode a BondingCurve account; null when the data is not one. */
+export const decodeBondingCurve = (data: Buffer): BondingCurveState | null => {
+  if (data.length < 49 || !data.subarray(0, 8).equals(BONDING_CURVE_DISCRIMINATOR)) return null;
+  return {
+    virtualTokenReserves: data.readBigUInt64LE(8),
+    virtualSolReserves: data.readBigUInt64LE(16),
+    realTokenReserves: data.readBigUInt64LE(24),
+    realSolReserves: data.readBigUInt64LE(32),
+    tokenTotalSupply: data.readBigUInt64LE(40),
+    complete: data[48] === 1,
+    creator: data.length >= 81 ? new PublicKey(data.subarray(49, 81)).toBase58() : undefined,
+  };
+};
+
+/** Price, market cap and progress implied by the curve's reserves at a given SOL/USD price. */
+export const bondingCurveInfo = (mint: string, state: BondingCurveState, solUsd: number): BondingCurveInfo => {
+  const tokenUnit = 10 ** TOKEN_DECIMALS;
+  // A completed curve is drained; its last price is the migration price
+  const priceSol =
+    state.virtualTokenReserves > 0n
+      ? Number(state.virtualSolReserves) / LAMPORTS_PER_SOL / (Number(state.virtualTokenReserves) / tokenUnit)
+      : 0;
+  const totalSupply = Number(state.tokenTotalSupply) / tokenUnit;
+  const sold = Number(INITIAL_REAL_TOKEN_RESERVES - state.realTokenReserves) / Number(INITIAL_REAL_TOKEN_RESERVES);
+  return {
+    mint,
+    priceSol,
+    priceUsd: priceSol * solUsd,
+    marketCapSol: priceSol * totalSupply,
+    marketCapUsd: priceSol * totalSupply * solUsd,
+    liquiditySol: Number(state.realSolReserves) / LAMPORTS_PER_SOL,
+    totalSupply,
+    bondingProgress: state.complete ? 100 : Math.min(100, Math.max(0, sold * 100)),
+    isGraduated: state.complete,
+    creator: state.creator,
+  };
+};
+
+export const getBondingCurveAddress = (mint: string): PublicKey =>
+  PublicKey.findProgramAddressSync([Buffer.from('bonding-curve'), new PublicKey(mint).toBuffer()], PUMP_FUN_PROGRAM_ID)[0];
+
+// Base58 check without throwing inside PublicKey
+const toCurveAddress = (mint: string): PublicKey | null => {
+  try {
+    return getBondingCurveAddress(mint);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads pump.fun bonding curve accounts over the shared Solana RPC connection. Methods throw on
+ * RPC errors and return null for mints without a curve (not a pump.fun token).
+ */
+export class PumpFunProvider {
+  constructor(private readonly connection: Connection) {}
+
+  async getBondingCurve(mint: string): Promise<BondingCurveInfo | null> {
+    return (await this.getBondingCurves([mint]))[mint];
+  }
+
+  async getBondingCurves(mints: string[]): Promise<Record<string, BondingCurveInfo | null>> {
+    const results: Record<string, BondingCurveInfo | null> = Object.fromEntries(mints.map(mint => [mint, null]));
+    const curves = mints
+      .map(mint => ({ mint, address: toCurveAddress(mint) }))
+      .filter((c): c is { mint: string; address: PublicKey } => !!c.address);
+
+    const states = new Map<string, BondingCurveState>();
+    for (let i = 0; i < curves.length; i += MAX_ACCOUNTS_PER_CALL) {
+      const part = curves.slice(i, i + MAX_ACCOUNTS_PER_CALL);
+      const accounts = await this.connection.getMultipleAccountsInfo(part.map(c => c.address));
+      accounts.forEach((account, j) => {
+        if (!account || !account.owner.equals(PUMP_FUN_PROGRAM_ID)) return;
+        const state = decodeBondingCurve(account.data);
+        if (state) states.set(part[j].mint, state);
+        else logger.debug(`[PumpFun] Unexpected bonding curve data for ${part[j].mint}`);
+      });
+    }
+    if (states.size === 0) return results;
+
+    const solUsd = await getSolUsdPrice();
+    for (const [mint, state] of states) {
+      results[mint] = bondingCurveInfo(mint, state, solUsd);
+    }
+    return results;
+  }
+}
+
+export const pumpFun = new PumpFunProvider(solana.connection);
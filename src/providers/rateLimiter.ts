@@ -0,0 +1,467 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+
+// Live alerts and sampling go first; backfills only get what is left
+export type RequestPriority = 'live' | 'normal' | 'backfill';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { live: 0, normal: 1, backfill: 2 };
+
+export interface RateLimitConfig {
+  perMinute: number; // Token bucket refill rate, also the burst size
+  daily?: number; // Calls per UTC day; 0/undefined = unlimited
+  monthly?: number; // Calls per UTC month
+}
+
+export interface ProviderUsageRow {
+  provider: string;
+  keyId: string;
+  period: string; // UTC day (2026-01-27) or month (2026-01)
+  calls: number;
+}
+
+/** Where quota counters survive restarts (see db/providerUsage). */
+export interface UsageStore {
+  load(periods: string[]): Promise<ProviderUsageRow[]>;
+  add(rows: ProviderUsageRow[]): Promise<void>;
+}
+
+export interface TakeResult {
+  status: 'ok' | 'wait' | 'daily' | 'monthly'; // Token taken, retry after waitMs, or quota spent
+  waitMs: number;
+  tokens: number;
+  usedToday: number;
+  usedThisMonth: number;
+}
+
+/** Token bucket and quota counters shared by every process (see RedisBucketStore). */
+export interface SharedBucketStore {
+  /** Take one token unless the bucket is paused, empty, or the quota (`limits`, 0 = none) is spent. */
+  take(
+    provider: string,
+    keyId: string,
+    periods: { day: string; month: string },
+    perMinute: number,
+    limits: { daily: number; monthly: number }
+  ): Promise<TakeResult>;
+  pause(provider: string, keyId: string, ms: number): Promise<void>;
+  /** Set counters that do not exist yet, e.g. after Redis lost them. */
+  seed(rows: ProviderUsageRow[]): Promise<void>;
+}
+
+export interface ProviderBudget {
+  provider: string;
+  keyId: string;
+  perMinute: number;
+  available: number; // Tokens in the bucket right now
+  queued: number;
+  pausedForMs: number; // Backoff after a 429
+  usedToday: number;
+  daily?: number;
+  usedThisMonth: number;
+  monthly?: number;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(provider: string, period: 'daily' | 'monthly', priority: RequestPriority) {
+    super(`${provider} ${period} quota exhausted${priority === 'backfill' ? ' for backfill' : ''}`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  seq: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Bucket {
+  provider: string;
+  keyId: string;
+  config: RateLimitConfig;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  waiters: Waiter[];
+  timer?: NodeJS.Timeout;
+  draining: boolean; // A shared take is in flight
+  day: string;
+  usedToday: number;
+  month: string;
+  usedThisMonth: number;
+  unflushed: Map<string, number>; // period -> calls not yet persisted
+}
+
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+/** Quotas are tracked per API key; only the tail is kept so keys never reach the DB or the bot. */
+export const apiKeyId = (apiKey?: string) => (apiKey ? `…${apiKey.slice(-4)}` : 'public');
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+/** Run `fn` with every rate-limited request inside it queued at `priority`. */
+export const withPriority = <T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> =>
+  priorityContext.run(priority, fn);
+
+export const currentPriority = (): RequestPriority => priorityContext.getStore() || 'normal';
+
+/**
+ * Token-bucket limiter per provider and API key with daily/monthly quota accounting. Waiting
+ * requests are served by priority, then FIFO. Backfill requests stop `backfillReserve` short of
+ * each quota so the rest stays available for live traffic.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private seq = 0;
+  private shared: SharedBucketStore | null = null;
+
+  constructor(
+    private readonly configs: Record<string, RateLimitConfig>,
+    private readonly backfillReserve = 0.2
+  ) {}
+
+  private bucket(provider: string, keyId: string): Bucket {
+    const id = `${provider}:${keyId}`;
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      const config = this.configs[provider];
+      const now = new Date();
+      bucket = {
+        provider,
+        keyId,
+        config,
+        tokens: config.perMinute,
+        refilledAt: now.getTime(),
+        pausedUntil: 0,
+        waiters: [],
+        draining: false,
+        day: dayOf(now),
+        usedToday: 0,
+        month: monthOf(now),
+        usedThisMonth: 0,
+        unflushed: new Map(),
+      };
+      this.buckets.set(id, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket, now: number) {
+    const { perMinute } = bucket.config;
+    bucket.tokens = Math.min(perMinute, bucket.tokens + ((now - bucket.refilledAt) * perMinute) / 60000);
+    bucket.refilledAt = now;
+  }
+
+  private rollPeriods(bucket: Bucket) {
+    const now = new Date();
+    if (dayOf(now) !== bucket.day) {
+      bucket.day = dayOf(now);
+      bucket.usedToday = 0;
+    }
+    if (monthOf(now) !== bucket.month) {
+      bucket.month = monthOf(now);
+      bucket.usedThisMonth = 0;
+    }
+  }
+
+  private limits(bucket: Bucket, priority: RequestPriority) {
+    const share = priority === 'backfill' ? 1 - this.backfillReserve : 1;
+    return { daily: (bucket.config.daily || 0) * share, monthly: (bucket.config.monthly || 0) * share };
+  }
+
+  private quotaError(bucket: Bucket, priority: RequestPriority): QuotaExceededError | null {
+    this.rollPeriods(bucket);
+    const { daily, monthly } = this.limits(bucket, priority);
+    if (daily && bucket.usedToday >= daily) return new QuotaExceededError(bucket.provider, 'daily', priority);
+    if (monthly && bucket.usedThisMonth >= monthly) {
+      return new QuotaExceededError(bucket.provider, 'monthly', priority);
+    }
+    return null;
+  }
+
+  private count(bucket: Bucket) {
+    bucket.usedToday++;
+    bucket.usedThisMonth++;
+    this.countUnflushed(bucket);
+  }
+
+  private countUnflushed(bucket: Bucket) {
+    for (const period of [bucket.day, bucket.month]) {
+      bucket.unflushed.set(period, (bucket.unflushed.get(period) || 0) + 1);
+    }
+  }
+
+  private schedule(bucket: Bucket, waitMs: number) {
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      this.drain(bucket);
+    }, Math.max(1, waitMs));
+  }
+
+  private drain(bucket: Bucket) {
+    if (bucket.timer || bucket.draining) return;
+    if (this.shared) void this.drainShared(bucket, this.shared);
+    else this.drainLocal(bucket);
+  }
+
+  private drainLocal(bucket: Bucket) {
+    const now = Date.now();
+    this.refill(bucket, now);
+    while (bucket.waiters.length > 0 && bucket.tokens >= 1 && now >= bucket.pausedUntil) {
+      const waiter = bucket.waiters.shift()!;
+      // The quota may have run out while this request was queued
+      const error = this.quotaError(bucket, waiter.priority);
+      if (error) {
+        waiter.reject(error);
+        continue;
+      }
+      bucket.tokens -= 1;
+      this.count(bucket);
+      waiter.resolve();
+    }
+    if (bucket.waiters.length === 0) return;
+    const waitMs =
+      now < bucket.pausedUntil
+        ? bucket.pausedUntil - now
+        : Math.ceil(((1 - bucket.tokens) * 60000) / bucket.config.perMinute);
+    this.schedule(bucket, waitMs);
+  }
+
+  /** Like drain, but tokens and counters come from the shared store so all processes split one budget. */
+  private async drainShared(bucket: Bucket, shared: SharedBucketStore) {
+    bucket.draining = true;
+    let waitMs = 0;
+    try {
+      while (bucket.waiters.length > 0) {
+        const waiter = bucket.waiters[0];
+        this.rollPeriods(bucket);
+        const result = await shared.take(
+          bucket.provider,
+          bucket.keyId,
+          { day: bucket.day, month: bucket.month },
+          bucket.config.perMinute,
+          this.limits(bucket, waiter.priority)
+        );
+        bucket.tokens = result.tokens;
+        bucket.refilledAt = Date.now();
+        bucket.usedToday = result.usedToday;
+        bucket.usedThisMonth = result.usedThisMonth;
+        if (result.status === 'wait') {
+          waitMs = result.waitMs;
+          break;
+        }
+        // Requests queued while the take was in flight may have been sorted in front
+        bucket.waiters.splice(bucket.waiters.indexOf(waiter), 1);
+        if (result.status === 'ok') {
+          this.countUnflushed(bucket);
+          waiter.resolve();
+        } else {
+          waiter.reject(new QuotaExceededError(bucket.provider, result.status, waiter.priority));
+        }
+      }
+    } catch (error) {
+      // Redis is down: keep going on this process's own bucket until it is back
+      logger.debug(`[RateLimit] Shared bucket unavailable for ${bucket.provider}: ${(error as Error).message}`);
+      bucket.draining = false;
+      this.drainLocal(bucket);
+      return;
+    }
+    bucket.draining = false;
+    if (bucket.waiters.length > 0) this.schedule(bucket, waitMs);
+  }
+
+  /**
+   * Wait for a request slot. Rejects with QuotaExceededError once the provider's quota for this
+   * priority is spent. Providers without a configured limit pass straight through.
+   */
+  acquire(provider: string, keyId = 'public', priority: RequestPriority = currentPriority()): Promise<void> {
+    if (!this.configs[provider]) return Promise.resolve();
+    const bucket = this.bucket(provider, keyId);
+    const error = this.quotaError(bucket, priority);
+    if (error) return Promise.reject(error);
+
+    return new Promise<void>((resolve, reject) => {
+      bucket.waiters.push({ priority, seq: this.seq++, resolve, reject });
+      bucket.waiters.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+      this.drain(bucket);
+    });
+  }
+
+  /** Pause a provider after a 429 so every caller backs off, not just the one that was rejected. */
+  backoff(provider: string, ms: number, keyId = 'public') {
+    if (!this.configs[provider]) return;
+    const bucket = this.bucket(provider, keyId);
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+    bucket.tokens = 0;
+    this.shared
+      ?.pause(provider, keyId, ms)
+      .catch(error => logger.debug(`[RateLimit] Failed to share ${provider} backoff: ${error.message}`));
+    logger.warn(`[RateLimit] ${provider} rate limited, pausing for ${Math.round(ms / 1000)}s`);
+  }
+
+  /** Take tokens and count quota in `store`, so every process using it stays within one budget. */
+  share(store: SharedBucketStore) {
+    this.shared = store;
+  }
+
+  getBudget(): ProviderBudget[] {
+    const now = Date.now();
+    return [...this.buckets.values()].map(bucket => {
+      this.refill(bucket, now);
+      this.rollPeriods(bucket);
+      return {
+        provider: bucket.provider,
+        keyId: bucket.keyId,
+        perMinute: bucket.config.perMinute,
+        available: Math.floor(bucket.tokens),
+        queued: bucket.waiters.length,
+        pausedForMs: Math.max(0, bucket.pausedUntil - now),
+        usedToday: bucket.usedToday,
+        daily: bucket.config.daily || undefined,
+        usedThisMonth: bucket.usedThisMonth,
+        monthly: bucket.config.monthly || undefined,
+      };
+    });
+  }
+
+  /**
+   * Seed today's and this month's counters from the store (e.g. after a restart). Shared counters
+   * are only set where missing, since they already include calls not persisted yet.
+   */
+  async hydrate(store: UsageStore) {
+    const now = new Date();
+    const rows = (await store.load([dayOf(now), monthOf(now)])).filter(row => this.configs[row.provider]);
+    if (this.shared) await this.shared.seed(rows);
+    for (const row of rows) {
+      const bucket = this.bucket(row.provider, row.keyId);
+      const pending = bucket.unflushed.get(row.period) || 0;
+      if (row.period === bucket.day) bucket.usedToday = row.calls + pending;
+      if (row.period === bucket.month) bucket.usedThisMonth = row.calls + pending;
+    }
+  }
+
+  /** Persist calls counted since the last flush; failed writes are retried on the next one. */
+  async flush(store: UsageStore) {
+    const rows: ProviderUsageRow[] = [];
+    for (const bucket of this.buckets.values()) {
+      for (const [period, calls] of bucket.unflushed) {
+        rows.push({ provider: bucket.provider, keyId: bucket.keyId, period, calls });
+      }
+      bucket.unflushed.clear();
+    }
+    if (rows.length === 0) return;
+    try {
+      await store.add(rows);
+    } catch (error) {
+      logger.warn('[RateLimit] Failed to persist provider usage:', error);
+      for (const row of rows) {
+        const bucket = this.bucket(row.provider, row.keyId);
+        bucket.unflushed.set(row.period, (bucket.unflushed.get(row.period) || 0) + row.calls);
+      }
+    }
+  }
+}
+
+// Refills the bucket, checks the pause and the quotas, then takes a token and counts the call.
+// KEYS: bucket hash, day counter, month counter. ARGV: perMinute, daily limit, monthly limit (0 = none).
+const TAKE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local perMinute = tonumber(ARGV[1])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'refilledAt', 'pausedUntil')
+local tokens = tonumber(state[1]) or perMinute
+local refilledAt = tonumber(state[2]) or now
+local pausedUntil = tonumber(state[3]) or 0
+tokens = math.min(perMinute, tokens + math.max(0, now - refilledAt) * perMinute / 60000)
+local usedToday = tonumber(redis.call('GET', KEYS[2]) or 0)
+local usedThisMonth = tonumber(redis.call('GET', KEYS[3]) or 0)
+local daily, monthly = tonumber(ARGV[2]), tonumber(ARGV[3])
+local status, waitMs = 'ok', 0
+if daily > 0 and usedToday >= daily then
+  status = 'daily'
+elseif monthly > 0 and usedThisMonth >= monthly then
+  status = 'monthly'
+elseif now < pausedUntil then
+  status, waitMs = 'wait', pausedUntil - now
+elseif tokens < 1 then
+  status, waitMs = 'wait', math.ceil((1 - tokens) * 60000 / perMinute)
+else
+  tokens = tokens - 1
+  usedToday = redis.call('INCR', KEYS[2])
+  redis.call('PEXPIRE', KEYS[2], 172800000)
+  usedThisMonth = redis.call('INCR', KEYS[3])
+  redis.call('PEXPIRE', KEYS[3], 2764800000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'refilledAt', now)
+redis.call('PEXPIRE', KEYS[1], 3600000)
+return {status, waitMs, tostring(tokens), usedToday, usedThisMonth}
+`;
+
+const PAUSE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local pausedUntil = math.max(tonumber(redis.call('HGET', KEYS[1], 'pausedUntil')) or 0, now + tonumber(ARGV[1]))
+redis.call('HSET', KEYS[1], 'pausedUntil', pausedUntil, 'tokens', 0, 'refilledAt', now)
+redis.call('PEXPIRE', KEYS[1], 3600000)
+`;
+
+/** Shared across bot and worker processes; the scripts run atomically, so no two callers get the same token. */
+export class RedisBucketStore implements SharedBucketStore {
+  constructor(private readonly redis: Redis, private readonly prefix = 'rate-limit:') {}
+
+  private key(provider: string, keyId: string, period?: string) {
+    return `${this.prefix}${provider}:${keyId}${period ? `:${period}` : ''}`;
+  }
+
+  async take(
+    provider: string,
+    keyId: string,
+    periods: { day: string; month: string },
+    perMinute: number,
+    limits: { daily: number; monthly: number }
+  ): Promise<TakeResult> {
+    const [status, waitMs, tokens, usedToday, usedThisMonth] = (await this.redis.eval(
+      TAKE_SCRIPT,
+      3,
+      this.key(provider, keyId),
+      this.key(provider, keyId, periods.day),
+      this.key(provider, keyId, periods.month),
+      perMinute,
+      limits.daily,
+      limits.monthly
+    )) as [TakeResult['status'], number, string, number, number];
+    return { status, waitMs, tokens: Number(tokens), usedToday, usedThisMonth };
+  }
+
+  async pause(provider: string, keyId: string, ms: number) {
+    await this.redis.eval(PAUSE_SCRIPT, 1, this.key(provider, keyId), Math.round(ms));
+  }
+
+  async seed(rows: ProviderUsageRow[]) {
+    for (const row of rows) {
+      // Day counters live two days, month counters 32, matching the take script
+      const ttlMs = row.period.length > 7 ? 172800000 : 2764800000;
+      await this.redis.set(this.key(row.provider, row.keyId, row.period), row.calls, 'PX', ttlMs, 'NX');
+    }
+  }
+}
+
+const limitFromEnv = (provider: string, perMinute: number): RateLimitConfig => {
+  const prefix = `RATE_LIMIT_${provider.toUpperCase()}`;
+  return {
+    perMinute: Number(process.env[`${prefix}_PER_MINUTE`] ?? perMinute),
+    daily: Number(process.env[`${prefix}_DAILY`] ?? 0),
+    monthly: Number(process.env[`${prefix}_MONTHLY`] ?? 0),
+  };
+};
+
+export const rateLimiter = new RateLimiter(
+  {
+    geckoterminal: limitFromEnv('geckoterminal', 30),
+    dexscreener: limitFromEnv('dexscreener', 300),
+    bitquery: limitFromEnv('bitquery', 10),
+  },
+  Number(process.env.RATE_LIMIT_BACKFILL_RESERVE ?? 0.2)
+);
@@ -0,0 +1,436 @@
+import { logger } from '../utils/logger';
+import { CircuitBreaker, CircuitState } from './circuitBreaker';
+import { ProviderCache } from './cache';
+import { BatchResult, MarketDataProvider, OHLCV, PriceQuote, ProviderCapability, TokenHolderInfo, TokenMeta } from './types';
+
+export interface ProviderRegistryOptions {
+  timeoutMs: number; // Per-call timeout; a timeout counts as a failure
+  failureThreshold: number; // Consecutive failures before a provider's breaker opens
+  cooldownMs: number; // How long an open breaker skips the provider
+  batchSize: number; // Mints per batch call; a failed chunk only falls through for its own mints
+  batchTimeoutMs: number; // Per-chunk timeout for batch calls
+  concurrency: number; // Parallel single-mint calls for sources without batch methods
+  crossCheck?: CrossCheckOptions;
+}
+
+export interface CrossCheckOptions {
+  provider: string; // On-chain quote source (with getQuotes) other providers' quotes are checked against
+  maxDeviation: number; // Relative difference (0.25 = 25%) beyond which its price wins
+}
+
+export interface CrossCheckStats {
+  provider: string;
+  checked: number; // Quotes the on-chain source could also price
+  replaced: number; // Quotes replaced for deviating more than maxDeviation
+  lastReplaced?: { mint: string; source: string; deviation: number; at: Date };
+}
+
+export interface CapabilityStats {
+  calls: number;
+  successes: number;
+  misses: number; // Answered without data for the token
+  failures: number; // Errors and timeouts
+  timeouts: number;
+  skipped: number; // Calls skipped while the breaker was open
+  avgLatencyMs: number; // Over answered calls (successes + misses)
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+export interface ProviderStats {
+  name: string;
+  state: CircuitState;
+  retryInMs: number;
+  capabilities: Partial<Record<ProviderCapability, CapabilityStats>>;
+}
+
+const METHOD_BY_CAPABILITY: Record<ProviderCapability, keyof MarketDataProvider> = {
+  quote: 'getQuote',
+  meta: 'getTokenMeta',
+  ohlcv: 'getOHLCV',
+  holders: 'getTopHolders',
+};
+
+const BATCH_METHOD_BY_CAPABILITY: Partial<Record<ProviderCapability, keyof MarketDataProvider>> = {
+  quote: 'getQuotes',
+  meta: 'getTokenMetas',
+};
+
+const supports = (provider: MarketDataProvider, capability: ProviderCapability) => {
+  const batchMethod = BATCH_METHOD_BY_CAPABILITY[capability];
+  return (
+    typeof provider[METHOD_BY_CAPABILITY[capability]] === 'function' ||
+    (!!batchMethod && typeof provider[batchMethod] === 'function')
+  );
+};
+
+class ProviderTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(provider, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const hasPrice = (q: PriceQuote | null | undefined) =>
+  !!q && q.price !== null && q.price !== undefined && Number.isFinite(q.price);
+
+// Providers on the same upstream API (jupiter, jupiter_price) can't confirm each other
+const upstreamOf = (name?: string) => name?.split('_')[0];
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const withProvider = <T extends PriceQuote | TokenMeta>(results: BatchResult<T>, from: Record<string, string>): BatchResult<T> =>
+  Object.fromEntries(Object.entries(results).map(([mint, r]) => [mint, r ? { ...r, provider: from[mint] } : null]));
+
+const emptyStats = (): CapabilityStats => ({
+  calls: 0,
+  successes: 0,
+  misses: 0,
+  failures: 0,
+  timeouts: 0,
+  skipped: 0,
+  avgLatencyMs: 0,
+});
+
+/**
+ * Market data facade over the registered sources. Each capability walks its configured
+ * provider order and returns the first result with data; providers whose circuit breaker
+ * is open are skipped so a dead API doesn't cost a timeout on every call.
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, MarketDataProvider>();
+  private breakers = new Map<string, CircuitBreaker>();
+  private stats = new Map<string, Partial<Record<ProviderCapability, CapabilityStats>>>();
+  private order: Partial<Record<ProviderCapability, string[]>> = {};
+  private crossCheckStats: Omit<CrossCheckStats, 'provider'> = { checked: 0, replaced: 0 };
+
+  constructor(
+    private readonly options: ProviderRegistryOptions,
+    private readonly cache?: ProviderCache
+  ) {}
+
+  register(provider: MarketDataProvider) {
+    this.providers.set(provider.name, provider);
+    this.breakers.set(provider.name, new CircuitBreaker(this.options.failureThreshold, this.options.cooldownMs));
+    this.stats.set(provider.name, {});
+    return this;
+  }
+
+  /** Fallback order for a capability; unknown names and providers lacking the capability are dropped. */
+  setOrder(capability: ProviderCapability, names: string[]) {
+    const valid = names.filter(name => {
+      const provider = this.providers.get(name);
+      if (!provider) logger.warn(`[Providers] Unknown provider "${name}" in ${capability} order`);
+      else if (!supports(provider, capability)) logger.warn(`[Providers] ${name} does not support ${capability}`);
+      return !!provider && supports(provider, capability);
+    });
+    this.order[capability] = valid;
+    return this;
+  }
+
+  getOrder(capability: ProviderCapability): string[] {
+    return [...(this.order[capability] || [])];
+  }
+
+  private statsFor(name: string, capability: ProviderCapability): CapabilityStats {
+    const byCapability = this.stats.get(name)!;
+    if (!byCapability[capability]) byCapability[capability] = emptyStats();
+    return byCapability[capability]!;
+  }
+
+  /**
+   * One call to one provider, guarded by its breaker and timeout. Returns null when the call
+   * was skipped or failed; thrown errors and timeouts count against the breaker, empty results don't.
+   */
+  private async callProvider<T>(
+    name: string,
+    capability: ProviderCapability,
+    label: string,
+    call: (provider: MarketDataProvider) => Promise<T>,
+    hasData: (result: T) => boolean,
+    timeoutMs = this.options.timeoutMs
+  ): Promise<{ result: T } | null> {
+    const breaker = this.breakers.get(name)!;
+    const stats = this.statsFor(name, capability);
+    if (!breaker.tryAcquire()) {
+      stats.skipped++;
+      return null;
+    }
+
+    stats.calls++;
+    const start = Date.now();
+    try {
+      const result = await withTimeout(call(this.providers.get(name)!), timeoutMs, name);
+      const answered = stats.successes + stats.misses;
+      stats.avgLatencyMs = (stats.avgLatencyMs * answered + (Date.now() - start)) / (answered + 1);
+      breaker.recordSuccess();
+      if (hasData(result)) stats.successes++;
+      else stats.misses++;
+      return { result };
+    } catch (error: any) {
+      stats.failures++;
+      if (error instanceof ProviderTimeoutError) stats.timeouts++;
+      stats.lastError = error?.message || String(error);
+      stats.lastErrorAt = new Date();
+      breaker.recordFailure();
+      if (breaker.getState() === 'open') {
+        logger.warn(`[Providers] ${name} circuit open after failure on ${capability} for ${label}: ${stats.lastError}`);
+      } else {
+        logger.debug(`[Providers] ${name} ${capability} failed for ${label}: ${stats.lastError}`);
+      }
+      return null;
+    }
+  }
+
+  /** Try each provider in order and return the first result with data, along with who answered. */
+  private async run<T>(
+    capability: ProviderCapability,
+    mint: string,
+    call: (provider: MarketDataProvider) => Promise<T>,
+    hasData: (result: T) => boolean
+  ): Promise<{ name: string; result: T } | null> {
+    const method = METHOD_BY_CAPABILITY[capability];
+    for (const name of this.order[capability] || []) {
+      // Batch-only sources sit out single-mint lookups
+      if (typeof this.providers.get(name)![method] !== 'function') continue;
+      const outcome = await this.callProvider(name, capability, mint, call, hasData);
+      if (outcome && hasData(outcome.result)) return { name, result: outcome.result };
+    }
+    return null;
+  }
+
+  /**
+   * Batch variant of run: each provider in order only gets the mints still missing. Sources with
+   * a batch method are called per chunk, the rest mint by mint with limited concurrency.
+   * `from` maps each found mint to the provider that answered. Mints listed in `exclude` skip
+   * providers on the same upstream as the one given for them.
+   */
+  private async runBatch<T>(
+    capability: 'quote' | 'meta',
+    mints: string[],
+    batchCall: (provider: MarketDataProvider) => ((mints: string[]) => Promise<BatchResult<T>>) | undefined,
+    singleCall: (provider: MarketDataProvider, mint: string) => Promise<T | null>,
+    hasData: (result: T | null | undefined) => boolean,
+    exclude?: Record<string, string>
+  ): Promise<{ results: BatchResult<T>; from: Record<string, string> }> {
+    const unique = [...new Set(mints)];
+    const results: BatchResult<T> = Object.fromEntries(unique.map(mint => [mint, null]));
+    const from: Record<string, string> = {};
+    let remaining = unique;
+
+    for (const name of this.order[capability] || []) {
+      if (remaining.length === 0) break;
+      const eligible = exclude ? remaining.filter(mint => upstreamOf(exclude[mint]) !== upstreamOf(name)) : remaining;
+      if (eligible.length === 0) continue;
+      const batch = batchCall(this.providers.get(name)!);
+
+      if (batch) {
+        for (const part of chunk(eligible, this.options.batchSize)) {
+          const outcome = await this.callProvider(
+            name,
+            capability,
+            `${part.length} mints`,
+            () => batch(part),
+            r => part.some(mint => hasData(r[mint])),
+            this.options.batchTimeoutMs
+          );
+          // A failed chunk leaves its mints for the next provider
+          if (!outcome) continue;
+          for (const mint of part) {
+            const value = outcome.result[mint];
+            if (!hasData(value)) continue;
+            results[mint] = value!;
+            from[mint] = name;
+          }
+        }
+      } else {
+        const queue = [...eligible];
+        const worker = async () => {
+          for (let mint = queue.shift(); mint; mint = queue.shift()) {
+            const outcome = await this.callProvider(name, capability, mint, p => singleCall(p, mint!), hasData);
+            if (outcome && hasData(outcome.result)) {
+              results[mint] = outcome.result;
+              from[mint] = name;
+            }
+          }
+        };
+        await Promise.all(Array.from({ length: Math.min(this.options.concurrency, queue.length) }, worker));
+      }
+      remaining = remaining.filter(mint => !results[mint]);
+    }
+    return { results, from };
+  }
+
+  /**
+   * Check quotes from other providers against the on-chain cross-check source. Aggregators lag
+   * pool reserves, so a quote deviating more than maxDeviation is replaced by the pool price.
+   * Mints the on-chain source can't price, or an unavailable source, leave the quotes as they are.
+   */
+  private async crossCheckQuotes(
+    quotes: BatchResult<PriceQuote>,
+    from: Record<string, string>
+  ): Promise<BatchResult<PriceQuote>> {
+    const check = this.options.crossCheck;
+    const mints = Object.keys(quotes).filter(mint => hasPrice(quotes[mint]) && from[mint] !== check?.provider);
+    if (!check || !this.providers.get(check.provider)?.getQuotes || mints.length === 0) return quotes;
+
+    const outcome = await this.callProvider(
+      check.provider,
+      'quote',
+      `cross-check of ${mints.length} mints`,
+      p => p.getQuotes!(mints),
+      r => mints.some(mint => hasPrice(r[mint])),
+      this.options.batchTimeoutMs
+    );
+    if (!outcome) return quotes;
+
+    const checked = { ...quotes };
+    for (const mint of mints) {
+      const onChain = outcome.result[mint];
+      if (!hasPrice(onChain) || !(onChain!.price > 0)) continue;
+      this.crossCheckStats.checked++;
+      const quote = quotes[mint]!;
+      const deviation = Math.abs(quote.price - onChain!.price) / onChain!.price;
+      if (deviation <= check.maxDeviation) continue;
+      logger.warn(
+        `[Providers] ${quote.source} price for ${mint} is ${(deviation * 100).toFixed(0)}% off the ${check.provider} pool price (${quote.price} vs ${onChain!.price}), using the pool price`
+      );
+      checked[mint] = { ...onChain!, provider: check.provider };
+      this.crossCheckStats.replaced++;
+      this.crossCheckStats.lastReplaced = { mint, source: quote.source, deviation, at: new Date() };
+    }
+    return checked;
+  }
+
+  private cached<T>(capability: ProviderCapability, key: string, load: () => Promise<T>, hasData: (value: T) => boolean) {
+    return this.cache ? this.cache.wrap(capability, key, load, hasData) : load();
+  }
+
+  async getQuote(mint: string): Promise<PriceQuote> {
+    const load = async () => {
+      const found = await this.run('quote', mint, p => p.getQuote!(mint), hasPrice);
+      if (!found) return null;
+      const quote: PriceQuote = { ...found.result!, provider: found.name };
+      return (await this.crossCheckQuotes({ [mint]: quote }, { [mint]: found.name }))[mint];
+    };
+    const quote = await this.cached('quote', mint, load, hasPrice);
+    if (!quote) throw new Error(`No price data for ${mint}`);
+    return quote;
+  }
+
+  async getTokenMeta(mint: string): Promise<TokenMeta> {
+    const load = async () => {
+      const found = await this.run('meta', mint, p => p.getTokenMeta!(mint), m => !!m);
+      return found ? { ...found.result!, provider: found.name } : null;
+    };
+    const meta = await this.cached('meta', mint, load, m => !!m);
+    // Callers expect a meta object even when every source failed
+    return meta || { mint, name: 'Unknown', symbol: 'UNKNOWN', chain: 'Solana' };
+  }
+
+  /** Quotes for many mints; mints no source could price map to null. */
+  async getQuotes(mints: string[]): Promise<BatchResult<PriceQuote>> {
+    const load = async (missing: string[]) => {
+      const { results, from } = await this.runBatch(
+        'quote',
+        missing,
+        p => p.getQuotes?.bind(p),
+        (p, mint) => p.getQuote!(mint),
+        hasPrice
+      );
+      return this.crossCheckQuotes(withProvider(results, from), from);
+    };
+    return this.cache ? this.cache.wrapMany('quote', mints, load, hasPrice) : load(mints);
+  }
+
+  /**
+   * An independent quote for each quoted mint from the quote order, skipping the provider (and
+   * its upstream) that produced it. Uncached, so the answer can't be the checked quote itself.
+   */
+  async getSecondQuotes(quotes: BatchResult<PriceQuote>): Promise<BatchResult<PriceQuote>> {
+    const exclude: Record<string, string> = {};
+    for (const [mint, quote] of Object.entries(quotes)) {
+      if (quote?.provider) exclude[mint] = quote.provider;
+    }
+    const { results, from } = await this.runBatch(
+      'quote',
+      Object.keys(exclude),
+      p => p.getQuotes?.bind(p),
+      (p, mint) => p.getQuote!(mint),
+      hasPrice,
+      exclude
+    );
+    return withProvider(results, from);
+  }
+
+  /** Metadata for many mints; unlike getTokenMeta, missing mints map to null rather than a placeholder. */
+  async getTokenMetas(mints: string[]): Promise<BatchResult<TokenMeta>> {
+    const load = async (missing: string[]) => {
+      const { results, from } = await this.runBatch(
+        'meta',
+        missing,
+        p => p.getTokenMetas?.bind(p),
+        (p, mint) => p.getTokenMeta!(mint),
+        m => !!m
+      );
+      return withProvider(results, from);
+    };
+    return this.cache ? this.cache.wrapMany('meta', mints, load, m => !!m) : load(mints);
+  }
+
+  async getOHLCV(mint: string, timeframe: 'minute' | 'hour' | 'day', start: number, end: number): Promise<OHLCV[]> {
+    const hasCandles = (c: OHLCV[] | null) => !!c && c.length > 0;
+    const candles = await this.cached(
+      'ohlcv',
+      `${mint}:${timeframe}:${start}:${end}`,
+      async () => (await this.run('ohlcv', mint, p => p.getOHLCV!(mint, timeframe, start, end), hasCandles))?.result ?? null,
+      hasCandles
+    );
+    return candles || [];
+  }
+
+  async getTopHolders(mint: string, limit: number = 10): Promise<TokenHolderInfo[]> {
+    const hasHolders = (h: TokenHolderInfo[] | null) => !!h && h.length > 0;
+    const holders = await this.cached(
+      'holders',
+      `${mint}:${limit}`,
+      async () => (await this.run('holders', mint, p => p.getTopHolders!(mint, limit), hasHolders))?.result ?? null,
+      hasHolders
+    );
+    return holders || [];
+  }
+
+  /** Cache hit rates per capability, or null when the registry runs uncached. */
+  getCacheStats() {
+    return this.cache ? { backend: this.cache.backendName, capabilities: this.cache.getStats() } : null;
+  }
+
+  /** How often aggregator quotes were checked against, and overridden by, on-chain prices. */
+  getCrossCheckStats(): CrossCheckStats | null {
+    return this.options.crossCheck ? { provider: this.options.crossCheck.provider, ...this.crossCheckStats } : null;
+  }
+
+  getStats(): ProviderStats[] {
+    return [...this.providers.keys()].map(name => {
+      const breaker = this.breakers.get(name)!;
+      return {
+        name,
+        state: breaker.getState(),
+        retryInMs: breaker.retryInMs(),
+        capabilities: { ...this.stats.get(name) },
+      };
+    });
+  }
+}
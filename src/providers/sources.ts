@@ -0,0 +1,321 @@
+import { BatchResult, MarketDataProvider, PriceQuote, TokenMeta } from './types';
+import {
+  fetchJupiterTokenInfo,
+  getJupiterPrice,
+  getMultipleTokenInfo,
+  getMultipleTokenPrices,
+  JupiterTokenInfo,
+} from './jupiter';
+import { DexScreenerToken, fetchDexScreenerToken, fetchDexScreenerTokens } from './dexscreener';
+import { HeliusProvider } from './helius';
+import { geckoTerminal } from './geckoTerminal';
+import { bitquery } from './bitquery';
+import { solana } from './solana';
+import { BondingCurveInfo, pumpFun } from './pumpFun';
+import { ammPools, PoolPrice } from './ammPool';
+
+// Adapters exposing each market data source through MarketDataProvider for the registry.
+
+const TIMEFRAME_MS = { minute: 60 * 1000, hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 };
+const MAX_CANDLES = 1000;
+
+// Candles needed to cover [start, end] (ms), capped at the providers' page size
+const candleLimit = (timeframe: 'minute' | 'hour' | 'day', start: number, end: number) =>
+  Math.min(MAX_CANDLES, Math.max(1, Math.ceil((end - start) / TIMEFRAME_MS[timeframe]) + 1));
+
+const jupiterMeta = (mint: string, jupInfo: JupiterTokenInfo): TokenMeta => {
+  // Lets the AMM source price the token from its pool once the aggregators lag or go down
+  ammPools.rememberPool(mint, jupInfo.graduatedPool || jupInfo.firstPoolId);
+  const adjustedSupply = jupInfo.circSupply || jupInfo.totalSupply;
+  const marketCap =
+    jupInfo.mcap ??
+    (jupInfo.usdPrice && adjustedSupply ? jupInfo.usdPrice * adjustedSupply : undefined);
+  const volume24h =
+    jupInfo.stats24h && (jupInfo.stats24h.buyVolume || jupInfo.stats24h.sellVolume)
+      ? (jupInfo.stats24h.buyVolume || 0) + (jupInfo.stats24h.sellVolume || 0)
+      : undefined;
+
+  const socialLinks: any = {};
+  if (jupInfo.website) socialLinks.website = jupInfo.website;
+  if (jupInfo.twitter) socialLinks.twitter = jupInfo.twitter;
+  if (jupInfo.telegram) socialLinks.telegram = jupInfo.telegram;
+
+  return {
+    mint,
+    name: jupInfo.name || 'Unknown',
+    symbol: jupInfo.symbol || 'UNKNOWN',
+    decimals: jupInfo.decimals || 9,
+    image: jupInfo.icon,
+    marketCap,
+    fdv: jupInfo.fdv,
+    liquidity: jupInfo.liquidity,
+    supply: adjustedSupply,
+    circSupply: jupInfo.circSupply,
+    totalSupply: jupInfo.totalSupply,
+    priceChange5m: jupInfo.stats5m?.priceChange,
+    priceChange1h: jupInfo.stats1h?.priceChange,
+    priceChange24h: jupInfo.stats24h?.priceChange,
+    stats5m: jupInfo.stats5m,
+    stats1h: jupInfo.stats1h,
+    stats6h: jupInfo.stats6h,
+    stats24h: jupInfo.stats24h,
+    volume24h,
+    holderCount: jupInfo.holderCount,
+    audit: jupInfo.audit,
+    organicScore: jupInfo.organicScore,
+    organicScoreLabel: jupInfo.organicScoreLabel,
+    isVerified: jupInfo.isVerified,
+    tags: jupInfo.tags,
+    cexes: jupInfo.cexes,
+    ath: undefined,
+    athDate: undefined,
+    socialLinks: Object.keys(socialLinks).length ? socialLinks : undefined,
+    launchpad: jupInfo.launchpad,
+    createdAt: jupInfo.createdAt ? new Date(jupInfo.createdAt) : undefined,
+    firstPoolId: jupInfo.firstPoolId,
+    firstPoolCreatedAt: jupInfo.firstPoolCreatedAt ? new Date(jupInfo.firstPoolCreatedAt) : undefined,
+    priceBlockId: jupInfo.priceBlockId,
+    chain: 'Solana',
+    graduatedPool: jupInfo.graduatedPool,
+    graduatedAt: jupInfo.graduatedAt ? new Date(jupInfo.graduatedAt) : undefined,
+  };
+};
+
+const heliusMeta = (mint: string, asset: any): TokenMeta => {
+  const tokenInfo = asset.token_info || {};
+  const priceInfo = tokenInfo.price_info || {};
+  const content = asset.content || {};
+  const links = content.links || {};
+
+  // Calculate market cap: price_per_token * adjusted_supply
+  // Adjusted supply = supply / 10^decimals
+  const price = priceInfo.price_per_token || priceInfo.price || 0;
+  const supply = tokenInfo.supply || 0;
+  const decimals = tokenInfo.decimals || 9;
+  const adjustedSupply = supply / Math.pow(10, decimals);
+  const marketCap = price > 0 && adjustedSupply > 0 ? price * adjustedSupply : undefined;
+
+  // Get social links
+  const socialLinks: any = {};
+  if (links.website) socialLinks.website = links.website;
+  if (links.twitter) socialLinks.twitter = links.twitter;
+  if (links.telegram) socialLinks.telegram = links.telegram;
+  if (links.discord) socialLinks.discord = links.discord;
+
+  // Get creation date - try multiple sources
+  let createdAt: Date | undefined;
+  if (asset.creators && asset.creators.length > 0) {
+    // Try to get from creator verification date
+    const creator = asset.creators[0];
+    if (creator.verified_at) {
+      createdAt = new Date(creator.verified_at * 1000);
+    }
+  }
+  // Fallback to ownership creation date
+  if (!createdAt && asset.ownership?.created_at) {
+    createdAt = new Date(asset.ownership.created_at * 1000);
+  }
+
+  return {
+    mint,
+    name: content.metadata?.name || 'Unknown',
+    symbol: content.metadata?.symbol || 'UNKNOWN',
+    decimals: tokenInfo.decimals || 9,
+    image: links.image,
+    marketCap,
+    volume24h: priceInfo.volume_24h,
+    liquidity: priceInfo.liquidity,
+    supply: adjustedSupply > 0 ? adjustedSupply : undefined,
+    priceChange1h: priceInfo.price_change_1h || priceInfo.price_change_24h, // Use 1h if available
+    priceChange24h: priceInfo.price_change_24h,
+    ath: priceInfo.ath_price,
+    athDate: priceInfo.ath_price_date ? new Date(priceInfo.ath_price_date * 1000) : undefined,
+    socialLinks: Object.keys(socialLinks).length > 0 ? socialLinks : undefined,
+    launchpad: asset.creators?.[0]?.address || undefined, // Could be enhanced with launchpad detection
+    createdAt,
+    chain: 'Solana',
+  };
+};
+
+const mapBatch = <T, R>(mints: string[], values: Record<string, T | null | undefined>, map: (mint: string, value: T) => R | null): BatchResult<R> =>
+  Object.fromEntries(mints.map(mint => {
+    const value = values[mint];
+    return [mint, value === null || value === undefined ? null : map(mint, value)];
+  }));
+
+// DAS "not found" answers are a miss for this mint, not an outage
+const isNotFound = (error: any) => /not\s*found/i.test(error?.message || '');
+
+/** Jupiter token search: fresh price plus the richest metadata. Batch quotes use price/v3. */
+export const jupiterSource: MarketDataProvider = {
+  name: 'jupiter',
+  async getQuote(mint) {
+    const info = await fetchJupiterTokenInfo(mint);
+    if (info?.usdPrice === undefined || info.usdPrice === null) return null;
+    return { price: info.usdPrice, timestamp: Date.now(), source: 'jupiter_search', confidence: 0.9 };
+  },
+  async getTokenMeta(mint) {
+    const info = await fetchJupiterTokenInfo(mint);
+    return info ? jupiterMeta(mint, info) : null;
+  },
+  async getQuotes(mints) {
+    const prices = await getMultipleTokenPrices(mints);
+    return mapBatch(mints, prices, (_mint, price): PriceQuote | null =>
+      price > 0 ? { price, timestamp: Date.now(), source: 'jup_price_v3', confidence: 0.9 } : null
+    );
+  },
+  async getTokenMetas(mints) {
+    const infos = await getMultipleTokenInfo(mints);
+    return mapBatch(mints, infos, jupiterMeta);
+  },
+};
+
+/** Jupiter price/v3, then a 1 SOL swap quote. */
+export const jupiterPriceSource: MarketDataProvider = {
+  name: 'jupiter_price',
+  async getQuote(mint) {
+    const result = await getJupiterPrice(mint);
+    if (result.price !== null) {
+      return { price: result.price, timestamp: Date.now(), source: result.source, confidence: 0.8 };
+    }
+    // "no price/outAmount in response" means Jupiter has nothing for this mint
+    if (result.error && !result.error.startsWith('no ')) throw new Error(result.error);
+    return null;
+  },
+};
+
+export const createHeliusSource = (helius: HeliusProvider): MarketDataProvider => {
+  const getAsset = async (mint: string) => {
+    try {
+      return await helius.getAsset(mint);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+  return {
+    name: 'helius',
+    async getQuote(mint) {
+      const priceInfo = (await getAsset(mint))?.token_info?.price_info;
+      if (!priceInfo) return null;
+      return {
+        price: priceInfo.price_per_token || priceInfo.price || 0,
+        timestamp: Date.now(),
+        source: 'helius',
+        confidence: 1.0,
+      };
+    },
+    async getTokenMeta(mint) {
+      const asset = await getAsset(mint);
+      return asset ? heliusMeta(mint, asset) : null;
+    },
+  };
+};
+
+const dexScreenerQuote = (ds: DexScreenerToken): PriceQuote | null =>
+  ds.priceUsd === null ? null : { price: ds.priceUsd, timestamp: Date.now(), source: 'dexscreener', confidence: 0.6 };
+
+const dexScreenerMeta = (mint: string, ds: DexScreenerToken): TokenMeta => ({
+  mint,
+  name: ds.name || 'Unknown',
+  symbol: ds.symbol || 'UNKNOWN',
+  marketCap: ds.marketCap ?? undefined,
+  fdv: ds.fdv ?? undefined,
+  liquidity: ds.liquidityUsd ?? undefined,
+  volume24h: ds.volume24h ?? undefined,
+  chain: 'Solana',
+});
+
+export const dexScreenerSource: MarketDataProvider = {
+  name: 'dexscreener',
+  async getQuote(mint) {
+    const ds = await fetchDexScreenerToken(mint);
+    return ds ? dexScreenerQuote(ds) : null;
+  },
+  async getTokenMeta(mint) {
+    const ds = await fetchDexScreenerToken(mint);
+    return ds ? dexScreenerMeta(mint, ds) : null;
+  },
+  async getQuotes(mints) {
+    return mapBatch(mints, await fetchDexScreenerTokens(mints), (_mint, ds) => dexScreenerQuote(ds));
+  },
+  async getTokenMetas(mints) {
+    return mapBatch(mints, await fetchDexScreenerTokens(mints), dexScreenerMeta);
+  },
+};
+
+export const geckoTerminalSource: MarketDataProvider = {
+  name: 'geckoterminal',
+  async getOHLCV(mint, timeframe, start, end) {
+    // Single attempt: the registry moves on to the next source instead of sleeping through rate limits
+    const candles = await geckoTerminal.getOHLCV(mint, timeframe, candleLimit(timeframe, start, end), 1, Math.floor(end / 1000) + 1);
+    return candles.filter(c => c.timestamp >= start && c.timestamp <= end);
+  },
+};
+
+export const bitquerySource: MarketDataProvider = {
+  name: 'bitquery',
+  async getOHLCV(mint, timeframe, start, end) {
+    const candles = await bitquery.getOHLCV(mint, timeframe, candleLimit(timeframe, start, Date.now()));
+    return candles.filter(c => c.timestamp >= start && c.timestamp <= end);
+  },
+};
+
+export const solanaRpcSource: MarketDataProvider = {
+  name: 'solana_rpc',
+  getTopHolders: (mint, limit) => solana.fetchTopHolders(mint, limit),
+};
+
+// Curves that completed have migrated; their price comes from the pool, not the drained curve
+const pumpFunQuote = (curve: BondingCurveInfo): PriceQuote | null =>
+  curve.isGraduated || !(curve.priceUsd > 0)
+    ? null
+    : { price: curve.priceUsd, timestamp: Date.now(), source: 'pumpfun_curve', confidence: 0.95 };
+
+const pumpFunMeta = (mint: string, curve: BondingCurveInfo): TokenMeta => ({
+  mint,
+  name: 'Unknown',
+  symbol: 'UNKNOWN',
+  decimals: 6,
+  marketCap: curve.isGraduated ? undefined : curve.marketCapUsd,
+  supply: curve.totalSupply,
+  totalSupply: curve.totalSupply,
+  launchpad: 'pump.fun',
+  chain: 'Solana',
+});
+
+/** pump.fun bonding curve read on-chain: exact prices while aggregators lag on fresh launches. */
+export const pumpFunSource: MarketDataProvider = {
+  name: 'pumpfun',
+  async getQuote(mint) {
+    const curve = await pumpFun.getBondingCurve(mint);
+    return curve ? pumpFunQuote(curve) : null;
+  },
+  async getQuotes(mints) {
+    return mapBatch(mints, await pumpFun.getBondingCurves(mints), (_mint, curve) => pumpFunQuote(curve));
+  },
+  // Last-resort meta: supply and market cap without names
+  async getTokenMeta(mint) {
+    const curve = await pumpFun.getBondingCurve(mint);
+    return curve ? pumpFunMeta(mint, curve) : null;
+  },
+};
+
+const ammPoolQuote = (pool: PoolPrice): PriceQuote => ({
+  price: pool.priceUsd,
+  timestamp: Date.now(),
+  source: `amm_${pool.dex}`,
+  confidence: 0.85,
+});
+
+/** Graduated tokens priced from their PumpSwap/Raydium pool reserves read on-chain. */
+export const ammPoolSource: MarketDataProvider = {
+  name: 'amm',
+  async getQuote(mint) {
+    const pool = await ammPools.getPoolPrice(mint);
+    return pool ? ammPoolQuote(pool) : null;
+  },
+  async getQuotes(mints) {
+    return mapBatch(mints, await ammPools.getPoolPrices(mints), (_mint, pool) => ammPoolQuote(pool));
+  },
+};
@@ -69,6 +69,7 @@ export interface TokenMeta {
   liveMarketCap?: number | null;
   graduatedPool?: string;
   graduatedAt?: Date;
+  provider?: string; // Registry provider that answered (set by the registry)
 }
 
 export interface PriceQuote {
@@ -76,6 +77,7 @@ export interface PriceQuote {
   timestamp: number; // Unix timestamp in ms
   source: string;
   confidence?: number;
+  provider?: string; // Registry provider that answered (set by the registry)
 }
 
 export interface OHLCV {
@@ -87,8 +89,31 @@ export interface OHLCV {
   volume: number;
 }
 
+export interface TokenHolderInfo {
+  address: string;
+  amount: number;
+  percentage: number;
+  rank: number;
+}
+
+export type ProviderCapability = 'quote' | 'meta' | 'ohlcv' | 'holders';
+
+// Batch lookups: one key per requested mint, null when no data came back for it
+export type BatchResult<T> = Record<string, T | null>;
+
+/**
+ * A market data source. Sources implement only the capabilities they support; the registry
+ * (see registry.ts) walks them in the configured order per capability.
+ * Throw on transport/API errors (counted against the circuit breaker); return null or an
+ * empty result when the source simply has no data for the token.
+ * The batch methods are optional: sources without them are queried mint by mint.
+ */
 export interface MarketDataProvider {
-  getQuote(mint: string): Promise<PriceQuote>;
-  getTokenMeta(mint: string): Promise<TokenMeta>;
-  getOHLCV(mint: string, timeframe: string, start: number, end: number): Promise<OHLCV[] | null>;
+  readonly name: string;
+  getQuote?(mint: string): Promise<PriceQuote | null>;
+  getTokenMeta?(mint: string): Promise<TokenMeta | null>;
+  getQuotes?(mints: string[]): Promise<BatchResult<PriceQuote>>;
+  getTokenMetas?(mints: string[]): Promise<BatchResult<TokenMeta>>;
+  getOHLCV?(mint: string, timeframe: 'minute' | 'hour' | 'day', start: number, end: number): Promise<OHLCV[] | null>;
+  getTopHolders?(mint: string, limit: number): Promise<TokenHolderInfo[]>;
 }
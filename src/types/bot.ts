@@ -1,4 +1,5 @@
 import { Context } from 'telegraf';
+import type { ReprocessPlan } from '../ingest/reprocess';
 
 export interface SessionData {
   liveFilters?: {
@@ -80,6 +81,7 @@ export interface SessionData {
     createdAt: number;
   }>;
   strategyEditPresetId?: number;
+  reprocessPlan?: ReprocessPlan; // Pending /reprocess preview awaiting Apply
   pendingInput?: {
     type:
       | 'dist_timeframe'
@@ -105,7 +107,11 @@ export interface SessionData {
       | 'preset_tp_rule'
       | 'preset_sl_rule'
       | 'strategy_balance'
-      | 'strategy_fee';
+      | 'strategy_fee'
+      | 'group_rule_template'
+      | 'group_rule_keyword'
+      | 'group_rule_ignore'
+      | 'group_rule_min_conf';
     groupId?: number;
     userId?: number;
     day?: string;
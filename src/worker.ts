@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Telegraf } from 'telegraf';
+import { logger } from './utils/logger';
+import { setBotInstance } from './bot/instance';
+import { JOB_NAMES, JobName, resumeInterruptedBackfills, scheduleJobs, startWorkers, stopWorkers } from './jobs';
+import { rateLimiter } from './providers/rateLimiter';
+import { shareRateLimits } from './providers';
+import { providerUsageStore } from './db/providerUsage';
+
+// Queues this process works on (comma-separated), so heavy jobs can be deployed apart; all by default
+const selectQueues = (): JobName[] => {
+  const requested = (process.env.WORKER_QUEUES || '').split(',').map(name => name.trim()).filter(Boolean);
+  if (requested.length === 0) return JOB_NAMES;
+  const unknown = requested.filter(name => !JOB_NAMES.includes(name as JobName));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown WORKER_QUEUES: ${unknown.join(', ')} (available: ${JOB_NAMES.join(', ')})`);
+  }
+  return requested as JobName[];
+};
+
+const main = async () => {
+  logger.info('AlphaColor worker starting...');
+  const names = selectQueues();
+
+  // Jobs send alerts and notifications through the Bot API; updates are only received by the bot process
+  if (!process.env.BOT_TOKEN) throw new Error('BOT_TOKEN must be provided!');
+  setBotInstance(new Telegraf(process.env.BOT_TOKEN));
+
+  // Provider quota counters: shared through Redis, resumed from the DB, new calls persisted every minute
+  shareRateLimits();
+  await rateLimiter.hydrate(providerUsageStore).catch(err => logger.warn('Failed to load provider usage:', err));
+  const flushTimer = setInterval(() => {
+    rateLimiter.flush(providerUsageStore).catch(err => logger.error('Provider usage flush failed:', err));
+  }, 60 * 1000);
+
+  await scheduleJobs();
+  startWorkers(names);
+  // Backfill runs cut off by a restart continue from their pending mints
+  await resumeInterruptedBackfills().catch(err => logger.error('Failed to resume backfill runs:', err));
+
+  const shutdown = async (signal: string) => {
+    logger.info(`Worker received ${signal}, finishing running jobs...`);
+    clearInterval(flushTimer);
+    await stopWorkers();
+    await rateLimiter.flush(providerUsageStore).catch(err => logger.error('Provider usage flush failed:', err));
+    process.exit(0);
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+};
+
+main().catch((err) => {
+  logger.error('Fatal worker error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import { withJobLock } from '../src/jobs/locks';
+import { JOBS, startWorkers, stopWorkers } from '../src/jobs';
+import { DelayedError } from 'bullmq';
+
+// node-fetch is ESM-only and the jobs never reach the database or providers here
+jest.mock('../src/providers/jupiter', () => ({ getSolUsdPrice: jest.fn() }));
+jest.mock('../src/db', () => ({ prisma: {} }));
+jest.mock('../src/providers', () => ({ provider: {} }));
+
+// Job locks and queues talk to Redis; the fakes keep the lock state and each worker's processor
+const mockRedis = { set: jest.fn(), eval: jest.fn(async () => 1), quit: jest.fn() };
+const mockProcessors: Record<string, (job: any, token?: string) => Promise<unknown>> = {};
+jest.mock('ioredis', () => jest.fn(() => mockRedis));
+jest.mock('bullmq', () => ({
+  Worker: jest.fn((name: string, processor: any) => {
+    mockProcessors[name] = processor;
+    return { on: jest.fn(), close: jest.fn(async () => {}) };
+  }),
+  Queue: jest.fn(),
+  DelayedError: class DelayedError extends Error {},
+}));
+
+describe('Job Locks and Queues', () => {
+  const job = () => ({ id: '1', data: { runId: 7 }, moveToDelayed: jest.fn(async () => {}) });
+
+  const redisUrl = process.env.REDIS_URL;
+
+  beforeAll(() => {
+    process.env.REDIS_URL = 'redis://localhost:6379';
+    startWorkers(['sampling', 'price-alerts', 'ath-backfill']);
+  });
+  afterAll(() => {
+    if (redisUrl === undefined) delete process.env.REDIS_URL;
+    else process.env.REDIS_URL = redisUrl;
+  });
+  beforeEach(() => mockRedis.set.mockReset());
+
+  it('runs a job under the lock and releases it', async () => {
+    mockRedis.set.mockResolvedValueOnce('OK');
+    const fn = jest.fn(async () => {});
+    expect(await withJobLock('test', fn)).toBe(true);
+    expect(fn).toHaveBeenCalled();
+    expect(mockRedis.eval).toHaveBeenLastCalledWith(expect.stringContaining('del'), 1, expect.stringContaining(':lock:test'), expect.any(String));
+
+    mockRedis.set.mockResolvedValueOnce(null);
+    const busy = jest.fn(async () => {});
+    expect(await withJobLock('test', busy)).toBe(false);
+    expect(busy).not.toHaveBeenCalled();
+  });
+
+  it('delays one-off jobs while another instance holds the lock and skips interval ticks', async () => {
+    mockRedis.set.mockResolvedValue(null);
+    const alerts = job();
+    await expect(mockProcessors['price-alerts'](alerts, 'token')).rejects.toThrow(DelayedError);
+    expect(alerts.moveToDelayed).toHaveBeenCalledWith(expect.any(Number), 'token');
+
+    const tick = job();
+    await expect(mockProcessors.sampling(tick, 'token')).resolves.toBeUndefined();
+    expect(tick.moveToDelayed).not.toHaveBeenCalled();
+  });
+
+  it('requeues a backfill cut short by shutdown', async () => {
+    mockRedis.set.mockResolvedValue('OK');
+    const run = jest.spyOn(JOBS['ath-backfill'], 'run').mockImplementation(
+      (_data, shutdown) => new Promise(resolve => (shutdown.aborted ? resolve(undefined) : shutdown.addEventListener('abort', resolve)))
+    );
+    const backfill = job();
+    const running = mockProcessors['ath-backfill'](backfill, 'token');
+    await stopWorkers();
+    await expect(running).rejects.toThrow(DelayedError);
+    expect(backfill.moveToDelayed).toHaveBeenCalledWith(expect.any(Number), 'token');
+    run.mockRestore();
+  });
+});
@@ -1,5 +1,65 @@
-import { extractMints } from '../src/parsers/mint';
-import { detectSignal } from '../src/ingest/classifier';
+import { extractMints, extractAddresses, isValidEvmAddress } from '../src/parsers/mint';
+import { parseLinks, extractLinkedMints } from '../src/parsers/links';
+import { parseCallDetails } from '../src/parsers/callDetails';
+import { detectSignal, validateRulePattern } from '../src/ingest/classifier';
+import { extractForwardOrigin } from '../src/parsers/forwardOrigin';
+import { parseTelegramExport, resolveExportChatId } from '../src/parsers/telegramExport';
+import { tokenize, trainTextModel, predictSignalProbability } from '../src/ingest/textModel';
+import { evaluateClassifier, findRegressions } from '../src/ingest/evaluation';
+import { matchesRaidTemplate, isKnownBotSender, normalizeForRepeat } from '../src/ingest/spamFilter';
+import { ProviderRegistry } from '../src/providers/registry';
+import { MemoryCacheBackend, ProviderCache } from '../src/providers/cache';
+import { ProviderUsageRow, QuotaExceededError, RateLimiter, SharedBucketStore } from '../src/providers/rateLimiter';
+import { bondingCurveInfo, decodeBondingCurve } from '../src/providers/pumpFun';
+import { decodePool, poolPrice } from '../src/providers/ammPool';
+import { checkPrice } from '../src/analytics/priceSanity';
+import { tokenMaxAgeMs } from '../src/db/tokens';
+import { alertRetryAt, checkPriceAlerts } from '../src/jobs/priceAlerts';
+import { isMintDue, runSamplingCycle } from '../src/jobs/sampling';
+import * as metrics from '../src/analytics/metrics';
+import { getRunBudget, recordBackfillMint, requestBackfillStop, resumeBackfillRun } from '../src/db/backfillRuns';
+import { runFastBackfill } from '../src/jobs/athBackfillFast';
+import { prisma } from '../src/db';
+import { provider } from '../src/providers';
+import { getDexScreenerPair } from '../src/providers/dexscreener';
+import { PublicKey } from '@solana/web3.js';
+import corpus from './fixtures/classifier-corpus.json';
+import baseline from './fixtures/classifier-baseline.json';
+
+jest.mock('../src/providers/dexscreener', () => ({
+  getDexScreenerPair: jest.fn(async (_chain: string, pair: string) =>
+    pair === '8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj'
+      ? {
+          pairAddress: pair,
+          baseToken: 'So11111111111111111111111111111111111111112',
+          quoteToken: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+        }
+      : undefined
+  ),
+  fetchDexScreenerToken: jest.fn(async (mint: string) =>
+    mint === 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' ? { priceUsd: 1 } : null
+  ),
+}));
+
+// node-fetch is ESM-only; the curve tests never price SOL
+jest.mock('../src/providers/jupiter', () => ({ getSolUsdPrice: jest.fn() }));
+// Models and methods tests stand in for with jest.replaceProperty, restored after each test
+jest.mock('../src/db', () => ({
+  prisma: {
+    signal: {},
+    signalMetric: {},
+    thresholdEvent: {},
+    alertDelivery: {},
+    priceSample: {},
+    priceQuarantine: {},
+    backfillRun: {},
+    backfillRunMint: {},
+    $transaction: undefined,
+  },
+}));
+jest.mock('../src/providers', () => ({
+  provider: { getQuotes: undefined, getSecondQuotes: undefined, getTokenMetas: undefined },
+}));
 
 describe('Mint Extraction', () => {
   it('extracts valid base58 mints', async () => {
@@ -13,6 +73,101 @@ describe('Mint Extraction', () => {
     const mints = await extractMints(text);
     expect(mints).toHaveLength(0);
   });
+
+  it('extracts checksummed EVM addresses and normalizes to lowercase', async () => {
+    const text = 'New BSC gem 0x55d398326f99059fF775485246999027B3197955';
+    const addresses = await extractAddresses(text);
+    expect(addresses).toEqual([
+      { address: '0x55d398326f99059ff775485246999027b3197955', chain: 'bsc' },
+    ]);
+  });
+
+  it('rejects EVM addresses with a bad checksum', () => {
+    expect(isValidEvmAddress('0x55d398326f99059fF775485246999027B3197955')).toBe(true);
+    expect(isValidEvmAddress('0x55D398326f99059fF775485246999027B3197955')).toBe(false);
+    expect(isValidEvmAddress('0x55d398326f99059ff775485246999027b3197955')).toBe(true);
+  });
+
+  it('tags EVM addresses with base when the text points at Base', async () => {
+    const text = 'https://dexscreener.com/base/0x4ed4e862860bed51a9570b96d89af5e1b0efefed';
+    const addresses = await extractAddresses(text);
+    expect(addresses[0].chain).toBe('base');
+  });
+
+  it('keeps order of appearance across chains', async () => {
+    const text = '0x55d398326f99059fF775485246999027B3197955 and DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    const addresses = await extractAddresses(text);
+    expect(addresses.map(a => a.chain)).toEqual(['bsc', 'solana']);
+  });
+});
+
+describe('Link Extraction', () => {
+  it('recognises launchpad, DEX and explorer links', () => {
+    const text = [
+      'https://pump.fun/coin/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+      'https://gmgn.ai/sol/token/abc123_EPjFWdd5AufqSSqeM2qJxgLWwzR7DqsZJcZf5ZCU3Xo',
+      'https://birdeye.so/token/Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB?chain=solana',
+      'https://photon-sol.tinyastro.io/en/lp/8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj',
+    ].join('\n');
+    const links = parseLinks(text);
+    expect(links.map(l => l.linkType)).toEqual(['pumpfun', 'gmgn', 'birdeye', 'photon']);
+    expect(links[1].address).toBe('EPjFWdd5AufqSSqeM2qJxgLWwzR7DqsZJcZf5ZCU3Xo');
+    expect(links[3].isPool).toBe(true);
+  });
+
+  it('resolves pool links to the token mint', async () => {
+    const text = 'chart https://photon-sol.tinyastro.io/en/lp/8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj';
+    const mints = await extractLinkedMints(text);
+    expect(mints).toEqual([
+      { address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', chain: 'solana', linkType: 'photon' },
+    ]);
+  });
+
+  it('takes DexScreener links to listed tokens, but not failed lookups or unknown pools', async () => {
+    const link = 'https://dexscreener.com/solana/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    (getDexScreenerPair as jest.Mock).mockResolvedValueOnce(null);
+    expect(await extractLinkedMints(link)).toEqual([]);
+    expect(await extractLinkedMints(link)).toEqual([
+      { address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', chain: 'solana', linkType: 'dexscreener' },
+    ]);
+    expect(await extractLinkedMints('https://dexscreener.com/solana/Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB')).toEqual([]);
+  });
+
+  it('does not read pool addresses as mints and records the link type', async () => {
+    const text = 'LFG https://photon-sol.tinyastro.io/en/lp/8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj';
+    const result = await detectSignal(text);
+    expect(result.mints).toEqual(['DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263']);
+    expect(result.templateId).toBe('link_photon');
+  });
+});
+
+describe('Call Details Parsing', () => {
+  it('parses claimed MC, targets and category', () => {
+    const details = parseCallDetails('New AI agent call\nMC: 120k\nTP: 2x, 5x, 10x');
+    expect(details.reportedMcap).toBe(120000);
+    expect(details.reportedMcapText).toBe('MC: 120k');
+    expect(details.targets).toEqual([
+      { kind: 'multiple', value: 2 },
+      { kind: 'multiple', value: 5 },
+      { kind: 'multiple', value: 10 },
+    ]);
+    expect(details.category).toBe('AI');
+  });
+
+  it('separates entry prices from MC levels', () => {
+    expect(parseCallDetails('entry @ $0.00012').reportedPrice).toBe(0.00012);
+    expect(parseCallDetails('entry: 45k, targets 200k / 1m').reportedMcap).toBe(45000);
+    expect(parseCallDetails('targets 200k / 1m').targets).toEqual([
+      { kind: 'mcap', value: 200000 },
+      { kind: 'mcap', value: 1000000 },
+    ]);
+  });
+
+  it('does not read digits inside addresses as numbers', () => {
+    const details = parseCallDetails('DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263');
+    expect(details.reportedMcap).toBeUndefined();
+    expect(details.targets).toHaveLength(0);
+  });
 });
 
 describe('Signal Detection', () => {
@@ -28,6 +183,39 @@ describe('Signal Detection', () => {
     const result = await detectSignal(text);
     expect(result.isSignal).toBe(false);
   });
+
+  it('returns every distinct mint in multi-token calls', async () => {
+    const text = 'Watching these 2: DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 EPjFWdd5AufqSSqeM2qJxgLWwzR7DqsZJcZf5ZCU3Xo';
+    const result = await detectSignal(text);
+    expect(result.isSignal).toBe(true);
+    expect(result.messageKind).toBe('call');
+    expect(result.mints).toHaveLength(2);
+  });
+
+  it('tells recap posts apart from fresh calls', async () => {
+    const text = [
+      'Daily recap 🔥',
+      'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 did 12x',
+      'EPjFWdd5AufqSSqeM2qJxgLWwzR7DqsZJcZf5ZCU3Xo 50k -> 400k',
+    ].join('\n');
+    const result = await detectSignal(text);
+    expect(result.isSignal).toBe(false);
+    expect(result.messageKind).toBe('recap');
+    expect(result.templateId).toBe('recap_post');
+  });
+
+  it('does not treat target ladders as recaps', async () => {
+    const text = 'Buy DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 at 40k\nTP: 100k -> 250k -> 1m';
+    const result = await detectSignal(text);
+    expect(result.isSignal).toBe(true);
+  });
+
+  it('passes the detected chain through', async () => {
+    const text = 'Buy on BSC 0x55d398326f99059fF775485246999027B3197955';
+    const result = await detectSignal(text);
+    expect(result.isSignal).toBe(true);
+    expect(result.addresses[0].chain).toBe('bsc');
+  });
 });
 
 
@@ -40,3 +228,625 @@ describe('Signal Detection', () => {
 
 
 
+
+describe('Forward Origin', () => {
+  it('reads channel origin from forward_origin', () => {
+    const origin = extractForwardOrigin({
+      forward_origin: {
+        type: 'channel',
+        chat: { id: -1001234567890, title: 'Alpha Calls', type: 'channel' },
+        message_id: 42,
+        author_signature: 'dev',
+        date: 1769500000,
+      },
+    });
+    expect(origin?.forwardFromChatId).toBe(BigInt(-1001234567890));
+    expect(origin?.forwardFromChatTitle).toBe('Alpha Calls');
+    expect(origin?.forwardFromMessageId).toBe(42);
+    expect(origin?.forwardAuthor).toBe('dev');
+    expect(origin?.forwardDate).toEqual(new Date(1769500000 * 1000));
+  });
+
+  it('falls back to legacy forward fields and ignores plain messages', () => {
+    const origin = extractForwardOrigin({
+      forward_from: { id: 777, username: 'caller' },
+      forward_date: 1769500000,
+    });
+    expect(origin?.forwardOriginType).toBe('user');
+    expect(origin?.forwardFromUserId).toBe(BigInt(777));
+    expect(origin?.forwardAuthor).toBe('@caller');
+    expect(extractForwardOrigin({ text: 'hello' })).toBeNull();
+  });
+});
+
+describe('Telegram Export Parsing', () => {
+  const exportData = {
+    name: 'Alpha Calls',
+    type: 'public_channel',
+    id: 1234567890,
+    messages: [
+      { id: 2, type: 'service', date: '2025-01-02T10:00:00', text: '' },
+      {
+        id: 3,
+        type: 'message',
+        date: '2025-01-02T10:05:00',
+        date_unixtime: '1735812300',
+        from: 'Caller',
+        from_id: 'user777',
+        text: ['Aping ', { type: 'text_link', text: 'this', href: 'https://pump.fun/coin/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' }],
+      },
+      { id: 4, type: 'message', date: '2025-01-02T10:06:00', date_unixtime: '1735812360', from_id: 'channel1234567890', text: '' },
+    ],
+  };
+
+  it('maps channel exports to Bot API chat ids', () => {
+    expect(resolveExportChatId(exportData)).toBe(BigInt('-1001234567890'));
+  });
+
+  it('keeps text messages and hidden link targets', () => {
+    const messages = parseTelegramExport(exportData);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].senderId).toBe(BigInt(777));
+    expect(messages[0].sentAt).toEqual(new Date(1735812300 * 1000));
+    expect(messages[0].text).toContain('https://pump.fun/coin/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263');
+  });
+});
+
+describe('Group Parsing Rules', () => {
+  const mint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  const rules = {
+    templates: ['^🚀 new call'],
+    requiredKeywords: ['entry'],
+    ignorePatterns: ['giveaway'],
+    minConfidence: null,
+    adminsOnly: false,
+  };
+
+  it('treats template matches as calls before the global heuristic', async () => {
+    const result = await detectSignal(`🚀 NEW CALL\n${mint}`, { rules });
+    expect(result.isSignal).toBe(true);
+    expect(result.templateId).toBe('group_template_1');
+  });
+
+  it('rejects patterns that can backtrack catastrophically', async () => {
+    expect(validateRulePattern('^🚀 (?:new|fresh) call\\s+[a-z]+')).toBeNull();
+    expect(validateRulePattern('giveaway|raid')).toBeNull();
+    expect(validateRulePattern('(a+)+$')).not.toBeNull();
+    expect(validateRulePattern('((ab)*c)+')).not.toBeNull();
+    expect(validateRulePattern('(a|aa)*b')).not.toBeNull();
+    expect(validateRulePattern('x'.repeat(201))).not.toBeNull();
+    // Stored unsafe patterns are skipped instead of run
+    const unsafe = { ...rules, templates: ['(a+)+$'], requiredKeywords: [] };
+    const result = await detectSignal(`${'a'.repeat(40)}! ${mint}`, { rules: unsafe });
+    expect(result.templateId).not.toBe('group_template_1');
+  });
+
+  it('rejects ignored messages and messages without required keywords', async () => {
+    expect((await detectSignal(`giveaway entry ${mint}`, { rules })).isSignal).toBe(false);
+    const missing = await detectSignal(`buy ${mint} lfg`, { rules });
+    expect(missing.isSignal).toBe(false);
+    expect(missing.templateId).toBe('group_rule_missing_keyword');
+  });
+
+  it('applies admins-only and minimum confidence', async () => {
+    const adminsOnly = { ...rules, templates: [], requiredKeywords: [], adminsOnly: true };
+    expect((await detectSignal(`buy ${mint}`, { rules: adminsOnly, senderIsAdmin: false })).isSignal).toBe(false);
+    expect((await detectSignal(`buy ${mint}`, { rules: adminsOnly, senderIsAdmin: true })).isSignal).toBe(true);
+    // Admins that could not be fetched fail closed
+    expect((await detectSignal(`buy ${mint}`, { rules: adminsOnly })).isSignal).toBe(false);
+    const strict = { ...rules, templates: [], requiredKeywords: [], minConfidence: 0.8 };
+    expect((await detectSignal(mint, { rules: strict })).isSignal).toBe(false);
+  });
+});
+
+describe('Text Model', () => {
+  const mint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  const examples = [
+    ...Array.from({ length: 25 }, (_, i) => ({ text: `Entry ${i}0k mc ape now ${mint}`, label: 'signal' as const })),
+    ...Array.from({ length: 25 }, () => ({ text: `airdrop claim free wallet check ${mint}`, label: 'not_signal' as const })),
+  ];
+  const model = trainTextModel(examples);
+
+  it('normalizes addresses, links and numbers', () => {
+    expect(tokenize(`Entry 45k https://dexscreener.com/solana/x ${mint}`)).toEqual([
+      'entry', '__num', '__url_dexscreener.com', '__addr',
+    ]);
+  });
+
+  it('scores messages resembling flagged ones as non-signals', async () => {
+    expect(predictSignalProbability(model, `ape entry ${mint}`)).toBeGreaterThan(0.5);
+    expect(predictSignalProbability(model, `free airdrop claim ${mint}`)).toBeLessThan(0.5);
+    const rejected = await detectSignal(`free airdrop claim wallet check ${mint}`, { textModel: model });
+    expect(rejected.isSignal).toBe(false);
+    expect(rejected.templateId).toBe('model_rejected');
+  });
+});
+
+describe('Classifier Evaluation', () => {
+  it('stays at or above the stored baseline on the labeled corpus', async () => {
+    const report = await evaluateClassifier(corpus);
+    expect(report.overall.total).toBe(corpus.length);
+    expect(findRegressions(report, baseline)).toEqual([]);
+  });
+
+  it('breaks metrics down by template and group', async () => {
+    const report = await evaluateClassifier([
+      { text: 'buy DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', isSignal: true, group: 'a' },
+      { text: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', isSignal: false, group: 'b' },
+    ]);
+    expect(report.byTemplate.heuristic_keyword).toMatchObject({ tp: 1, precision: 1 });
+    expect(report.byTemplate.standalone_mint).toMatchObject({ fp: 1, precision: 0 });
+    expect(report.byGroup.b.accuracy).toBe(0);
+    expect(report.overall.f1).toBeCloseTo(0.6667, 4);
+  });
+});
+
+describe('Spam Filter', () => {
+  it('recognizes raid templates and bot senders', () => {
+    expect(matchesRaidTemplate('🚨 RAID NOW 🚨 like + RT https://x.com/dev/status/123456')).toBe(true);
+    expect(matchesRaidTemplate('Smash like on https://twitter.com/dev/status/987 then ape')).toBe(true);
+    expect(matchesRaidTemplate('Entry 45k, dev posted on https://x.com/dev')).toBe(false);
+    expect(isKnownBotSender(BigInt(42), 'ShillPromoBot', true)).toBe(true);
+    // A human (or channel) named like a bot still counts
+    expect(isKnownBotSender(BigInt(42), 'AlphaCallsBot')).toBe(false);
+    expect(isKnownBotSender(BigInt(1087968824), 'GroupAnonymousBot')).toBe(false);
+    expect(isKnownBotSender(BigInt(42), 'alice')).toBe(false);
+  });
+
+  it('treats copies differing only in case, spacing and emoji as repeats', () => {
+    expect(normalizeForRepeat('🚀 APE  NOW\nDezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263')).toBe(
+      normalizeForRepeat('ape now 🔥 dezxaz8z7pnrnrjjz3wxborgixca6xjnb7yab1ppb263')
+    );
+  });
+});
+
+describe('Provider Registry', () => {
+  const registryOptions = { timeoutMs: 1000, failureThreshold: 3, cooldownMs: 60000, batchSize: 2, batchTimeoutMs: 1000, concurrency: 2 };
+  const quote = (price: number, source: string) => ({ price, timestamp: Date.now(), source });
+
+  it('falls back in the configured order and skips sources without data', async () => {
+    const registry = new ProviderRegistry(registryOptions)
+      .register({ name: 'empty', getQuote: async () => null })
+      .register({ name: 'backup', getQuote: async () => quote(2, 'backup') })
+      .register({ name: 'unused', getQuote: async () => quote(3, 'unused') })
+      .setOrder('quote', ['empty', 'backup', 'unused']);
+    expect((await registry.getQuote('mint')).source).toBe('backup');
+    const empty = registry.getStats().find(s => s.name === 'empty')!;
+    expect(empty.capabilities.quote).toMatchObject({ calls: 1, misses: 1, failures: 0 });
+  });
+
+  it('opens the breaker after repeated failures and stops calling the provider', async () => {
+    const failing = jest.fn(async () => {
+      throw new Error('503');
+    });
+    const registry = new ProviderRegistry({ ...registryOptions, failureThreshold: 2 })
+      .register({ name: 'dead', getQuote: failing })
+      .register({ name: 'alive', getQuote: async () => quote(1, 'alive') })
+      .setOrder('quote', ['dead', 'alive']);
+    for (let i = 0; i < 4; i++) await registry.getQuote('mint');
+    expect(failing).toHaveBeenCalledTimes(2);
+    const dead = registry.getStats().find(s => s.name === 'dead')!;
+    expect(dead.state).toBe('open');
+    expect(dead.capabilities.quote).toMatchObject({ failures: 2, skipped: 2 });
+  });
+
+  it('batches in chunks and only sends failed or missing mints to the next provider', async () => {
+    const batchCalls: string[][] = [];
+    const single = jest.fn(async (mint: string) => (mint === 'd' ? null : quote(2, 'single')));
+    const registry = new ProviderRegistry(registryOptions)
+      .register({
+        name: 'batch',
+        getQuotes: async mints => {
+          batchCalls.push(mints);
+          if (mints.includes('c')) throw new Error('429');
+          return Object.fromEntries(mints.map(m => [m, m === 'b' ? null : quote(1, 'batch')]));
+        },
+      })
+      .register({ name: 'single', getQuote: single })
+      .setOrder('quote', ['batch', 'single']);
+    const quotes = await registry.getQuotes(['a', 'b', 'c', 'd', 'a']);
+    expect(batchCalls).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(single.mock.calls.map(c => c[0]).sort()).toEqual(['b', 'c', 'd']);
+    expect(quotes.a?.source).toBe('batch');
+    expect(quotes.b?.source).toBe('single');
+    expect(quotes.c?.source).toBe('single');
+    expect(quotes.d).toBeNull();
+  });
+
+  it('caches results, joins identical in-flight lookups and shares entries with batch calls', async () => {
+    const getQuote = jest.fn(async (mint: string) => (mint === 'none' ? null : quote(1, 'src')));
+    const cache = new ProviderCache(new MemoryCacheBackend(), { quote: 60000, meta: 60000, ohlcv: 0, holders: 0 });
+    const registry = new ProviderRegistry(registryOptions, cache)
+      .register({ name: 'src', getQuote })
+      .setOrder('quote', ['src']);
+    await Promise.all([registry.getQuote('a'), registry.getQuote('a')]);
+    await registry.getQuote('a');
+    expect(getQuote).toHaveBeenCalledTimes(1);
+
+    const quotes = await registry.getQuotes(['a', 'b', 'none']);
+    expect(quotes.a?.source).toBe('src');
+    expect(quotes.none).toBeNull();
+    expect(getQuote.mock.calls.map(c => c[0])).toEqual(['a', 'b', 'none']);
+    // Misses are not cached
+    await registry.getQuotes(['b', 'none']);
+    expect(getQuote).toHaveBeenCalledTimes(4);
+    expect(registry.getCacheStats()?.capabilities.quote).toMatchObject({ hits: 3, collapsed: 1, misses: 4 });
+  });
+
+  it('replaces aggregator quotes that drift too far from the on-chain price', async () => {
+    const registry = new ProviderRegistry({ ...registryOptions, crossCheck: { provider: 'amm', maxDeviation: 0.25 } })
+      .register({ name: 'agg', getQuote: async mint => quote(mint === 'stale' ? 2 : 1.1, 'agg') })
+      .register({
+        name: 'amm',
+        getQuotes: async mints => Object.fromEntries(mints.map(m => [m, m === 'unpooled' ? null : quote(1, 'amm')])),
+      })
+      .setOrder('quote', ['agg', 'amm']);
+    expect((await registry.getQuote('fresh')).source).toBe('agg');
+    expect((await registry.getQuote('stale')).source).toBe('amm');
+    expect((await registry.getQuote('unpooled')).source).toBe('agg');
+    expect(registry.getCrossCheckStats()).toMatchObject({ provider: 'amm', checked: 2, replaced: 1 });
+  });
+
+  it('gets second quotes from a different upstream than the one that answered', async () => {
+    const registry = new ProviderRegistry(registryOptions)
+      .register({ name: 'jupiter', getQuote: async () => quote(1, 'jup') })
+      .register({ name: 'jupiter_price', getQuote: async () => quote(1, 'jup_v3') })
+      .register({ name: 'dex', getQuote: async () => quote(1.05, 'dex') })
+      .setOrder('quote', ['jupiter', 'jupiter_price', 'dex']);
+    const quotes = await registry.getQuotes(['a']);
+    expect(quotes.a?.provider).toBe('jupiter');
+    const second = await registry.getSecondQuotes(quotes);
+    expect(second.a).toMatchObject({ source: 'dex', provider: 'dex' });
+  });
+});
+
+describe('Rate Limiter', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('serves queued live requests before backfill', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ api: { perMinute: 1 } });
+    const order: string[] = [];
+    await limiter.acquire('api', 'public', 'live'); // Spends the only token
+    const backfill = limiter.acquire('api', 'public', 'backfill').then(() => order.push('backfill'));
+    const live = limiter.acquire('api', 'public', 'live').then(() => order.push('live'));
+    await jest.advanceTimersByTimeAsync(120000);
+    await Promise.all([backfill, live]);
+    expect(order).toEqual(['live', 'backfill']);
+  });
+
+  it('stops backfill short of the quota and keeps the reserve for live requests', async () => {
+    const limiter = new RateLimiter({ api: { perMinute: 100, daily: 10 } }, 0.2);
+    for (let i = 0; i < 8; i++) await limiter.acquire('api', 'key', 'backfill');
+    await expect(limiter.acquire('api', 'key', 'backfill')).rejects.toThrow(QuotaExceededError);
+    await limiter.acquire('api', 'key', 'live');
+    expect(limiter.getBudget()[0]).toMatchObject({ keyId: 'key', usedToday: 9, daily: 10 });
+  });
+
+  it('takes tokens and counts quota in the shared store', async () => {
+    const used = new Map<string, number>();
+    const store: SharedBucketStore = {
+      take: jest.fn(async (provider, keyId, periods, _perMinute, limits) => {
+        const usedToday = used.get(periods.day) || 0;
+        if (limits.daily && usedToday >= limits.daily) {
+          return { status: 'daily' as const, waitMs: 0, tokens: 1, usedToday, usedThisMonth: usedToday };
+        }
+        used.set(periods.day, usedToday + 1);
+        return { status: 'ok' as const, waitMs: 0, tokens: 1, usedToday: usedToday + 1, usedThisMonth: usedToday + 1 };
+      }),
+      pause: jest.fn(async () => {}),
+      seed: jest.fn(async () => {}),
+    };
+    // Two processes on one store split a daily quota of 3
+    const [first, second] = [0, 1].map(() => new RateLimiter({ api: { perMinute: 100, daily: 3 } }, 0));
+    first.share(store);
+    second.share(store);
+    await first.acquire('api', 'key', 'live');
+    await second.acquire('api', 'key', 'live');
+    await first.acquire('api', 'key', 'live');
+    await expect(second.acquire('api', 'key', 'live')).rejects.toThrow(QuotaExceededError);
+    second.backoff('api', 1000, 'key');
+    expect(store.pause).toHaveBeenCalledWith('api', 'key', 1000);
+
+    const rows: ProviderUsageRow[] = [];
+    await first.flush({ load: async () => [], add: async r => void rows.push(...r) });
+    expect(rows.find(r => r.period.length === 10)?.calls).toBe(2);
+  });
+});
+
+describe('pump.fun Bonding Curve', () => {
+  const curveAccount = (realTokenReserves: bigint, realSolReserves: bigint, complete = false) => {
+    const data = Buffer.alloc(81);
+    Buffer.from([0x17, 0xb7, 0xf8, 0x37, 0x60, 0xd8, 0xac, 0x60]).copy(data, 0);
+    data.writeBigUInt64LE(1_073_000_000_000_000n - (793_100_000_000_000n - realTokenReserves), 8);
+    data.writeBigUInt64LE(30_000_000_000n + realSolReserves, 16);
+    data.writeBigUInt64LE(realTokenReserves, 24);
+    data.writeBigUInt64LE(realSolReserves, 32);
+    data.writeBigUInt64LE(1_000_000_000_000_000n, 40);
+    data[48] = complete ? 1 : 0;
+    return data;
+  };
+
+  it('derives price, market cap and progress from a fresh curve', () => {
+    const state = decodeBondingCurve(curveAccount(793_100_000_000_000n, 0n))!;
+    const info = bondingCurveInfo('mint', state, 200);
+    expect(info.priceSol).toBeCloseTo(30 / 1_073_000_000, 15);
+    expect(info.marketCapSol).toBeCloseTo(27.96, 2);
+    expect(info.marketCapUsd).toBeCloseTo(27.96 * 200, 0);
+    expect(info.bondingProgress).toBe(0);
+    expect(info.isGraduated).toBe(false);
+  });
+
+  it('reports progress and graduation', () => {
+    const half = bondingCurveInfo('mint', decodeBondingCurve(curveAccount(396_550_000_000_000n, 40_000_000_000n))!, 200);
+    expect(half.bondingProgress).toBeCloseTo(50, 5);
+    expect(half.liquiditySol).toBe(40);
+    const done = bondingCurveInfo('mint', decodeBondingCurve(curveAccount(0n, 85_000_000_000n, true))!, 200);
+    expect(done).toMatchObject({ bondingProgress: 100, isGraduated: true });
+  });
+
+  it('rejects accounts that are not bonding curves', () => {
+    expect(decodeBondingCurve(Buffer.alloc(81))).toBeNull();
+  });
+});
+
+describe('AMM Pool Pricing', () => {
+  const pumpSwap = new PublicKey('pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA');
+  const mint = new PublicKey(Buffer.alloc(32, 7)).toBase58();
+  const wsol = 'So11111111111111111111111111111111111111112';
+  const poolAccount = () => {
+    const data = Buffer.alloc(243);
+    Buffer.from([0xf1, 0x9a, 0x6d, 0x04, 0x11, 0xb1, 0x6d, 0xbc]).copy(data, 0);
+    new PublicKey(mint).toBuffer().copy(data, 43);
+    new PublicKey(wsol).toBuffer().copy(data, 75);
+    Buffer.alloc(32, 1).copy(data, 139);
+    Buffer.alloc(32, 2).copy(data, 171);
+    return data;
+  };
+
+  it('decodes a PumpSwap pool and prices the token from its reserves', () => {
+    const layout = decodePool(pumpSwap, poolAccount())!;
+    expect(layout).toMatchObject({ dex: 'pumpswap', baseMint: mint, quoteMint: wsol });
+    // 200M tokens against 100 SOL at $150
+    const price = poolPrice(
+      mint,
+      'pool',
+      layout,
+      { base: 200_000_000_000_000n, quote: 100_000_000_000n },
+      { decimals: 6, supply: 1_000_000_000_000_000n },
+      150
+    )!;
+    expect(price.priceQuote).toBeCloseTo(5e-7, 12);
+    expect(price.priceUsd).toBeCloseTo(7.5e-5, 10);
+    expect(price.liquidityUsd).toBe(30000);
+    expect(price.marketCapUsd).toBeCloseTo(75000, 4);
+  });
+
+  it('ignores accounts it cannot decode and pools without the mint', () => {
+    expect(decodePool(pumpSwap, Buffer.alloc(243))).toBeNull();
+    expect(decodePool(PublicKey.default, poolAccount())).toBeNull();
+    const layout = decodePool(pumpSwap, poolAccount())!;
+    expect(poolPrice(wsol, 'pool', layout, { base: 1n, quote: 1n }, { decimals: 9, supply: 1n }, 150)).toBeNull();
+  });
+});
+
+describe('Price Sanity', () => {
+  const options = { maxJump: 5, agreeTolerance: 0.1, confirmations: 2, minConfidence: 0.5, windowMs: 3600000, referenceSamples: 3 };
+  const quote = (price: number) => ({ price, timestamp: Date.now(), source: 'src', provider: 'src' });
+  const at = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60000);
+  const history = [1, 1.1, 0.9].map((price, i) => ({ price, sampledAt: at(i + 1) }));
+
+  it('quarantines unconfirmed spikes and provider disagreements', () => {
+    expect(checkPrice(quote(50), history, null, options)).toMatchObject({ accepted: false, reason: 'UNCONFIRMED_SPIKE', referencePrice: 1 });
+    expect(checkPrice(quote(50), history, quote(1.2), options)).toMatchObject({ accepted: false, reason: 'PROVIDER_DISAGREEMENT' });
+    expect(checkPrice(quote(0), history, null, options)).toMatchObject({ accepted: false, reason: 'INVALID_PRICE' });
+  });
+
+  it('accepts spikes a second provider or repeated readings confirm', () => {
+    const confirmed = checkPrice(quote(50), history, quote(48), options);
+    expect(confirmed.accepted).toBe(true);
+    expect(confirmed.confidence).toBeCloseTo(0.96, 5);
+    const sustained = [...history, { price: 49, sampledAt: at(0.5), quarantined: true }, { price: 51, sampledAt: at(0.2), quarantined: true }];
+    expect(checkPrice(quote(50), sustained, null, options).accepted).toBe(true);
+  });
+
+  it('scores confidence by agreement with recent samples', () => {
+    expect(checkPrice(quote(1), history, null, options).confidence).toBe(1);
+    expect(checkPrice(quote(2), history, null, options).confidence).toBeCloseTo(1 - Math.log(2) / Math.log(5), 5);
+    expect(checkPrice(quote(1), history, quote(2), options)).toMatchObject({ accepted: true, confidence: 0.5 });
+  });
+});
+
+describe('Token Metadata', () => {
+  const hour = 60 * 60 * 1000;
+  const token = (overrides: Record<string, unknown>) =>
+    ({ name: 'Token', supply: 1e9, tokenCreatedAt: null, firstPoolCreatedAt: null, firstSeenAt: new Date(), ...overrides }) as any;
+
+  it('refreshes incomplete and young tokens sooner', () => {
+    const now = Date.now();
+    expect(tokenMaxAgeMs(token({ supply: null }), now)).toBe(5 * 60 * 1000);
+    expect(tokenMaxAgeMs(token({ tokenCreatedAt: new Date(now - 2 * hour) }), now)).toBe(15 * 60 * 1000);
+    expect(tokenMaxAgeMs(token({ tokenCreatedAt: new Date(now - 48 * hour) }), now)).toBe(6 * hour);
+  });
+});
+
+describe('Alert Delivery', () => {
+  const now = Date.now();
+
+  it('backs off exponentially and respects retry_after', () => {
+    expect(alertRetryAt(1, new Error('ETIMEDOUT'), now)?.getTime()).toBe(now + 60 * 1000);
+    expect(alertRetryAt(3, new Error('ETIMEDOUT'), now)?.getTime()).toBe(now + 4 * 60 * 1000);
+    const tooMany = { response: { error_code: 429, parameters: { retry_after: 300 } } };
+    expect(alertRetryAt(1, tooMany, now)?.getTime()).toBe(now + 300 * 1000);
+  });
+
+  it('gives up on permanent errors and after the last attempt', () => {
+    expect(alertRetryAt(1, { response: { error_code: 403, description: 'bot was blocked by the user' } }, now)).toBeNull();
+    expect(alertRetryAt(5, new Error('ETIMEDOUT'), now)).toBeNull();
+  });
+});
+
+describe('Threshold Alerts', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const settings = {
+    alert2x: true, alert3x: true, alertMc2x: true, alertMc3x: true,
+    notifyInDM: true, notifyInGroup: false, notifyDestination: false, homeChatId: null,
+  };
+  const signal = (id: number, historical: boolean) => ({
+    id, mint: `Mint${id}`, chatId: null, entryPrice: 1, entrySupply: 1000, entryMarketCap: 1000,
+    historical, metrics: null, group: null, user: { userId: BigInt(40 + id), notificationSettings: settings },
+  });
+
+  it('records thresholds of historical signals without queuing deliveries', async () => {
+    const events: Array<{ id: number; signalId: number }> = [];
+    const db = prisma as any;
+    const create = jest.fn(async ({ data }: any) => {
+      const event = { id: events.length + 1, ...data };
+      events.push(event);
+      return event;
+    });
+    jest.replaceProperty(db, 'signal', { findMany: jest.fn(async () => [signal(1, true), signal(2, false)]) });
+    jest.replaceProperty(db, 'signalMetric', { upsert: jest.fn() });
+    jest.replaceProperty(db, 'thresholdEvent', { findMany: jest.fn(async () => []), create });
+    jest.replaceProperty(db, 'alertDelivery', { createMany: jest.fn(), findMany: jest.fn(async () => []) });
+    jest.replaceProperty(db, 'priceSample', { findMany: jest.fn(async () => []) });
+    jest.replaceProperty(db, 'priceQuarantine', { findMany: jest.fn(async () => []) });
+    jest.replaceProperty(db, '$transaction', jest.fn(async (fn: any) => fn(db)));
+    const quote = { price: 3, timestamp: Date.now(), source: 'test' };
+    const quotes = provider as any;
+    jest.replaceProperty(quotes, 'getQuotes', jest.fn(async () => ({ Mint1: quote, Mint2: quote })));
+    jest.replaceProperty(quotes, 'getSecondQuotes', jest.fn(async () => ({ Mint1: quote, Mint2: quote })));
+
+    await checkPriceAlerts();
+
+    // 2x and 3x on price and MC for both signals, alerts only for the live one
+    expect(events.filter(e => e.signalId === 1)).toHaveLength(4);
+    expect(events.filter(e => e.signalId === 2)).toHaveLength(4);
+    const queued = db.alertDelivery.createMany.mock.calls.flatMap((call: any) => call[0].data);
+    expect(queued).toHaveLength(4);
+    expect(queued.every((d: any) => events.find(e => e.id === d.thresholdEventId)?.signalId === 2)).toBe(true);
+  });
+});
+
+describe('Price Sampling', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+  it('samples a series at the fastest cadence any of its signals needs', () => {
+    const older = { detectedAt: minutesAgo(300) }; // 5m cadence
+    expect(isMintDue([older], minutesAgo(2))).toBe(false);
+    expect(isMintDue([older, { detectedAt: minutesAgo(10) }], minutesAgo(2))).toBe(true);
+    expect(isMintDue([older], null)).toBe(true);
+  });
+
+  it('shares one series per chain and mint and keeps each new signal\'s entry sample', async () => {
+    const signal = (id: number, chain: string, mint: string, detectedAt: Date, sampled: boolean) => ({
+      id, chain, mint, detectedAt, entryPrice: null, entryMarketCap: null, historical: false,
+      priceSamples: sampled ? [{ id: BigInt(id) }] : [],
+    });
+    const signals = [
+      signal(1, 'solana', 'Shared', minutesAgo(300), true),
+      signal(2, 'solana', 'Shared', minutesAgo(1), false),
+      signal(3, 'solana', 'Shared', minutesAgo(1), false),
+      // Same address on two EVM chains: separate series, only base is due
+      signal(4, 'bsc', '0xdup', minutesAgo(300), true),
+      signal(5, 'base', '0xdup', minutesAgo(300), false),
+    ];
+    const db = prisma as any;
+    jest.replaceProperty(db, 'signal', { findMany: jest.fn(async () => signals), update: jest.fn() });
+    jest.replaceProperty(db, 'priceSample', {
+      groupBy: jest.fn(async () => [
+        { chain: 'solana', mint: 'Shared', _max: { sampledAt: minutesAgo(2) } },
+        { chain: 'bsc', mint: '0xdup', _max: { sampledAt: minutesAgo(2) } },
+      ]),
+      // Latest-sample lookups match on sampledAt; the sanity check's history stays empty
+      findMany: jest.fn(async ({ where }: any) => where.OR.filter((w: any) => w.sampledAt).map((w: any) => ({ ...w, price: 1 }))),
+      create: jest.fn(async ({ data }: any) => data),
+    });
+    jest.replaceProperty(db, 'priceQuarantine', { findMany: jest.fn(async () => []) });
+    const quote = { price: 1, timestamp: Date.now(), source: 'test' };
+    const quotes = provider as any;
+    jest.replaceProperty(quotes, 'getQuotes', jest.fn(async () => ({ Shared: quote, '0xdup': quote })));
+    jest.replaceProperty(quotes, 'getSecondQuotes', jest.fn(async () => ({ Shared: quote, '0xdup': quote })));
+    jest.replaceProperty(quotes, 'getTokenMetas', jest.fn(async () => ({})));
+    const updateMetrics = jest.spyOn(metrics, 'updateSignalMetrics').mockResolvedValue(undefined as any);
+
+    await runSamplingCycle();
+
+    expect(quotes.getQuotes).toHaveBeenCalledWith(['Shared', '0xdup']);
+    const samples = db.priceSample.create.mock.calls.map((call: any) => call[0].data);
+    expect(samples.map((s: any) => [s.signalId, s.chain, s.mint])).toEqual([
+      [2, 'solana', 'Shared'],
+      [3, 'solana', 'Shared'],
+      [5, 'base', '0xdup'],
+    ]);
+    expect(updateMetrics.mock.calls.map(call => call[0])).toEqual([1, 2, 3, 5]);
+  });
+});
+
+describe('Backfill Runs', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const run = (id: number, status: string) => ({
+    id, kind: 'ath_fast', status, options: { concurrency: 1 }, processedMints: 0, totalMints: 1, budget: null,
+  });
+
+  it('resumes stopped and failed runs and stops only running ones', async () => {
+    const runs = [run(1, 'paused'), run(2, 'error'), run(3, 'complete'), run(4, 'running')];
+    const updateMany = jest.fn(async ({ where, data }: any) => {
+      const statuses = typeof where.status === 'string' ? [where.status] : where.status.in;
+      const matched = runs.filter(r => r.id === where.id && statuses.includes(r.status));
+      matched.forEach(r => Object.assign(r, data));
+      return { count: matched.length };
+    });
+    jest.replaceProperty(prisma as any, 'backfillRun', { updateMany });
+
+    expect(await resumeBackfillRun(1)).toBe(true);
+    expect(await resumeBackfillRun(2)).toBe(true);
+    expect(await resumeBackfillRun(3)).toBe(false);
+    expect(runs.map(r => r.status)).toEqual(['running', 'running', 'complete', 'running']);
+
+    await requestBackfillStop(4);
+    await requestBackfillStop(3);
+    expect(runs.map(r => r.status)).toEqual(['running', 'running', 'complete', 'paused']);
+  });
+
+  it('picks a failed run up from its pending mints and leaves a stopped one alone', async () => {
+    const db = prisma as any;
+    let current: any = run(1, 'error');
+    const update = jest.fn(async ({ data }: any) => (current = { ...current, ...data }));
+    jest.replaceProperty(db, 'backfillRun', { findUnique: jest.fn(async () => current), update });
+    jest.replaceProperty(db, 'backfillRunMint', { findMany: jest.fn(async () => [{ mint: 'MintA' }]), update: jest.fn() });
+    // The pending mint's signals no longer need an ATH, so no provider is called
+    jest.replaceProperty(db, 'signal', { findMany: jest.fn(async () => []) });
+    jest.replaceProperty(db, '$transaction', jest.fn(async (ops: any) => Promise.all(ops)));
+
+    await runFastBackfill(1);
+    const statuses = update.mock.calls.map(call => call[0].data.status).filter(Boolean);
+    expect(statuses).toEqual(['running', 'complete']);
+    expect(update.mock.calls[0][0].data.resumedCount).toEqual({ increment: 1 });
+    expect(db.backfillRunMint.update).toHaveBeenCalledWith(expect.objectContaining({ where: { runId_mint: { runId: 1, mint: 'MintA' } } }));
+
+    update.mockClear();
+    current = run(2, 'paused');
+    await runFastBackfill(2);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('stores the provider budget as JSON and reads it back', async () => {
+    const db = prisma as any;
+    const update = jest.fn(async ({ data }: any) => ({ ...run(1, 'running'), ...data }));
+    jest.replaceProperty(db, 'backfillRun', { update });
+    jest.replaceProperty(db, 'backfillRunMint', { update: jest.fn() });
+    jest.replaceProperty(db, '$transaction', jest.fn(async (ops: any) => Promise.all(ops)));
+    const budget = [
+      { provider: 'api', keyId: 'k1', perMinute: 60, available: 10, queued: 0, pausedForMs: 0, usedToday: 5, daily: 100, usedThisMonth: 50 },
+    ];
+
+    const stored = await recordBackfillMint(1, 'MintA', { status: 'done', signals: 1, athUpdated: 0, errors: 0, skipped: 0 }, budget);
+    expect(Object.keys(update.mock.calls[0][0].data.budget[0])).not.toContain('monthly');
+    expect(getRunBudget(stored)).toEqual([{ ...budget[0], monthly: undefined }]);
+  });
+});